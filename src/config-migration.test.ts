@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CONFIG_SCHEMA_VERSION,
+  STORAGE_KEY_SCHEMA_VERSION,
+  getSchemaVersion,
+  migrateConfig,
+  type ConfigMigration,
+} from './config-migration';
+import { VOLUME_DEFAULT, ZOOM_DEFAULT } from './renderer/utils';
+
+describe('getSchemaVersion', () => {
+  it('保存されたバージョンを返す', () => {
+    expect(getSchemaVersion({ [STORAGE_KEY_SCHEMA_VERSION]: 2, zoom: {} })).toBe(2);
+  });
+
+  it('バージョンのない既存の設定はバージョン 1 として扱う', () => {
+    expect(getSchemaVersion({ zoom: 1.2 })).toBe(1);
+    expect(getSchemaVersion({ [STORAGE_KEY_SCHEMA_VERSION]: 'x', zoom: 1.2 })).toBe(1);
+  });
+
+  it('空の設定は現在のバージョンとして扱う', () => {
+    expect(getSchemaVersion({})).toBe(CONFIG_SCHEMA_VERSION);
+  });
+});
+
+describe('migrateConfig', () => {
+  it('数値の zoom / volume と個別設定を統合した形式に変換する', () => {
+    const result = migrateConfig({
+      layout: { slots: ['youtube'] },
+      zoom: 1.2,
+      volume: 0.3,
+      zoomOverrides: { youtube: 1.5 },
+      volumeOverrides: { tiktok: 0 },
+    });
+
+    expect(result.fromVersion).toBe(1);
+    expect(result.toVersion).toBe(CONFIG_SCHEMA_VERSION);
+    expect(result.config).toEqual({
+      layout: { slots: ['youtube'] },
+      zoom: { global: 1.2, services: { youtube: 1.5 } },
+      volume: { global: 0.3, services: { tiktok: 0 } },
+      [STORAGE_KEY_SCHEMA_VERSION]: CONFIG_SCHEMA_VERSION,
+    });
+  });
+
+  it('値がない・不正な場合はデフォルトを使う', () => {
+    const result = migrateConfig({ pinned: true, zoomOverrides: 'invalid' });
+    expect(result.config.zoom).toEqual({ global: ZOOM_DEFAULT, services: {} });
+    expect(result.config.volume).toEqual({ global: VOLUME_DEFAULT, services: {} });
+    expect(result.config).not.toHaveProperty('zoomOverrides');
+  });
+
+  it('現在のバージョンの設定は変換しない', () => {
+    const config = {
+      [STORAGE_KEY_SCHEMA_VERSION]: CONFIG_SCHEMA_VERSION,
+      zoom: { global: 1, services: {} },
+    };
+    const result = migrateConfig(config);
+    expect(result.applied).toHaveLength(0);
+    expect(result.config).toEqual(config);
+  });
+
+  it('新しいバージョンの設定はそのまま返す', () => {
+    const config = { [STORAGE_KEY_SCHEMA_VERSION]: CONFIG_SCHEMA_VERSION + 1, zoom: 'future' };
+    const result = migrateConfig(config);
+    expect(result.applied).toHaveLength(0);
+    expect(result.toVersion).toBe(CONFIG_SCHEMA_VERSION + 1);
+    expect(result.config).toEqual(config);
+  });
+
+  it('マイグレーションをバージョン順に適用する', () => {
+    const migrations: ConfigMigration[] = [
+      { version: 3, description: 'b', migrate: (c) => ({ ...c, steps: [...(c.steps as []), 3] }) },
+      { version: 2, description: 'a', migrate: (c) => ({ ...c, steps: [2] }) },
+    ];
+    const result = migrateConfig({ legacy: true }, migrations);
+    expect(result.config.steps).toEqual([2, 3]);
+    expect(result.applied.map((migration) => migration.version)).toEqual([2, 3]);
+    expect(result.config[STORAGE_KEY_SCHEMA_VERSION]).toBe(3);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * 設定ストアのスキーマバージョン管理とマイグレーション
+ * メインプロセスの起動時に、古い形式で保存された設定を現在の形式に変換する
+ */
+import {
+  STORAGE_KEY_VOLUME,
+  STORAGE_KEY_ZOOM,
+  VOLUME_DEFAULT,
+  ZOOM_DEFAULT,
+  isValidVolumeConfig,
+  isValidZoomConfig,
+  type VolumeSettings,
+  type ZoomSettings,
+} from './renderer/utils';
+
+// スキーマバージョンを保存するキー
+export const STORAGE_KEY_SCHEMA_VERSION = 'schemaVersion';
+
+// 現在のスキーマバージョン
+export const CONFIG_SCHEMA_VERSION = 2;
+
+/**
+ * 設定ストアの内容（キーごとの値）
+ */
+export type ConfigData = Record<string, unknown>;
+
+/**
+ * マイグレーションの定義
+ * version は変換後のスキーマバージョン（version - 1 から version へ変換する）
+ */
+export interface ConfigMigration {
+  version: number;
+  description: string;
+  migrate: (config: ConfigData) => ConfigData;
+}
+
+/**
+ * マイグレーションの結果
+ */
+export interface ConfigMigrationResult {
+  config: ConfigData;
+  fromVersion: number;
+  toVersion: number;
+  applied: ConfigMigration[];
+}
+
+/**
+ * マイグレーションの一覧（バージョン順）
+ */
+export const CONFIG_MIGRATIONS: ConfigMigration[] = [
+  {
+    version: 2,
+    description: 'zoom / volume を統一設定とサービス個別設定をまとめた形式に変換',
+    migrate: (config) => {
+      const { zoomOverrides, volumeOverrides, ...rest } = config;
+      const zoom: ZoomSettings = {
+        global: typeof config.zoom === 'number' ? config.zoom : ZOOM_DEFAULT,
+        services: isValidZoomConfig(zoomOverrides) ? zoomOverrides : {},
+      };
+      const volume: VolumeSettings = {
+        global: typeof config.volume === 'number' ? config.volume : VOLUME_DEFAULT,
+        services: isValidVolumeConfig(volumeOverrides) ? volumeOverrides : {},
+      };
+      return { ...rest, [STORAGE_KEY_ZOOM]: zoom, [STORAGE_KEY_VOLUME]: volume };
+    },
+  },
+];
+
+/**
+ * 設定のスキーマバージョンを取得
+ * バージョンがない場合、空の設定は新規インストールとして現在のバージョン、
+ * それ以外はバージョン管理を導入する前の設定（バージョン 1）として扱う
+ * @param config 設定ストアの内容
+ * @returns スキーマバージョン
+ */
+export function getSchemaVersion(config: ConfigData): number {
+  const version = config[STORAGE_KEY_SCHEMA_VERSION];
+  if (typeof version === 'number' && Number.isInteger(version) && version > 0) return version;
+  return Object.keys(config).length === 0 ? CONFIG_SCHEMA_VERSION : 1;
+}
+
+/**
+ * 設定を現在のスキーマバージョンに変換する
+ * 現在より新しいバージョンの設定は変換しない
+ * @param config 設定ストアの内容
+ * @param migrations マイグレーションの一覧
+ * @returns 変換後の設定と適用したマイグレーション
+ */
+export function migrateConfig(
+  config: ConfigData,
+  migrations: ConfigMigration[] = CONFIG_MIGRATIONS
+): ConfigMigrationResult {
+  const fromVersion = getSchemaVersion(config);
+  const applied = migrations
+    .filter((migration) => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+
+  let migrated = { ...config };
+  for (const migration of applied) {
+    migrated = { ...migration.migrate(migrated), [STORAGE_KEY_SCHEMA_VERSION]: migration.version };
+  }
+
+  const toVersion = Math.max(fromVersion, ...applied.map((migration) => migration.version));
+  return {
+    config: { ...migrated, [STORAGE_KEY_SCHEMA_VERSION]: toVersion },
+    fromVersion,
+    toVersion,
+    applied,
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { CONFIG_EXPORT_FORMAT, createConfigExport, validateConfigImport } from './config-transfer';
+import { CONFIG_SCHEMA_VERSION, STORAGE_KEY_SCHEMA_VERSION } from './config-migration';
+
+const settings = {
+  layout: { slots: ['youtube', 'x'] },
+  pinned: true,
+  zoom: { global: 1.2, services: { youtube: 1.5 } },
+  volume: { global: 0.4, services: {} },
+  shortcuts: { 'toggle-pin': 'Alt+P' },
+};
+
+describe('createConfigExport', () => {
+  it('スキーマバージョンを分けてエクスポートする', () => {
+    const exported = createConfigExport(
+      { ...settings, [STORAGE_KEY_SCHEMA_VERSION]: CONFIG_SCHEMA_VERSION },
+      new Date('2024-01-02T03:04:05Z')
+    );
+    expect(exported).toEqual({
+      format: CONFIG_EXPORT_FORMAT,
+      schemaVersion: CONFIG_SCHEMA_VERSION,
+      exportedAt: '2024-01-02T03:04:05.000Z',
+      settings,
+    });
+  });
+});
+
+describe('validateConfigImport', () => {
+  it('エクスポートした設定をそのままインポートできる', () => {
+    const result = validateConfigImport(createConfigExport({ ...settings, schemaVersion: 2 }));
+    expect(result.accepted).toEqual(settings);
+    expect(result.rejected).toEqual([]);
+  });
+
+  it('不正な値と未対応のキーは取り込まずに報告する', () => {
+    const result = validateConfigImport({
+      format: CONFIG_EXPORT_FORMAT,
+      schemaVersion: CONFIG_SCHEMA_VERSION,
+      settings: { ...settings, pinned: 'yes', theme: 'dark' },
+    });
+    expect(result.accepted).not.toHaveProperty('pinned');
+    expect(result.accepted).toHaveProperty('layout');
+    expect(result.rejected.map((item) => item.key).sort()).toEqual(['pinned', 'theme']);
+  });
+
+  it('古い形式の設定ファイルは変換してからインポートする', () => {
+    const result = validateConfigImport({ zoom: 1.1, volume: 0.2, pinned: false });
+    expect(result.accepted).toEqual({
+      zoom: { global: 1.1, services: {} },
+      volume: { global: 0.2, services: {} },
+      pinned: false,
+    });
+  });
+
+  it('オブジェクト以外や settings のないファイルはすべて拒否する', () => {
+    expect(validateConfigImport([1, 2]).rejected).toHaveLength(1);
+    expect(validateConfigImport(null).accepted).toEqual({});
+    const result = validateConfigImport({ format: CONFIG_EXPORT_FORMAT, schemaVersion: 2 });
+    expect(result.accepted).toEqual({});
+    expect(result.rejected[0].key).toBe('settings');
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * 設定のエクスポート・インポート
+ * ファイルの読み書き（ダイアログ）はメインプロセスで行い、ここでは形式の変換と検証のみを扱う
+ */
+import { STORAGE_KEY_SCHEMA_VERSION, migrateConfig, type ConfigData } from './config-migration';
+import {
+  STORAGE_KEY_AUDIO,
+  STORAGE_KEY_CONTENT_BLOCKING,
+  STORAGE_KEY_HIBERNATION,
+  STORAGE_KEY_INCIDENTS,
+  STORAGE_KEY_INJECTION_RULES,
+  STORAGE_KEY_LAST_URLS,
+  STORAGE_KEY_LAYOUT,
+  STORAGE_KEY_LAYOUT_PRESETS,
+  STORAGE_KEY_NAVIGATION_TOOLBAR,
+  STORAGE_KEY_PERMISSIONS,
+  STORAGE_KEY_PINNED,
+  STORAGE_KEY_PLAYBACK,
+  STORAGE_KEY_SERVICES,
+  STORAGE_KEY_SHORTCUTS,
+  STORAGE_KEY_STARTUP_MODE,
+  STORAGE_KEY_VOLUME,
+  STORAGE_KEY_ZOOM,
+  isValidAudioSettings,
+  isValidContentBlockingSettings,
+  isValidHibernationSettings,
+  isValidIncidentLog,
+  isValidInjectionRules,
+  isValidLastUrls,
+  isValidLayoutConfig,
+  isValidLayoutPresetStore,
+  isValidPermissionDecisions,
+  isValidPlaybackSettings,
+  isValidServiceList,
+  isValidShortcutBindings,
+  isValidStartupMode,
+  isValidVolumeSettings,
+  isValidZoomSettings,
+} from './renderer/utils';
+
+// エクスポートファイルの形式名
+export const CONFIG_EXPORT_FORMAT = 'multi-sns-viewer-config';
+
+/**
+ * エクスポートファイルの型定義
+ * settings は設定ストアの内容（スキーマバージョンは schemaVersion に分けて持つ）
+ */
+export interface ConfigExport {
+  format: typeof CONFIG_EXPORT_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  settings: ConfigData;
+}
+
+/**
+ * インポートできなかった設定
+ */
+export interface RejectedSetting {
+  key: string;
+  reason: string;
+}
+
+/**
+ * インポートの検証結果
+ */
+export interface ConfigImportResult {
+  accepted: ConfigData;
+  rejected: RejectedSetting[];
+}
+
+/**
+ * 設定キーごとの検証関数
+ * 設定を追加したときはここにも登録する（登録のないキーはインポートしない）
+ */
+export const CONFIG_VALIDATORS: Record<string, (value: unknown) => boolean> = {
+  [STORAGE_KEY_LAYOUT]: isValidLayoutConfig,
+  [STORAGE_KEY_PINNED]: (value) => typeof value === 'boolean',
+  [STORAGE_KEY_ZOOM]: isValidZoomSettings,
+  [STORAGE_KEY_VOLUME]: isValidVolumeSettings,
+  [STORAGE_KEY_SERVICES]: isValidServiceList,
+  [STORAGE_KEY_LAYOUT_PRESETS]: isValidLayoutPresetStore,
+  [STORAGE_KEY_SHORTCUTS]: isValidShortcutBindings,
+  [STORAGE_KEY_HIBERNATION]: isValidHibernationSettings,
+  [STORAGE_KEY_STARTUP_MODE]: isValidStartupMode,
+  [STORAGE_KEY_INCIDENTS]: isValidIncidentLog,
+  [STORAGE_KEY_NAVIGATION_TOOLBAR]: (value) => typeof value === 'boolean',
+  [STORAGE_KEY_LAST_URLS]: isValidLastUrls,
+  [STORAGE_KEY_AUDIO]: isValidAudioSettings,
+  [STORAGE_KEY_PLAYBACK]: isValidPlaybackSettings,
+  [STORAGE_KEY_INJECTION_RULES]: isValidInjectionRules,
+  [STORAGE_KEY_CONTENT_BLOCKING]: isValidContentBlockingSettings,
+  [STORAGE_KEY_PERMISSIONS]: isValidPermissionDecisions,
+};
+
+/**
+ * 設定ストアの内容からエクスポートファイルを作成する
+ * @param config 設定ストアの内容（現在のスキーマバージョン）
+ * @param exportedAt エクスポート日時
+ * @returns エクスポートファイルの内容
+ */
+export function createConfigExport(config: ConfigData, exportedAt = new Date()): ConfigExport {
+  const { [STORAGE_KEY_SCHEMA_VERSION]: schemaVersion, ...settings } = config;
+  return {
+    format: CONFIG_EXPORT_FORMAT,
+    schemaVersion: typeof schemaVersion === 'number' ? schemaVersion : 1,
+    exportedAt: exportedAt.toISOString(),
+    settings,
+  };
+}
+
+/**
+ * インポートするファイルの内容を検証する
+ * 古いスキーマバージョンのファイルは現在の形式に変換してから検証する
+ * エクスポート形式でないオブジェクトは設定ストアの内容（config.json）そのものとして扱う
+ * @param data ファイルの内容（JSON.parse の結果）
+ * @returns インポートする設定と、インポートしない設定の一覧
+ */
+export function validateConfigImport(data: unknown): ConfigImportResult {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return {
+      accepted: {},
+      rejected: [{ key: '(file)', reason: '設定ファイルの形式ではありません' }],
+    };
+  }
+
+  const file = data as Record<string, unknown>;
+  let config: ConfigData;
+  if (file.format === CONFIG_EXPORT_FORMAT) {
+    const settings = file.settings;
+    if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+      return { accepted: {}, rejected: [{ key: 'settings', reason: '設定が含まれていません' }] };
+    }
+    config = { ...(settings as ConfigData), [STORAGE_KEY_SCHEMA_VERSION]: file.schemaVersion };
+  } else {
+    config = file;
+  }
+
+  const { config: migrated } = migrateConfig(config);
+  const accepted: ConfigData = {};
+  const rejected: RejectedSetting[] = [];
+  Object.entries(migrated).forEach(([key, value]) => {
+    if (key === STORAGE_KEY_SCHEMA_VERSION) return;
+    const validate = CONFIG_VALIDATORS[key];
+    if (!validate) {
+      rejected.push({ key, reason: '未対応の設定です' });
+    } else if (!validate(value)) {
+      rejected.push({ key, reason: '値の形式が正しくありません' });
+    } else {
+      accepted[key] = value;
+    }
+  });
+  return { accepted, rejected };
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createFilterEngine,
+  isAllowlisted,
+  parseFilter,
+  parseFilterList,
+  shouldBlockRequest,
+  toFilterResourceType,
+  type FilterRequest,
+} from './content-blocker';
+
+const request = (url: string, overrides: Partial<FilterRequest> = {}): FilterRequest => ({
+  url,
+  resourceType: 'script',
+  pageUrl: 'https://x.com/home',
+  ...overrides,
+});
+
+const engineOf = (...lines: string[]) => createFilterEngine(parseFilterList(lines.join('\n')));
+
+describe('parseFilter', () => {
+  it('コメント・ヘッダー・要素の非表示は無視する', () => {
+    expect(parseFilter('! Title: EasyList')).toBeNull();
+    expect(parseFilter('[Adblock Plus 2.0]')).toBeNull();
+    expect(parseFilter('example.com##.ad-banner')).toBeNull();
+    expect(parseFilter('example.com#@#.ad-banner')).toBeNull();
+    expect(parseFilter('   ')).toBeNull();
+  });
+
+  it('正規表現のフィルターと未対応のオプションを含む行は無視する', () => {
+    expect(parseFilter('/banner\\d+/')).toBeNull();
+    expect(parseFilter('||ads.example.com^$redirect=noopjs')).toBeNull();
+  });
+
+  it('ドメインのフィルターはドメインで索引を付ける', () => {
+    const filter = parseFilter('||ads.example.com^$third-party,script');
+    expect(filter?.hostname).toBe('ads.example.com');
+    expect(filter?.thirdParty).toBe(true);
+    expect(filter?.resourceTypes).toEqual(['script']);
+  });
+
+  it('前後が区切られた最も長いトークンを索引に使う', () => {
+    expect(parseFilter('/ads/*/banner^')?.token).toBe('banner');
+    expect(parseFilter('|https://track.')?.token).toBe('track');
+    expect(parseFilter('.gif|')?.token).toBe('gif');
+    // 先頭・末尾が固定されていない、または * に接する英数字は URL のトークンの一部かもしれない
+    expect(parseFilter('adbanner')?.token).toBeNull();
+    expect(parseFilter('/ad*banner.')?.token).toBeNull();
+  });
+
+  it('@@ は例外フィルターとして扱う', () => {
+    expect(parseFilter('@@||example.com/ads.js')?.isException).toBe(true);
+  });
+});
+
+describe('parseFilterList', () => {
+  it('使える行だけをフィルターにする', () => {
+    const filters = parseFilterList('! comment\r\n||a.com^\r\n##.ad\r\n/ads/*\n');
+    expect(filters).toHaveLength(2);
+  });
+});
+
+describe('shouldBlockRequest', () => {
+  it('||domain^ はドメインとサブドメインへのリクエストをブロックする', () => {
+    const engine = engineOf('||doubleclick.net^');
+    expect(shouldBlockRequest(engine, request('https://doubleclick.net/ad.js'))).toBe(true);
+    expect(shouldBlockRequest(engine, request('https://stats.g.doubleclick.net/x'))).toBe(true);
+    expect(shouldBlockRequest(engine, request('https://notdoubleclick.net/x'))).toBe(false);
+    expect(shouldBlockRequest(engine, request('https://doubleclick.network/x'))).toBe(false);
+  });
+
+  it('区切られていない ||domain はホスト名の前方一致で判定する', () => {
+    const engine = engineOf('||example.co', '||adserver.');
+    expect(shouldBlockRequest(engine, request('https://example.com/a.js'))).toBe(true);
+    expect(shouldBlockRequest(engine, request('https://adserver.net/x'))).toBe(true);
+    expect(shouldBlockRequest(engine, request('https://myadserver.net/x'))).toBe(false);
+  });
+
+  it('* と ^ を含むパターンで URL を判定する', () => {
+    const engine = engineOf('/ads/*/banner^');
+    expect(shouldBlockRequest(engine, request('https://cdn.com/ads/top/banner?id=1'))).toBe(true);
+    expect(shouldBlockRequest(engine, request('https://cdn.com/ads/top/bannerx'))).toBe(false);
+  });
+
+  it('| は URL の先頭・末尾に固定する', () => {
+    const engine = engineOf('|https://track.', '.gif|');
+    expect(shouldBlockRequest(engine, request('https://track.example.com/p'))).toBe(true);
+    expect(shouldBlockRequest(engine, request('https://example.com/?u=https://track.'))).toBe(
+      false
+    );
+    expect(shouldBlockRequest(engine, request('https://example.com/pixel.gif'))).toBe(true);
+    expect(shouldBlockRequest(engine, request('https://example.com/pixel.gif?x'))).toBe(false);
+  });
+
+  it('例外フィルターに一致するリクエストはブロックしない', () => {
+    const engine = engineOf('||example.com/ads/', '@@||example.com/ads/allowed.js');
+    expect(shouldBlockRequest(engine, request('https://example.com/ads/a.js'))).toBe(true);
+    expect(shouldBlockRequest(engine, request('https://example.com/ads/allowed.js'))).toBe(false);
+  });
+
+  it('$third-party はページと別のサイトへのリクエストのみブロックする', () => {
+    const engine = engineOf('||cdn.x.com^$third-party', '||tracker.io^$~third-party');
+    const page = { pageUrl: 'https://x.com/home' };
+    expect(shouldBlockRequest(engine, request('https://cdn.x.com/a.js', page))).toBe(false);
+    expect(
+      shouldBlockRequest(engine, request('https://cdn.x.com/a.js', { pageUrl: 'https://a.io/' }))
+    ).toBe(true);
+    expect(shouldBlockRequest(engine, request('https://tracker.io/p', page))).toBe(false);
+  });
+
+  it('$domain= はページのドメインで対象を絞り込む', () => {
+    const engine = engineOf('/promo.js$domain=youtube.com|~music.youtube.com');
+    const url = 'https://cdn.com/promo.js';
+    expect(shouldBlockRequest(engine, request(url, { pageUrl: 'https://www.youtube.com/' }))).toBe(
+      true
+    );
+    expect(
+      shouldBlockRequest(engine, request(url, { pageUrl: 'https://music.youtube.com/' }))
+    ).toBe(false);
+    expect(shouldBlockRequest(engine, request(url, { pageUrl: 'https://x.com/' }))).toBe(false);
+  });
+
+  it('リソースの種類のオプションで対象を絞り込む', () => {
+    const engine = engineOf('||ads.com^$image,~script', '/pixel$~image');
+    expect(
+      shouldBlockRequest(engine, request('https://ads.com/a', { resourceType: 'image' }))
+    ).toBe(true);
+    expect(shouldBlockRequest(engine, request('https://ads.com/a'))).toBe(false);
+    expect(
+      shouldBlockRequest(engine, request('https://a.com/pixel', { resourceType: 'image' }))
+    ).toBe(false);
+    expect(
+      shouldBlockRequest(engine, request('https://a.com/pixel', { resourceType: 'ping' }))
+    ).toBe(true);
+  });
+
+  it('トークンの索引がないフィルターもすべてのリクエストで判定する', () => {
+    const engine = engineOf('adbanner', '/ads.');
+    expect(shouldBlockRequest(engine, request('https://cdn.com/x-adbanner-1.png'))).toBe(true);
+    expect(shouldBlockRequest(engine, request('https://cdn.com/img/ads.js'))).toBe(true);
+    expect(shouldBlockRequest(engine, request('https://cdn.com/img/adsx.js'))).toBe(false);
+  });
+
+  it('フィルターがない場合や URL が不正な場合はブロックしない', () => {
+    expect(shouldBlockRequest(engineOf(), request('https://doubleclick.net/'))).toBe(false);
+    expect(shouldBlockRequest(engineOf('*'), request('not a url'))).toBe(false);
+  });
+});
+
+describe('isAllowlisted', () => {
+  it('リクエスト先かページが許可リストのドメインなら許可する', () => {
+    expect(isAllowlisted(['ads.com'], request('https://cdn.ads.com/a.js'))).toBe(true);
+    expect(isAllowlisted(['x.com'], request('https://ads.com/a.js'))).toBe(true);
+    expect(isAllowlisted(['y.com'], request('https://ads.com/a.js'))).toBe(false);
+    expect(isAllowlisted([], request('https://ads.com/a.js'))).toBe(false);
+  });
+});
+
+describe('toFilterResourceType', () => {
+  it('Electron の resourceType を変換し、ページ本体はブロックの対象外にする', () => {
+    expect(toFilterResourceType('xhr')).toBe('xmlhttprequest');
+    expect(toFilterResourceType('subFrame')).toBe('subdocument');
+    expect(toFilterResourceType('mainFrame')).toBeNull();
+  });
+});
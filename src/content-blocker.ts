@@ -0,0 +1,418 @@
+/**
+ * Adblock 形式のフィルターリストによるリクエストのブロック
+ * フィルターリストの読み込み（ファイル）と webRequest への登録はメインプロセスで行い、ここでは解析と判定のみを扱う
+ *
+ * 対応するのはネットワークフィルターの基本的な構文（||、|、^、*、@@）と
+ * $third-party / $domain= / リソースの種類のオプションのみ。
+ * 要素の非表示（##）・正規表現のフィルターと、未対応のオプションを含む行は無視する
+ */
+
+/**
+ * フィルターのオプションで指定できるリソースの種類
+ */
+export type FilterResourceType =
+  | 'script'
+  | 'image'
+  | 'stylesheet'
+  | 'xmlhttprequest'
+  | 'subdocument'
+  | 'media'
+  | 'font'
+  | 'websocket'
+  | 'ping'
+  | 'object'
+  | 'other';
+
+/**
+ * ネットワークフィルター（フィルターリストの 1 行）
+ */
+export interface NetworkFilter {
+  pattern: RegExp;
+  // URL に含まれるはずの文字列（正規表現で判定する前の絞り込みに使う）
+  keyword: string;
+  // ||example.com^ の形式の場合のドメイン（索引に使う）
+  hostname: string | null;
+  // URL の英数字の区切り（トークン）として必ず含まれる文字列（ドメインのないフィルターの索引に使う）
+  token: string | null;
+  isException: boolean;
+  // true: サードパーティのみ、false: ファーストパーティのみ、null: 指定なし
+  thirdParty: boolean | null;
+  // null の場合はすべての種類
+  resourceTypes: FilterResourceType[] | null;
+  excludedResourceTypes: FilterResourceType[];
+  includeDomains: string[];
+  excludeDomains: string[];
+}
+
+/**
+ * 判定するリクエスト
+ */
+export interface FilterRequest {
+  url: string;
+  resourceType: FilterResourceType;
+  // リクエスト元のページの URL（不明な場合は空文字）
+  pageUrl: string;
+}
+
+/**
+ * ドメイン・トークンで索引を付けたフィルター
+ * generic はどちらの索引も付けられず、すべてのリクエストで判定するフィルター
+ */
+interface FilterIndex {
+  byHostname: Map<string, NetworkFilter[]>;
+  byToken: Map<string, NetworkFilter[]>;
+  generic: NetworkFilter[];
+}
+
+/**
+ * リクエストの判定に使うフィルターの集合
+ */
+export interface FilterEngine {
+  blocking: FilterIndex;
+  exceptions: FilterIndex;
+  size: number;
+}
+
+// オプション名とリソースの種類の対応
+const RESOURCE_TYPE_OPTIONS: Record<string, FilterResourceType> = {
+  script: 'script',
+  image: 'image',
+  stylesheet: 'stylesheet',
+  css: 'stylesheet',
+  xmlhttprequest: 'xmlhttprequest',
+  xhr: 'xmlhttprequest',
+  subdocument: 'subdocument',
+  frame: 'subdocument',
+  media: 'media',
+  font: 'font',
+  websocket: 'websocket',
+  ping: 'ping',
+  object: 'object',
+  other: 'other',
+};
+
+// Electron の webRequest の resourceType との対応（mainFrame はブロックしない）
+const ELECTRON_RESOURCE_TYPES: Record<string, FilterResourceType> = {
+  subFrame: 'subdocument',
+  stylesheet: 'stylesheet',
+  script: 'script',
+  image: 'image',
+  font: 'font',
+  object: 'object',
+  xhr: 'xmlhttprequest',
+  ping: 'ping',
+  cspReport: 'other',
+  media: 'media',
+  webSocket: 'websocket',
+  other: 'other',
+};
+
+/**
+ * Electron の resourceType をフィルターのリソースの種類に変換する
+ * @param resourceType webRequest の resourceType
+ * @returns リソースの種類（ページ本体など、ブロックしないリクエストの場合は null）
+ */
+export function toFilterResourceType(resourceType: string): FilterResourceType | null {
+  return ELECTRON_RESOURCE_TYPES[resourceType] ?? null;
+}
+
+// ほとんどの URL に含まれ、索引にしても絞り込めないトークン
+const COMMON_TOKENS = new Set(['http', 'https', 'www', 'com']);
+
+/**
+ * URL を英数字の区切り（トークン）に分割する
+ */
+function tokenize(url: string): string[] {
+  return url.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+}
+
+/**
+ * フィルターのパターンから索引に使うトークンを選ぶ
+ * 前後が区切り文字（* 以外の記号、または | で固定された先頭・末尾）のものだけが
+ * 一致する URL のトークンとして必ず現れるため、その中で最も長いものを使う
+ */
+function getFilterToken(pattern: string): string | null {
+  const startAnchored = pattern.startsWith('|');
+  const endAnchored = pattern.endsWith('|') && !pattern.endsWith('||');
+  const text = pattern.replace(/^\|+/, '').replace(/\|$/, '').toLowerCase();
+
+  let best: string | null = null;
+  for (const match of text.matchAll(/[a-z0-9]+/g)) {
+    const start = match.index;
+    const end = start + match[0].length;
+    const before = start === 0 ? (startAnchored ? '|' : '') : text[start - 1];
+    const after = end === text.length ? (endAnchored ? '|' : '') : text[end];
+    if (!before || !after || before === '*' || after === '*') continue;
+    if (COMMON_TOKENS.has(match[0])) continue;
+    if (!best || match[0].length > best.length) best = match[0];
+  }
+  return best;
+}
+
+/**
+ * フィルターのパターンを正規表現に変換する
+ */
+function compilePattern(pattern: string): RegExp {
+  let source = pattern;
+  let prefix = '';
+  let suffix = '';
+  if (source.startsWith('||')) {
+    prefix = '^[a-z][a-z0-9+.-]*://(?:[^/?#]*\\.)?';
+    source = source.slice(2);
+  } else if (source.startsWith('|')) {
+    prefix = '^';
+    source = source.slice(1);
+  }
+  if (source.endsWith('|')) {
+    suffix = '$';
+    source = source.slice(0, -1);
+  }
+
+  const body = Array.from(source)
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '^') return '(?:[^\\w.%-]|$)';
+      return char.replace(/[.+?${}()|[\]\\/]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`${prefix}${body}${suffix}`, 'i');
+}
+
+/**
+ * フィルターリストの 1 行を解析する
+ * @param line フィルターリストの行
+ * @returns ネットワークフィルター（コメント・要素の非表示・未対応の構文の場合は null）
+ */
+export function parseFilter(line: string): NetworkFilter | null {
+  let text = line.trim();
+  if (!text || text.startsWith('!') || text.startsWith('[')) return null;
+  // 要素の非表示・スクリプトレットなど（##、#@#、#?#、#$#）
+  if (/#[@?$%]?#/.test(text)) return null;
+
+  const isException = text.startsWith('@@');
+  if (isException) text = text.slice(2);
+
+  let options: string[] = [];
+  const dollar = text.lastIndexOf('$');
+  if (dollar >= 0) {
+    options = text.slice(dollar + 1).split(',');
+    text = text.slice(0, dollar);
+  }
+  // 正規表現のフィルター
+  if (text.length > 1 && text.startsWith('/') && text.endsWith('/')) return null;
+
+  let thirdParty: boolean | null = null;
+  const resourceTypes: FilterResourceType[] = [];
+  const excludedResourceTypes: FilterResourceType[] = [];
+  const includeDomains: string[] = [];
+  const excludeDomains: string[] = [];
+  for (const option of options) {
+    const negated = option.startsWith('~');
+    const name = (negated ? option.slice(1) : option).trim().toLowerCase();
+    if (name === 'third-party' || name === '3p') {
+      thirdParty = !negated;
+    } else if (name === 'first-party' || name === '1p') {
+      thirdParty = negated;
+    } else if (name.startsWith('domain=')) {
+      name
+        .slice('domain='.length)
+        .split('|')
+        .forEach((domain) => {
+          if (domain.startsWith('~')) {
+            excludeDomains.push(domain.slice(1));
+          } else if (domain) {
+            includeDomains.push(domain);
+          }
+        });
+    } else if (name in RESOURCE_TYPE_OPTIONS) {
+      (negated ? excludedResourceTypes : resourceTypes).push(RESOURCE_TYPE_OPTIONS[name]);
+    } else if (name !== 'match-case') {
+      // 意味を変えるオプションを無視するとブロックしすぎるため、行ごと使わない
+      return null;
+    }
+  }
+
+  // 区切られていないホスト名は前方一致のため、ドメインの索引には入れない
+  const hostMatch = /^\|\|([a-z0-9.-]+)(?:\^|\/)/i.exec(text);
+  const keyword = text
+    .replace(/^\|+|\|$/g, '')
+    .split(/[*^]/)
+    .reduce((longest, part) => (part.length > longest.length ? part : longest), '')
+    .toLowerCase();
+
+  return {
+    pattern: compilePattern(text),
+    keyword,
+    hostname: hostMatch ? hostMatch[1].toLowerCase() : null,
+    token: getFilterToken(text),
+    isException,
+    thirdParty,
+    resourceTypes: resourceTypes.length > 0 ? resourceTypes : null,
+    excludedResourceTypes,
+    includeDomains,
+    excludeDomains,
+  };
+}
+
+/**
+ * フィルターリストを解析する
+ * @param text フィルターリストの内容
+ * @returns ネットワークフィルターの一覧（使えない行は除く）
+ */
+export function parseFilterList(text: string): NetworkFilter[] {
+  return text
+    .split(/\r?\n/)
+    .map(parseFilter)
+    .filter((filter): filter is NetworkFilter => filter !== null);
+}
+
+/**
+ * フィルターに索引を付ける
+ */
+function createFilterIndex(filters: NetworkFilter[]): FilterIndex {
+  const byHostname = new Map<string, NetworkFilter[]>();
+  const byToken = new Map<string, NetworkFilter[]>();
+  const generic: NetworkFilter[] = [];
+  const add = (index: Map<string, NetworkFilter[]>, key: string, filter: NetworkFilter) => {
+    const bucket = index.get(key);
+    if (bucket) {
+      bucket.push(filter);
+    } else {
+      index.set(key, [filter]);
+    }
+  };
+  filters.forEach((filter) => {
+    if (filter.hostname) {
+      add(byHostname, filter.hostname, filter);
+    } else if (filter.token) {
+      add(byToken, filter.token, filter);
+    } else {
+      generic.push(filter);
+    }
+  });
+  return { byHostname, byToken, generic };
+}
+
+/**
+ * リクエストの判定に使うフィルターの集合を作成する
+ * @param filters ネットワークフィルターの一覧
+ * @returns フィルターの集合
+ */
+export function createFilterEngine(filters: NetworkFilter[]): FilterEngine {
+  return {
+    blocking: createFilterIndex(filters.filter((filter) => !filter.isException)),
+    exceptions: createFilterIndex(filters.filter((filter) => filter.isException)),
+    size: filters.length,
+  };
+}
+
+/**
+ * URL のホスト名を取得
+ */
+function getHostname(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * ホストがドメイン（またはそのサブドメイン）に含まれるかどうかを判定
+ * @param host ホスト名
+ * @param domain ドメイン
+ * @returns 含まれる場合 true
+ */
+export function isHostInDomain(host: string, domain: string): boolean {
+  const d = domain.toLowerCase();
+  return host === d || host.endsWith(`.${d}`);
+}
+
+/**
+ * サードパーティの判定に使うドメインを取得
+ * Public Suffix List は使わず、末尾の 2 ラベルで近似する（IP アドレスはそのまま）
+ */
+function getSiteDomain(host: string): string {
+  if (/^[\d.]+$/.test(host) || host.includes(':')) return host;
+  return host.split('.').slice(-2).join('.');
+}
+
+/**
+ * フィルターのオプションと URL がリクエストに一致するかどうかを判定
+ */
+function filterMatches(
+  filter: NetworkFilter,
+  request: FilterRequest,
+  url: string,
+  host: string,
+  pageHost: string
+): boolean {
+  if (filter.resourceTypes && !filter.resourceTypes.includes(request.resourceType)) return false;
+  if (filter.excludedResourceTypes.includes(request.resourceType)) return false;
+  if (filter.thirdParty !== null) {
+    const isThirdParty = pageHost !== '' && getSiteDomain(host) !== getSiteDomain(pageHost);
+    if (filter.thirdParty !== isThirdParty) return false;
+  }
+  if (
+    filter.includeDomains.length > 0 &&
+    !filter.includeDomains.some((domain) => isHostInDomain(pageHost, domain))
+  ) {
+    return false;
+  }
+  if (filter.excludeDomains.some((domain) => isHostInDomain(pageHost, domain))) return false;
+  return url.includes(filter.keyword) && filter.pattern.test(request.url);
+}
+
+/**
+ * 索引からリクエストに一致するフィルターがあるかどうかを判定
+ */
+function hasMatchingFilter(
+  index: FilterIndex,
+  request: FilterRequest,
+  host: string,
+  pageHost: string
+): boolean {
+  const url = request.url.toLowerCase();
+  const matches = (filter: NetworkFilter) => filterMatches(filter, request, url, host, pageHost);
+  const labels = host.split('.');
+  for (let i = 0; i < labels.length; i++) {
+    if (index.byHostname.get(labels.slice(i).join('.'))?.some(matches)) return true;
+  }
+  for (const token of new Set(tokenize(url))) {
+    if (index.byToken.get(token)?.some(matches)) return true;
+  }
+  return index.generic.some(matches);
+}
+
+/**
+ * リクエストをブロックするかどうかを判定
+ * 例外フィルター（@@）に一致する場合はブロックしない
+ * @param engine フィルターの集合
+ * @param request 判定するリクエスト
+ * @returns ブロックする場合 true
+ */
+export function shouldBlockRequest(engine: FilterEngine, request: FilterRequest): boolean {
+  const host = getHostname(request.url);
+  if (!host) return false;
+  const pageHost = getHostname(request.pageUrl);
+  return (
+    hasMatchingFilter(engine.blocking, request, host, pageHost) &&
+    !hasMatchingFilter(engine.exceptions, request, host, pageHost)
+  );
+}
+
+/**
+ * 許可リストに含まれるリクエストかどうかを判定
+ * リクエスト先と表示中のページのどちらかが許可リストのドメインであれば許可する
+ * @param allowlist 許可するドメインの一覧
+ * @param request 判定するリクエスト
+ * @returns 許可する場合 true
+ */
+export function isAllowlisted(allowlist: string[], request: FilterRequest): boolean {
+  const host = getHostname(request.url);
+  const pageHost = getHostname(request.pageUrl);
+  return allowlist.some(
+    (domain) =>
+      isHostInDomain(host, domain) || (pageHost !== '' && isHostInDomain(pageHost, domain))
+  );
+}
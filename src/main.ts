@@ -5,24 +5,285 @@
  * これは Electron が Electron プロセス内でのみ API を提供するため。
  * Node.js 単体で require('electron') すると実行可能パスが返される。
  */
-import type { App, BrowserWindow as BrowserWindowType, WebContents } from 'electron';
+import type {
+  App,
+  BrowserWindow as BrowserWindowType,
+  HandlerDetails,
+  Menu as MenuType,
+  MenuItemConstructorOptions,
+  NativeImage,
+  Tray as TrayType,
+  WebContents,
+  WindowOpenHandlerResponse,
+} from 'electron';
+import fs from 'fs';
 import path from 'path';
+import {
+  CONFIG_SCHEMA_VERSION,
+  STORAGE_KEY_SCHEMA_VERSION,
+  migrateConfig,
+} from './config-migration';
+import { createConfigExport, validateConfigImport } from './config-transfer';
+import {
+  createFilterEngine,
+  isAllowlisted,
+  parseFilterList,
+  shouldBlockRequest,
+  toFilterResourceType,
+  type FilterEngine,
+  type NetworkFilter,
+} from './content-blocker';
+import {
+  AUTO_GRANTED_PERMISSIONS,
+  DEFAULT_CONTENT_BLOCKING_SETTINGS,
+  DEFAULT_SERVICES,
+  PROMPTED_PERMISSIONS,
+  SHORTCUT_COMMANDS,
+  STORAGE_KEY_CONTENT_BLOCKING,
+  STORAGE_KEY_LAYOUT,
+  STORAGE_KEY_LAYOUT_PRESETS,
+  STORAGE_KEY_PERMISSIONS,
+  STORAGE_KEY_PINNED,
+  STORAGE_KEY_SERVICES,
+  STORAGE_KEY_SHORTCUTS,
+  formatUnreadCount,
+  getOpenInPanelItems,
+  getPermissionOrigin,
+  isPermissionGranted,
+  isValidContentBlockingSettings,
+  isValidLayoutConfig,
+  isValidLayoutPresetStore,
+  isValidPermissionDecisions,
+  isValidServiceList,
+  isValidServiceUrl,
+  removePermissionDecision,
+  resolveLinkAction,
+  resolveShortcutBindings,
+  setPermissionDecision,
+  type ContentBlockingSettings,
+  type PermissionDecisions,
+  type ServiceDefinition,
+  type ShortcutCommand,
+  type WindowState,
+} from './renderer/utils';
 
 // ランタイムで Electron モジュールを取得
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const electron = require('electron') as typeof import('electron');
 const app: App = electron.app;
 const BrowserWindow: typeof BrowserWindowType = electron.BrowserWindow;
-const { session, ipcMain } = electron;
+const { session, ipcMain, Menu, dialog, Tray, nativeImage, shell } = electron;
 
 // electron-store で設定を永続化
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const Store = require('electron-store');
 const store = new Store();
 
+/**
+ * 保存された設定を現在のスキーマバージョンに変換する
+ * 変換前のファイルはバックアップとして同じディレクトリに残す
+ */
+function migrateStore(): void {
+  const result = migrateConfig(store.store);
+
+  if (result.fromVersion > CONFIG_SCHEMA_VERSION) {
+    console.warn(
+      `Config schema v${result.fromVersion} is newer than supported v${CONFIG_SCHEMA_VERSION}`
+    );
+    return;
+  }
+
+  if (result.applied.length > 0 && fs.existsSync(store.path)) {
+    const backupPath = `${store.path}.v${result.fromVersion}-${Date.now()}.bak`;
+    try {
+      fs.copyFileSync(store.path, backupPath);
+    } catch (error) {
+      // バックアップできない場合は元の設定を壊さないよう変換しない
+      console.error('Failed to back up config before migration:', error);
+      return;
+    }
+    console.log(`Config backed up to ${backupPath}`);
+  }
+
+  for (const migration of result.applied) {
+    console.log(`Migrating config to v${migration.version}: ${migration.description}`);
+  }
+  // バージョンのない新規の設定にもバージョンを記録する
+  if (result.applied.length > 0 || store.get(STORAGE_KEY_SCHEMA_VERSION) !== result.toVersion) {
+    store.store = result.config;
+  }
+}
+
+migrateStore();
+
 // メインウィンドウの参照を保持
 let mainWindow: BrowserWindowType | null = null;
 
+// ウィンドウのタイトル
+const APP_TITLE = 'Multi SNS Viewer';
+
+// 全パネルの未読件数の合計
+let unreadCount = 0;
+
+// トレイアイコン
+let tray: TrayType | null = null;
+
+// すべてのパネルをミュート中（レンダラーから通知される）
+let isMutedAll = false;
+
+// 終了処理中（ウィンドウを閉じたときに隠すのではなく終了する）
+let isQuitting = false;
+
+/**
+ * 未読件数をウィンドウのタイトル、タスクバー・ドックのバッジ、トレイに反映する
+ */
+function updateUnreadIndicators(): void {
+  app.setBadgeCount(unreadCount);
+  mainWindow?.setTitle(
+    unreadCount > 0 ? `(${formatUnreadCount(unreadCount)}) ${APP_TITLE}` : APP_TITLE
+  );
+  updateTray();
+}
+
+/**
+ * トレイアイコンの画像を作成する
+ * 画像ファイルを持たないよう、グラデーションの円をビットマップで描画する
+ * 未読がある場合は右上に赤い点を付ける
+ */
+function createTrayIcon(hasUnread: boolean): NativeImage {
+  const size = 32;
+  const bitmap = Buffer.alloc(size * size * 4);
+  const from = [0x66, 0x7e, 0xea];
+  const to = [0x76, 0x4b, 0xa2];
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const distance = Math.hypot(x + 0.5 - size / 2, y + 0.5 - size / 2);
+      const dot = Math.hypot(x + 0.5 - 25, y + 0.5 - 7);
+      const t = (x + y) / (size * 2);
+      let color = from.map((value, i) => Math.round(value + (to[i] - value) * t));
+      // 縁をなめらかにするためのアルファ値
+      let alpha = Math.max(0, Math.min(1, size / 2 - 1 - distance + 0.5));
+      if (hasUnread && dot < 7) {
+        color = [0xff, 0x3b, 0x5c];
+        alpha = Math.max(0, Math.min(1, 7 - dot));
+      }
+      // BGRA（乗算済みアルファ）で書き込む
+      const offset = (y * size + x) * 4;
+      bitmap[offset] = Math.round(color[2] * alpha);
+      bitmap[offset + 1] = Math.round(color[1] * alpha);
+      bitmap[offset + 2] = Math.round(color[0] * alpha);
+      bitmap[offset + 3] = Math.round(255 * alpha);
+    }
+  }
+
+  return nativeImage.createFromBitmap(bitmap, { width: size, height: size, scaleFactor: 2 });
+}
+
+/**
+ * メインウィンドウを表示する（閉じられている場合は作り直す）
+ */
+function showMainWindow(): void {
+  if (!mainWindow) {
+    createWindow();
+    return;
+  }
+  if (mainWindow.isMinimized()) mainWindow.restore();
+  mainWindow.show();
+  mainWindow.focus();
+}
+
+/**
+ * メインウィンドウの表示・非表示を切り替える
+ */
+function toggleMainWindow(): void {
+  if (mainWindow?.isVisible() && !mainWindow.isMinimized()) {
+    mainWindow.hide();
+  } else {
+    showMainWindow();
+  }
+}
+
+/**
+ * トレイのメニューを作成する
+ * ピン止めとプリセットは設定ストアの値を表示する
+ */
+function buildTrayMenu(): MenuItemConstructorOptions[] {
+  const presetStore = store.get(STORAGE_KEY_LAYOUT_PRESETS);
+  const presets = isValidLayoutPresetStore(presetStore) ? presetStore.presets : [];
+
+  return [
+    {
+      label: unreadCount > 0 ? `未読 ${formatUnreadCount(unreadCount)} 件` : '未読はありません',
+      enabled: false,
+    },
+    { type: 'separator' },
+    {
+      label: mainWindow?.isVisible() ? 'ウィンドウを隠す' : 'ウィンドウを表示',
+      click: () => toggleMainWindow(),
+    },
+    {
+      label: 'すべてのパネルをミュート',
+      type: 'checkbox',
+      checked: isMutedAll,
+      click: () => sendCommand('mute-all'),
+    },
+    {
+      label: 'レイアウトを切り替え',
+      enabled: presets.length > 0,
+      submenu: presets.map((preset) => ({
+        label: preset.name,
+        click: () => mainWindow?.webContents.send('layout-preset:apply', preset.id),
+      })),
+    },
+    {
+      label: 'メインパネルをピン止め',
+      type: 'checkbox',
+      checked: store.get(STORAGE_KEY_PINNED) === true,
+      click: () => sendCommand('toggle-pin'),
+    },
+    { type: 'separator' },
+    { label: '終了', click: () => app.quit() },
+  ];
+}
+
+/**
+ * トレイのアイコン・ツールチップ・メニューを現在の状態に合わせて更新する
+ */
+function updateTray(): void {
+  if (!tray) return;
+
+  tray.setImage(createTrayIcon(unreadCount > 0));
+  tray.setToolTip(
+    unreadCount > 0 ? `${APP_TITLE}（未読 ${formatUnreadCount(unreadCount)} 件）` : APP_TITLE
+  );
+  if (process.platform === 'darwin') {
+    tray.setTitle(unreadCount > 0 ? formatUnreadCount(unreadCount) : '');
+  }
+  tray.setContextMenu(Menu.buildFromTemplate(buildTrayMenu()));
+}
+
+/**
+ * トレイアイコンを作成する
+ */
+function createTray(): void {
+  tray = new Tray(createTrayIcon(false));
+  // Windows / Linux ではクリックでウィンドウの表示を切り替える
+  tray.on('click', () => toggleMainWindow());
+  updateTray();
+}
+
+// ピン止め・プリセットが変更されたらトレイメニューを更新する
+store.onDidChange(STORAGE_KEY_PINNED, () => updateTray());
+store.onDidChange(STORAGE_KEY_LAYOUT_PRESETS, () => updateTray());
+
+/**
+ * メインウィンドウの状態をレンダラーに通知する（背面での再生の一時停止に使う）
+ */
+function sendWindowState(state: WindowState): void {
+  mainWindow?.webContents.send('window:state', state);
+}
+
 /**
  * メインウィンドウを作成する
  */
@@ -41,12 +302,180 @@ function createWindow(): void {
   // index.html をロード
   mainWindow.loadFile(path.join(__dirname, 'renderer', 'index.html'));
 
+  // タイトルは未読件数に合わせてメインプロセスで管理する
+  mainWindow.on('page-title-updated', (event) => {
+    event.preventDefault();
+    updateUnreadIndicators();
+  });
+
+  // 閉じてもトレイに常駐する（終了はトレイまたはメニューから）
+  mainWindow.on('close', (event) => {
+    if (!isQuitting && tray) {
+      event.preventDefault();
+      mainWindow?.hide();
+    }
+  });
+
+  // 表示状態をトレイメニューに反映
+  mainWindow.on('show', () => updateTray());
+  mainWindow.on('hide', () => updateTray());
+
+  // フォーカス・最小化の状態をレンダラーに通知（トレイへの格納は最小化として扱う）
+  mainWindow.on('focus', () => sendWindowState('focused'));
+  mainWindow.on('blur', () => sendWindowState(mainWindow?.isMinimized() ? 'minimized' : 'blurred'));
+  mainWindow.on('minimize', () => sendWindowState('minimized'));
+  mainWindow.on('hide', () => sendWindowState('minimized'));
+  mainWindow.on('restore', () => sendWindowState(mainWindow?.isFocused() ? 'focused' : 'blurred'));
+
   // ウィンドウが閉じられたときの処理
   mainWindow.on('closed', () => {
     mainWindow = null;
   });
 }
 
+/**
+ * 設定をファイルにエクスポートする
+ */
+async function exportConfig(): Promise<void> {
+  if (!mainWindow) return;
+
+  const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+    title: '設定をエクスポート',
+    defaultPath: path.join(app.getPath('documents'), 'multi-sns-viewer-config.json'),
+    filters: [{ name: 'JSON', extensions: ['json'] }],
+  });
+  if (canceled || !filePath) return;
+
+  try {
+    const data = createConfigExport(store.store);
+    await fs.promises.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
+  } catch (error) {
+    console.error('Failed to export config:', error);
+    dialog.showErrorBox('エクスポートに失敗しました', String(error));
+  }
+}
+
+/**
+ * ファイルから設定をインポートする
+ * 検証に通った設定だけを保存し、取り込めなかった設定は一覧で通知する
+ */
+async function importConfig(): Promise<void> {
+  if (!mainWindow) return;
+
+  const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow, {
+    title: '設定をインポート',
+    properties: ['openFile'],
+    filters: [{ name: 'JSON', extensions: ['json'] }],
+  });
+  if (canceled || filePaths.length === 0) return;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.promises.readFile(filePaths[0], 'utf-8'));
+  } catch (error) {
+    console.error('Failed to read config file:', error);
+    dialog.showErrorBox('インポートに失敗しました', String(error));
+    return;
+  }
+
+  const { accepted, rejected } = validateConfigImport(data);
+  const keys = Object.keys(accepted);
+  if (keys.length > 0) {
+    store.set(accepted);
+  }
+
+  const details = [
+    keys.length > 0 ? `取り込んだ設定: ${keys.join(', ')}` : '取り込める設定がありませんでした',
+    ...rejected.map(({ key, reason }) => `× ${key}: ${reason}`),
+  ];
+  await dialog.showMessageBox(mainWindow, {
+    type: rejected.length > 0 ? 'warning' : 'info',
+    message: rejected.length > 0 ? '一部の設定を取り込めませんでした' : '設定をインポートしました',
+    detail: details.join('\n'),
+  });
+
+  // 取り込んだ設定で画面を作り直す
+  if (keys.length > 0) {
+    mainWindow?.webContents.reload();
+  }
+}
+
+/**
+ * レンダラーにコマンドを送る（メニュー・ショートカットから実行）
+ */
+function sendCommand(command: ShortcutCommand): void {
+  mainWindow?.webContents.send('app:command', command);
+}
+
+/**
+ * アプリケーションメニューを作成する
+ * アクセラレーターは設定ストアのショートカットを使う
+ */
+function buildApplicationMenu(): void {
+  const bindings = resolveShortcutBindings(store.get(STORAGE_KEY_SHORTCUTS));
+  const item = (command: ShortcutCommand): MenuItemConstructorOptions => ({
+    label: SHORTCUT_COMMANDS.find((entry) => entry.command === command)?.label ?? command,
+    accelerator: bindings[command] || undefined,
+    click: () => sendCommand(command),
+  });
+  const promoteCommands = SHORTCUT_COMMANDS.filter((entry) =>
+    entry.command.startsWith('promote-')
+  ).map((entry) => item(entry.command));
+
+  const template: MenuItemConstructorOptions[] = [
+    ...(process.platform === 'darwin' ? [{ role: 'appMenu' } as MenuItemConstructorOptions] : []),
+    {
+      label: 'ファイル',
+      submenu: [
+        { label: '設定をエクスポート…', click: () => exportConfig() },
+        { label: '設定をインポート…', click: () => importConfig() },
+        ...(process.platform === 'darwin'
+          ? []
+          : ([{ type: 'separator' }, { role: 'quit' }] as MenuItemConstructorOptions[])),
+      ],
+    },
+    { role: 'editMenu' },
+    {
+      label: 'パネル',
+      submenu: [
+        ...promoteCommands,
+        { type: 'separator' },
+        item('cycle-next'),
+        item('cycle-previous'),
+        { type: 'separator' },
+        item('toggle-pin'),
+        item('reload-panel'),
+      ],
+    },
+    {
+      label: '表示',
+      submenu: [
+        item('zoom-in'),
+        item('zoom-out'),
+        item('zoom-reset'),
+        { type: 'separator' },
+        item('volume-up'),
+        item('volume-down'),
+        item('volume-mute'),
+        item('mute-all'),
+        { type: 'separator' },
+        item('open-settings'),
+        { type: 'separator' },
+        { role: 'togglefullscreen' },
+        { role: 'toggleDevTools' },
+      ],
+    },
+    { role: 'windowMenu' },
+  ];
+
+  Menu.setApplicationMenu(Menu.buildFromTemplate(template));
+}
+
+// ショートカットが変更されたらメニューを作り直す
+store.onDidChange(STORAGE_KEY_SHORTCUTS, () => {
+  buildApplicationMenu();
+});
+
 // IPC ハンドラー: 設定の読み書き
 ipcMain.handle('config:get', (_event, key: string) => {
   return store.get(key);
@@ -56,48 +485,519 @@ ipcMain.handle('config:set', (_event, key: string, value: unknown) => {
   store.set(key, value);
 });
 
-// Electron の初期化完了後にウィンドウを作成
-app.whenReady().then(() => {
-  // webview 用のセッション設定
+// IPC ハンドラー: 未読件数の合計
+ipcMain.on('unread:set', (_event, count: unknown) => {
+  if (typeof count !== 'number' || !Number.isInteger(count) || count < 0) return;
+  unreadCount = count;
+  updateUnreadIndicators();
+});
+
+// IPC ハンドラー: すべてミュートの状態（トレイメニューに表示）
+ipcMain.on('audio:muted-all', (_event, muted: unknown) => {
+  isMutedAll = muted === true;
+  updateTray();
+});
+
+// IPC ハンドラー: 設定のエクスポート・インポート（設定パネルから実行）
+ipcMain.handle('config:export', () => exportConfig());
+ipcMain.handle('config:import', () => importConfig());
+
+// ===== パネルの webview =====
+
+// サービスの一覧（リクエスト・リンクのたびにストアを読まないよう保持する）
+let serviceList: ServiceDefinition[] = DEFAULT_SERVICES;
+
+// webview の webContents ID とサービス ID の対応
+const panelServices = new Map<number, string>();
+
+/**
+ * 設定ストアからサービスの一覧を読み込み直す
+ */
+function loadServiceList(): void {
+  const services = store.get(STORAGE_KEY_SERVICES);
+  serviceList = isValidServiceList(services) ? services : DEFAULT_SERVICES;
+}
+
+/**
+ * webContents を表示しているパネルのサービスを取得
+ */
+function getPanelService(webContentsId: number | undefined): ServiceDefinition | undefined {
+  const serviceId = webContentsId !== undefined ? panelServices.get(webContentsId) : undefined;
+  return serviceId ? serviceList.find((service) => service.id === serviceId) : undefined;
+}
+
+loadServiceList();
+store.onDidChange(STORAGE_KEY_SERVICES, () => loadServiceList());
+
+// IPC ハンドラー: webview とサービスの対応（ブロック件数・リンクの開き方に使う）
+ipcMain.on('panel:register', (event, webContentsId: unknown, serviceId: unknown) => {
+  if (typeof webContentsId !== 'number' || typeof serviceId !== 'string') return;
+  const contents = electron.webContents.fromId(webContentsId);
+  // 自分のウィンドウの webview 以外は登録しない
+  if (!contents || contents.hostWebContents !== event.sender) return;
+
+  if (!panelServices.has(webContentsId)) {
+    contents.once('destroyed', () => panelServices.delete(webContentsId));
+  }
+  panelServices.set(webContentsId, serviceId);
+});
+
+// ===== リンクの開き方 =====
+
+// 子ウィンドウの大きさ（認証のポップアップなど）
+const CHILD_WINDOW_WIDTH = 520;
+const CHILD_WINDOW_HEIGHT = 720;
+
+/**
+ * webview で新しいウィンドウが開かれるときの処理
+ * サービスのリンクの開き方に従って、ブラウザ・子ウィンドウ・パネルのどれで開くかを決める
+ */
+function handleWindowOpen(
+  contents: WebContents,
+  details: HandlerDetails
+): WindowOpenHandlerResponse {
+  const service = getPanelService(contents.id);
+  const action = resolveLinkAction(
+    details.url,
+    contents.getURL(),
+    service?.id ?? '',
+    serviceList,
+    details.disposition === 'new-window'
+  );
+
+  switch (action.type) {
+    case 'browser':
+      shell.openExternal(details.url).catch((error) => {
+        console.error('Failed to open external link:', error);
+      });
+      break;
+    case 'window':
+      return {
+        action: 'allow',
+        overrideBrowserWindowOptions: {
+          width: CHILD_WINDOW_WIDTH,
+          height: CHILD_WINDOW_HEIGHT,
+          autoHideMenuBar: true,
+          ...(mainWindow ? { parent: mainWindow } : {}),
+        },
+      };
+    case 'panel':
+      contents.loadURL(details.url).catch(() => {
+        // 失敗した場合はパネルの did-fail-load で表示する
+      });
+      break;
+    case 'route':
+      // パネルの休止・読み込み待ちはレンダラーで扱う
+      mainWindow?.webContents.send('link:open-in-panel', action.serviceId, details.url, false);
+      break;
+  }
+  return { action: 'deny' };
+}
+
+// ===== 他のパネルで開く =====
+
+/**
+ * リンク・表示中のページを他のパネルで開くメニューを作成する
+ * 開いたパネルはメインパネルにする（入れ替えはレンダラーで行う）
+ * @param contents メニューを開いたパネルの webContents
+ * @param url 開く URL
+ * @param isLink リンクの場合 true（表示中のページの場合 false）
+ */
+function buildOpenInPanelMenu(contents: WebContents, url: string, isLink: boolean): MenuType {
+  const layout = store.get(STORAGE_KEY_LAYOUT);
+  const items = getOpenInPanelItems(
+    serviceList,
+    getPanelService(contents.id)?.id,
+    isValidLayoutConfig(layout) ? layout.slots[0] : undefined,
+    isLink
+  );
+
+  const template: MenuItemConstructorOptions[] = items.map(({ serviceId, label }) => ({
+    label,
+    click: () => mainWindow?.webContents.send('link:open-in-panel', serviceId, url, true),
+  }));
+  // メインパネルの項目と各サービスの項目を分ける
+  if (items[0]?.serviceId === null && items.length > 1) {
+    template.splice(1, 0, { type: 'separator' });
+  }
+  return Menu.buildFromTemplate(template);
+}
+
+/**
+ * 他のパネルで開くメニューを表示する
+ */
+function popupOpenInPanelMenu(contents: WebContents, url: string, isLink: boolean): void {
+  if (!mainWindow || !isValidServiceUrl(url)) return;
+  const menu = buildOpenInPanelMenu(contents, url, isLink);
+  // 開けるパネルがない（サービスが 1 つだけ）場合は表示しない
+  if (menu.items.length > 0) menu.popup({ window: mainWindow });
+}
+
+// IPC ハンドラー: パネルヘッダーのボタンから表示中のページを他のパネルで開く
+ipcMain.on('panel:open-in-menu', (event, webContentsId: unknown) => {
+  if (typeof webContentsId !== 'number') return;
+  const contents = electron.webContents.fromId(webContentsId);
+  if (!contents || contents.hostWebContents !== event.sender) return;
+  popupOpenInPanelMenu(contents, contents.getURL(), false);
+});
+
+// ===== コンテンツブロック =====
+
+/**
+ * 読み込んだフィルターリストの状態（設定パネルに表示）
+ */
+interface FilterListStatus {
+  path: string;
+  rules: number;
+  error: string | null;
+}
+
+// ブロック件数をレンダラーに送る間隔（ミリ秒）
+const BLOCKED_COUNT_FLUSH_INTERVAL = 1000;
+
+// コンテンツブロックの設定（webRequest のたびにストアを読まないよう保持する）
+let contentBlocking: ContentBlockingSettings = DEFAULT_CONTENT_BLOCKING_SETTINGS;
+let filterEngine: FilterEngine = createFilterEngine([]);
+let filterListStatus: FilterListStatus[] = [];
+let filterListsLoading: Promise<void> = Promise.resolve();
+
+// まだレンダラーに送っていないサービスごとのブロック件数
+let pendingBlockedCounts: Record<string, number> = {};
+let blockedCountTimer: NodeJS.Timeout | null = null;
+
+/**
+ * 設定されたフィルターリストを読み込み直す
+ * 読み込めないファイルは状態にエラーを記録して読み飛ばす
+ */
+async function loadFilterLists(): Promise<void> {
+  const value = store.get(STORAGE_KEY_CONTENT_BLOCKING);
+  const settings = isValidContentBlockingSettings(value)
+    ? value
+    : DEFAULT_CONTENT_BLOCKING_SETTINGS;
+
+  const filters: NetworkFilter[] = [];
+  const status: FilterListStatus[] = [];
+  for (const filePath of settings.filterLists) {
+    try {
+      const parsed = parseFilterList(await fs.promises.readFile(filePath, 'utf-8'));
+      filters.push(...parsed);
+      status.push({ path: filePath, rules: parsed.length, error: null });
+    } catch (error) {
+      console.error('Failed to load filter list:', error);
+      status.push({ path: filePath, rules: 0, error: String(error) });
+    }
+  }
+
+  contentBlocking = settings;
+  filterEngine = createFilterEngine(filters);
+  filterListStatus = status;
+}
+
+/**
+ * ブロックした件数を記録し、まとめてレンダラーに送る
+ * @param serviceId ブロックしたリクエストのサービス ID
+ */
+function countBlockedRequest(serviceId: string): void {
+  pendingBlockedCounts[serviceId] = (pendingBlockedCounts[serviceId] ?? 0) + 1;
+  if (blockedCountTimer) return;
+
+  blockedCountTimer = setTimeout(() => {
+    blockedCountTimer = null;
+    mainWindow?.webContents.send('content-blocker:blocked', pendingBlockedCounts);
+    pendingBlockedCounts = {};
+  }, BLOCKED_COUNT_FLUSH_INTERVAL);
+}
+
+filterListsLoading = loadFilterLists();
+
+// 設定が変更されたらフィルターリストを読み込み直す
+store.onDidChange(STORAGE_KEY_CONTENT_BLOCKING, () => {
+  filterListsLoading = loadFilterLists();
+});
+
+// IPC ハンドラー: フィルターリストのファイルを選択する
+ipcMain.handle('content-blocker:choose-lists', async () => {
+  if (!mainWindow) return [];
+  const { canceled, filePaths } = await dialog.showOpenDialog(mainWindow, {
+    title: 'フィルターリストを追加',
+    properties: ['openFile', 'multiSelections'],
+    filters: [{ name: 'フィルターリスト', extensions: ['txt'] }],
+  });
+  return canceled ? [] : filePaths;
+});
+
+// IPC ハンドラー: フィルターリストの読み込み状態
+ipcMain.handle('content-blocker:status', async () => {
+  await filterListsLoading;
+  return filterListStatus;
+});
+
+// ===== 権限の確認 =====
+
+/**
+ * 権限の要求の回答を待っている webContents
+ */
+interface PermissionWaiter {
+  webContents: WebContents;
+  callback: (permissionGranted: boolean) => void;
+}
+
+/**
+ * レンダラーで回答を待っている権限の要求
+ * 同じオリジン・権限の要求が重なった場合は 1 回の確認にまとめる
+ * 確認バーは waiters の先頭の webContents のパネルに表示する
+ */
+interface PendingPermissionRequest {
+  origin: string;
+  permission: string;
+  waiters: PermissionWaiter[];
+}
+
+const pendingPermissionRequests = new Map<number, PendingPermissionRequest>();
+let nextPermissionRequestId = 1;
+
+// 保存された権限の回答（権限の確認のたびにストアを読まないよう保持する）
+let permissionDecisions: PermissionDecisions = {};
+
+/**
+ * 設定ストアから権限の回答を読み込み直す
+ */
+function loadPermissionDecisions(): void {
+  const decisions = store.get(STORAGE_KEY_PERMISSIONS);
+  permissionDecisions = isValidPermissionDecisions(decisions) ? decisions : {};
+}
+
+/**
+ * 保存された権限の回答を取得
+ */
+function getPermissionDecisions(): PermissionDecisions {
+  return permissionDecisions;
+}
+
+loadPermissionDecisions();
+// 設定パネルで取り消された・インポートされた回答を反映する
+store.onDidChange(STORAGE_KEY_PERMISSIONS, () => loadPermissionDecisions());
+
+/**
+ * 権限の要求に回答する
+ * @param id 要求の ID
+ * @param granted 許可する場合 true
+ */
+function resolvePermissionRequest(id: number, granted: boolean): void {
+  const request = pendingPermissionRequests.get(id);
+  if (!request) return;
+  pendingPermissionRequests.delete(id);
+  request.waiters.forEach(({ callback }) => callback(granted));
+}
+
+/**
+ * 確認バーを表示するようレンダラーに送る
+ */
+function sendPermissionRequest(id: number, request: PendingPermissionRequest): void {
+  mainWindow?.webContents.send('permission:request', {
+    id,
+    origin: request.origin,
+    permission: request.permission,
+    webContentsId: request.waiters[0].webContents.id,
+  });
+}
+
+/**
+ * 回答を待っている webContents が破棄されたときの処理
+ * その webContents の要求だけを拒否し、他に待っているパネルがなければ確認を取り下げる
+ * （次回の要求時に改めて確認する）
+ */
+function removePermissionWaiter(id: number, webContents: WebContents): void {
+  const request = pendingPermissionRequests.get(id);
+  if (!request) return;
+
+  const wasPrompted = request.waiters[0].webContents === webContents;
+  request.waiters
+    .filter((waiter) => waiter.webContents === webContents)
+    .forEach(({ callback }) => callback(false));
+  request.waiters = request.waiters.filter((waiter) => waiter.webContents !== webContents);
+
+  if (request.waiters.length === 0) {
+    pendingPermissionRequests.delete(id);
+    mainWindow?.webContents.send('permission:cancel', id);
+  } else if (wasPrompted) {
+    // 確認バーを残っているパネルに移す
+    mainWindow?.webContents.send('permission:cancel', id);
+    sendPermissionRequest(id, request);
+  }
+}
+
+/**
+ * webview からの権限の要求を処理する
+ * 確認する権限は、回答が保存されていなければレンダラーでユーザーに確認する
+ */
+function handlePermissionRequest(
+  webContents: WebContents,
+  permission: string,
+  callback: (permissionGranted: boolean) => void,
+  requestingUrl: string
+): void {
+  if (AUTO_GRANTED_PERMISSIONS.includes(permission)) {
+    callback(true);
+    return;
+  }
+  const origin = getPermissionOrigin(requestingUrl);
+  if (!PROMPTED_PERMISSIONS.includes(permission) || !origin || !mainWindow) {
+    callback(false);
+    return;
+  }
+
+  const decision = getPermissionDecisions()[origin]?.[permission];
+  if (decision) {
+    callback(decision === 'granted');
+    return;
+  }
+
+  // 回答前に webview が破棄された場合は、その webview の要求だけを拒否する
+  const waiter = { webContents, callback };
+  const watch = (id: number) => {
+    webContents.once('destroyed', () => removePermissionWaiter(id, webContents));
+  };
+
+  for (const [id, request] of pendingPermissionRequests) {
+    if (request.origin === origin && request.permission === permission) {
+      request.waiters.push(waiter);
+      watch(id);
+      return;
+    }
+  }
+
+  const id = nextPermissionRequestId++;
+  const request = { origin, permission, waiters: [waiter] };
+  pendingPermissionRequests.set(id, request);
+  watch(id);
+  sendPermissionRequest(id, request);
+}
+
+// IPC ハンドラー: 権限の確認への回答（回答は保存し、次回からは確認しない）
+ipcMain.handle('permission:respond', (_event, id: unknown, granted: unknown) => {
+  if (typeof id !== 'number' || typeof granted !== 'boolean') return;
+  const request = pendingPermissionRequests.get(id);
+  if (!request) return;
+
+  // 回答直後の権限の確認にも答えられるよう、保持している回答も更新する
+  permissionDecisions = setPermissionDecision(
+    getPermissionDecisions(),
+    request.origin,
+    request.permission,
+    granted ? 'granted' : 'denied'
+  );
+  store.set(STORAGE_KEY_PERMISSIONS, permissionDecisions);
+  resolvePermissionRequest(id, granted);
+});
+
+// 回答の取り消し（保存する回答はメインプロセスだけが書き換える）
+ipcMain.handle('permission:revoke', (_event, origin: unknown, permission: unknown) => {
+  if (typeof origin !== 'string' || typeof permission !== 'string') return;
+  permissionDecisions = removePermissionDecision(getPermissionDecisions(), origin, permission);
+  store.set(STORAGE_KEY_PERMISSIONS, permissionDecisions);
+});
+
+// セットアップ済みのパーティション
+const configuredPartitions = new Set<string>();
+
+/**
+ * webview 用のセッションを設定する
+ * パーティション（プロファイル）ごとにセッションが分かれるため、初めて使われるときに設定する
+ */
+function configureWebviewSession(partition: string): void {
+  if (configuredPartitions.has(partition)) return;
+  configuredPartitions.add(partition);
+
   // persist: を付けると認証情報が永続化される
-  const webviewSession = session.fromPartition('persist:sns-viewer');
-
-  // WebAuthn（パスキー）を有効化
-  webviewSession.setPermissionRequestHandler(
-    (
-      _webContents: WebContents,
-      permission: string,
-      callback: (permissionGranted: boolean) => void
-    ) => {
-      // 許可する権限リスト
-      const allowedPermissions = [
-        'media', // カメラ・マイク
-        'geolocation', // 位置情報
-        'notifications', // 通知
-        'fullscreen', // フルスクリーン
-        'pointerLock', // ポインターロック
-        'clipboard-read', // クリップボード読み取り
-        'clipboard-sanitized-write', // クリップボード書き込み
-      ];
-
-      if (allowedPermissions.includes(permission)) {
-        callback(true);
-      } else {
-        callback(false);
-      }
+  const webviewSession = session.fromPartition(partition);
+
+  // フィルターリストに一致するリクエストをブロック（ページ本体は対象外）
+  webviewSession.webRequest.onBeforeRequest((details, callback) => {
+    const resourceType = toFilterResourceType(details.resourceType);
+    if (!contentBlocking.enabled || !resourceType || filterEngine.size === 0) {
+      callback({});
+      return;
+    }
+
+    const service = getPanelService(details.webContentsId);
+    const request = {
+      url: details.url,
+      resourceType,
+      pageUrl: details.webContents?.getURL() ?? '',
+    };
+    const allowlist = service?.blockerAllowlist ?? [];
+    if (isAllowlisted(allowlist, request) || !shouldBlockRequest(filterEngine, request)) {
+      callback({});
+      return;
     }
+
+    if (service) countBlockedRequest(service.id);
+    callback({ cancel: true });
+  });
+
+  // 権限の確認（Notification.permission など）は保存された回答で答える
+  webviewSession.setPermissionCheckHandler((_webContents, permission, requestingOrigin) =>
+    isPermissionGranted(getPermissionDecisions(), permission, requestingOrigin)
   );
 
+  // 権限の要求はオリジンごとにユーザーに確認する
+  webviewSession.setPermissionRequestHandler((webContents, permission, callback, details) => {
+    handlePermissionRequest(
+      webContents,
+      permission,
+      callback,
+      details.requestingUrl || webContents.getURL()
+    );
+  });
+}
+
+// webview のアタッチ前にパーティションを検証し、セッションを設定する
+app.on('web-contents-created', (_event, contents) => {
+  // パネルの webview で開かれるリンクはサービスの設定に従って開く
+  if (contents.getType() === 'webview') {
+    contents.setWindowOpenHandler((details) => handleWindowOpen(contents, details));
+    // 右クリックしたリンクを他のパネルで開く（入力欄・選択中の文字ではページ側の操作を妨げない）
+    contents.on('context-menu', (_event, params) => {
+      if (!params.linkURL || params.isEditable || params.selectionText) return;
+      popupOpenInPanelMenu(contents, params.linkURL, true);
+    });
+  }
+
+  contents.on('will-attach-webview', (event, _webPreferences, params) => {
+    // 永続化されたプロファイル用パーティション以外は拒否
+    if (!/^persist:[A-Za-z0-9_-]{1,64}$/.test(params.partition ?? '')) {
+      event.preventDefault();
+      return;
+    }
+    configureWebviewSession(params.partition);
+  });
+});
+
+// Electron の初期化完了後にウィンドウを作成
+app.whenReady().then(() => {
+  // 既定のプロファイル
+  configureWebviewSession('persist:sns-viewer');
+
+  buildApplicationMenu();
   createWindow();
+  createTray();
 
-  // macOS: ドックアイコンクリック時にウィンドウがなければ再作成
+  // macOS: ドックアイコンクリック時にウィンドウを表示（なければ再作成）
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
       createWindow();
+    } else {
+      showMainWindow();
     }
   });
 });
 
+// 終了時はウィンドウを隠さずに閉じる
+app.on('before-quit', () => {
+  isQuitting = true;
+});
+
 // 全ウィンドウが閉じられたときの処理
 app.on('window-all-closed', () => {
   // macOS 以外ではアプリを終了
@@ -7,4 +7,54 @@ contextBridge.exposeInMainWorld('electronAPI', {
   // 設定の保存・読み込み
   getConfig: (key: string) => ipcRenderer.invoke('config:get', key),
   setConfig: (key: string, value: unknown) => ipcRenderer.invoke('config:set', key, value),
+  exportConfig: () => ipcRenderer.invoke('config:export'),
+  importConfig: () => ipcRenderer.invoke('config:import'),
+
+  // 未読件数の合計（タスクバー・ドックのバッジ）
+  setUnreadCount: (count: number) => ipcRenderer.send('unread:set', count),
+
+  // トレイメニューとの連携
+  setMutedAll: (muted: boolean) => ipcRenderer.send('audio:muted-all', muted),
+  onApplyLayoutPreset: (callback: (id: string) => void) =>
+    ipcRenderer.on('layout-preset:apply', (_event: unknown, id: string) => callback(id)),
+
+  // メインウィンドウの状態（フォーカス・最小化）
+  onWindowState: (callback: (state: string) => void) =>
+    ipcRenderer.on('window:state', (_event: unknown, state: string) => callback(state)),
+
+  // パネルの webview とサービスの対応（ブロック件数・リンクの開き方に使う）
+  registerPanel: (webContentsId: number, serviceId: string) =>
+    ipcRenderer.send('panel:register', webContentsId, serviceId),
+  // 他のパネルから送られたリンク（serviceId が null の場合はメインパネル）
+  onOpenInPanel: (callback: (serviceId: string | null, url: string, promote: boolean) => void) =>
+    ipcRenderer.on(
+      'link:open-in-panel',
+      (_event: unknown, serviceId: string | null, url: string, promote: boolean) =>
+        callback(serviceId, url, promote)
+    ),
+  showOpenInPanelMenu: (webContentsId: number) =>
+    ipcRenderer.send('panel:open-in-menu', webContentsId),
+
+  // コンテンツブロック（フィルターリストの選択・パネルごとのブロック件数）
+  chooseFilterLists: () => ipcRenderer.invoke('content-blocker:choose-lists'),
+  getFilterListStatus: () => ipcRenderer.invoke('content-blocker:status'),
+  onBlockedRequests: (callback: (counts: Record<string, number>) => void) =>
+    ipcRenderer.on('content-blocker:blocked', (_event: unknown, counts: Record<string, number>) =>
+      callback(counts)
+    ),
+
+  // webview からの権限の要求の確認
+  onPermissionRequest: (callback: (request: unknown) => void) =>
+    ipcRenderer.on('permission:request', (_event: unknown, request: unknown) => callback(request)),
+  onPermissionCancel: (callback: (id: number) => void) =>
+    ipcRenderer.on('permission:cancel', (_event: unknown, id: number) => callback(id)),
+  respondPermission: (id: number, granted: boolean) =>
+    ipcRenderer.invoke('permission:respond', id, granted),
+  revokePermission: (origin: string, permission: string) =>
+    ipcRenderer.invoke('permission:revoke', origin, permission),
+
+  // メニュー・ショートカットからのコマンド
+  onCommand: (callback: (command: string) => void) =>
+    ipcRenderer.on('app:command', (_event: unknown, command: string) => callback(command)),
+  platform: process.platform,
 });
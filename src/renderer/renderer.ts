@@ -21,6 +21,19 @@ const STORAGE_KEY_LAYOUT = 'layout';
 const STORAGE_KEY_PINNED = 'pinned';
 const STORAGE_KEY_ZOOM = 'zoom';
 const STORAGE_KEY_VOLUME = 'volume';
+const STORAGE_KEY_SERVICES = 'services';
+const STORAGE_KEY_LAYOUT_PRESETS = 'layoutPresets';
+const STORAGE_KEY_SHORTCUTS = 'shortcuts';
+const STORAGE_KEY_HIBERNATION = 'hibernation';
+const STORAGE_KEY_STARTUP_MODE = 'startupMode';
+const STORAGE_KEY_INCIDENTS = 'incidents';
+const STORAGE_KEY_NAVIGATION_TOOLBAR = 'navigationToolbar';
+const STORAGE_KEY_LAST_URLS = 'lastUrls';
+const STORAGE_KEY_AUDIO = 'audio';
+const STORAGE_KEY_PLAYBACK = 'playback';
+const STORAGE_KEY_INJECTION_RULES = 'injectionRules';
+const STORAGE_KEY_CONTENT_BLOCKING = 'contentBlocking';
+const STORAGE_KEY_PERMISSIONS = 'permissions';
 
 // ズーム調整の設定
 const ZOOM_STEP = 0.1; // 10%刻み
@@ -36,8 +49,48 @@ const VOLUME_DEFAULT = 0.5; // デフォルト50%
 
 // ===== ユーティリティ関数（utils.ts からインライン化） =====
 
+type LayoutTemplateId =
+  | 'classic'
+  | 'grid-2x2'
+  | 'grid-3x2'
+  | 'focus-column'
+  | 'dual'
+  | 'single'
+  | 'custom';
+
+interface GridCell {
+  column: number;
+  row: number;
+  columnSpan: number;
+  rowSpan: number;
+  mode: 'desktop' | 'mobile';
+}
+
+interface GridDefinition {
+  template: LayoutTemplateId;
+  columns: number;
+  rows: number;
+  cells: GridCell[];
+}
+
+const GRID_MAX_COLUMNS = 4;
+const GRID_MAX_ROWS = 4;
+
+interface LayoutSplits {
+  mainRow?: number;
+  mainColumn?: number;
+  subColumns?: number[];
+  gridColumns?: number[];
+  gridRows?: number[];
+}
+
+const SPLIT_MIN_RATIO = 0.2;
+const SPLIT_MAX_RATIO = 0.8;
+
 interface LayoutConfig {
   slots: string[];
+  grid?: GridDefinition;
+  splits?: LayoutSplits;
 }
 
 interface ZoomCalculation {
@@ -66,9 +119,134 @@ function isValidLayoutConfig(config: unknown): config is LayoutConfig {
   const c = config as Record<string, unknown>;
   if (!Array.isArray(c.slots)) return false;
   if (c.slots.length === 0) return false;
+  if (c.grid !== undefined && !isValidGridDefinition(c.grid)) return false;
+  if (c.splits !== undefined && !isValidLayoutSplits(c.splits)) return false;
   return c.slots.every((slot) => typeof slot === 'string');
 }
 
+function isValidLayoutSplits(splits: unknown): splits is LayoutSplits {
+  if (!splits || typeof splits !== 'object') return false;
+  const s = splits as Record<string, unknown>;
+  const isRatio = (value: unknown): boolean => typeof value === 'number' && value > 0 && value < 1;
+  const isRatioList = (value: unknown): boolean =>
+    Array.isArray(value) && value.every((v) => typeof v === 'number' && v > 0);
+  if (s.mainRow !== undefined && !isRatio(s.mainRow)) return false;
+  if (s.mainColumn !== undefined && !isRatio(s.mainColumn)) return false;
+  return [s.subColumns, s.gridColumns, s.gridRows].every(
+    (value) => value === undefined || isRatioList(value)
+  );
+}
+
+function clampSplitRatio(ratio: number): number {
+  return Math.max(SPLIT_MIN_RATIO, Math.min(SPLIT_MAX_RATIO, ratio));
+}
+
+function normalizeRatios(ratios: number[] | undefined, count: number): number[] {
+  if (ratios && ratios.length === count) return [...ratios];
+  return Array.from({ length: count }, () => 1);
+}
+
+function resizeAdjacentRatios(ratios: number[], index: number, delta: number): number[] {
+  const result = [...ratios];
+  if (index < 0 || index + 1 >= result.length) return result;
+  const total = result[index] + result[index + 1];
+  const min = total * 0.15;
+  const first = Math.max(min, Math.min(total - min, result[index] + delta));
+  result[index] = first;
+  result[index + 1] = total - first;
+  return result;
+}
+
+function isValidGridDefinition(grid: unknown): grid is GridDefinition {
+  if (!grid || typeof grid !== 'object') return false;
+  const g = grid as Record<string, unknown>;
+  if (typeof g.template !== 'string' || g.template === 'classic') return false;
+  if (!Number.isInteger(g.columns) || !Number.isInteger(g.rows)) return false;
+  const columns = g.columns as number;
+  const rows = g.rows as number;
+  if (columns < 1 || columns > GRID_MAX_COLUMNS || rows < 1 || rows > GRID_MAX_ROWS) return false;
+  if (!Array.isArray(g.cells) || g.cells.length === 0) return false;
+  return g.cells.every((cell: unknown) => {
+    if (!cell || typeof cell !== 'object') return false;
+    const c = cell as Record<string, unknown>;
+    const values = [c.column, c.row, c.columnSpan, c.rowSpan];
+    if (!values.every((value) => Number.isInteger(value) && (value as number) >= 1)) return false;
+    if (c.mode !== 'desktop' && c.mode !== 'mobile') return false;
+    const { column, row, columnSpan, rowSpan } = c as unknown as GridCell;
+    return column + columnSpan - 1 <= columns && row + rowSpan - 1 <= rows;
+  });
+}
+
+function createUniformGrid(
+  template: LayoutTemplateId,
+  columns: number,
+  rows: number
+): GridDefinition {
+  const mode = columns <= 2 ? 'desktop' : 'mobile';
+  const cells: GridCell[] = [];
+  for (let row = 1; row <= rows; row++) {
+    for (let column = 1; column <= columns; column++) {
+      cells.push({ column, row, columnSpan: 1, rowSpan: 1, mode });
+    }
+  }
+  return { template, columns, rows, cells };
+}
+
+function getLayoutTemplate(
+  template: LayoutTemplateId,
+  columns = 2,
+  rows = 2
+): GridDefinition | undefined {
+  switch (template) {
+    case 'grid-2x2':
+      return createUniformGrid(template, 2, 2);
+    case 'grid-3x2':
+      return createUniformGrid(template, 3, 2);
+    case 'dual':
+      return createUniformGrid(template, 2, 1);
+    case 'single':
+      return createUniformGrid(template, 1, 1);
+    case 'focus-column':
+      return {
+        template,
+        columns: 3,
+        rows: 3,
+        cells: [
+          { column: 1, row: 1, columnSpan: 2, rowSpan: 3, mode: 'desktop' },
+          { column: 3, row: 1, columnSpan: 1, rowSpan: 1, mode: 'mobile' },
+          { column: 3, row: 2, columnSpan: 1, rowSpan: 1, mode: 'mobile' },
+          { column: 3, row: 3, columnSpan: 1, rowSpan: 1, mode: 'mobile' },
+        ],
+      };
+    case 'custom': {
+      const c = Math.max(1, Math.min(GRID_MAX_COLUMNS, Math.round(columns)));
+      const r = Math.max(1, Math.min(GRID_MAX_ROWS, Math.round(rows)));
+      return createUniformGrid(template, c, r);
+    }
+    default:
+      return undefined;
+  }
+}
+
+function getGridArea(cell: GridCell): string {
+  return `${cell.row} / ${cell.column} / span ${cell.rowSpan} / span ${cell.columnSpan}`;
+}
+
+function swapSlots(slots: string[], a: number, b: number): string[] {
+  const result = [...slots];
+  if (a < 0 || b < 0 || a >= result.length || b >= result.length) return result;
+  [result[a], result[b]] = [result[b], result[a]];
+  return result;
+}
+
+function moveSlot(slots: string[], from: number, to: number): string[] {
+  const result = [...slots];
+  if (from < 0 || from >= result.length || to < 0 || to > result.length) return result;
+  const [item] = result.splice(from, 1);
+  result.splice(to > from ? to - 1 : to, 0, item);
+  return result;
+}
+
 function getPanelTypeByIndex(index: number): 'main' | 'secondary' | 'sub' {
   if (index === 0) return 'main';
   if (index === 1) return 'secondary';
@@ -83,6 +261,762 @@ function getPanelClassByType(panelType: 'main' | 'secondary' | 'sub'): string {
   return `${panelType}-panel`;
 }
 
+type ServiceViewMode = 'auto' | 'desktop' | 'mobile';
+
+interface ServiceDefinition {
+  id: string;
+  name: string;
+  url: string;
+  icon: string;
+  defaultMode: ServiceViewMode;
+  profile?: string;
+  refresh?: RefreshSettings;
+  neverHibernate?: boolean;
+  alwaysStartAtHome?: boolean;
+  blockerAllowlist?: string[];
+  linkPolicy?: LinkPolicy;
+}
+
+type ExternalLinkTarget = 'browser' | 'window' | 'panel';
+type SameSiteLinkTarget = 'window' | 'panel';
+
+interface LinkPolicy {
+  external: ExternalLinkTarget;
+  sameSite: SameSiteLinkTarget;
+  routeToPanels: boolean;
+}
+
+interface RefreshSettings {
+  intervalMinutes: number;
+  skipWhenFocused: boolean;
+  skipWhenPlaying: boolean;
+}
+
+const REFRESH_INTERVAL_MAX = 24 * 60;
+
+const DEFAULT_PROFILE = 'sns-viewer';
+
+const DEFAULT_SERVICES: ServiceDefinition[] = [
+  {
+    id: 'youtube',
+    name: 'YouTube',
+    url: 'https://www.youtube.com/',
+    icon: '▶️',
+    defaultMode: 'auto',
+  },
+  { id: 'sora', name: 'Sora', url: 'https://sora.com/', icon: '🎬', defaultMode: 'auto' },
+  { id: 'tiktok', name: 'TikTok', url: 'https://www.tiktok.com/', icon: '🎵', defaultMode: 'auto' },
+  { id: 'x', name: 'X', url: 'https://x.com/', icon: '𝕏', defaultMode: 'auto' },
+  {
+    id: 'instagram',
+    name: 'Instagram',
+    url: 'https://www.instagram.com/',
+    icon: '📷',
+    defaultMode: 'auto',
+  },
+  {
+    id: 'threads',
+    name: 'Threads',
+    url: 'https://www.threads.net/',
+    icon: '🧵',
+    defaultMode: 'auto',
+  },
+];
+
+function isValidServiceUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+function normalizeNavigationUrl(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+  const url = trimmed.includes('://') ? trimmed : `https://${trimmed}`;
+  return isValidServiceUrl(url) ? new URL(url).href : null;
+}
+
+function isValidProfileName(profile: string): boolean {
+  return /^[A-Za-z0-9_-]{1,64}$/.test(profile);
+}
+
+function getPartitionName(profile?: string): string {
+  return `persist:${profile || DEFAULT_PROFILE}`;
+}
+
+function isValidServiceDefinition(service: unknown): service is ServiceDefinition {
+  if (!service || typeof service !== 'object') return false;
+  const s = service as Record<string, unknown>;
+  if (typeof s.id !== 'string' || s.id === '') return false;
+  if (typeof s.name !== 'string' || s.name === '') return false;
+  if (typeof s.url !== 'string' || !isValidServiceUrl(s.url)) return false;
+  if (typeof s.icon !== 'string') return false;
+  if (
+    s.profile !== undefined &&
+    (typeof s.profile !== 'string' || !isValidProfileName(s.profile))
+  ) {
+    return false;
+  }
+  if (s.refresh !== undefined && !isValidRefreshSettings(s.refresh)) return false;
+  if (s.neverHibernate !== undefined && typeof s.neverHibernate !== 'boolean') return false;
+  if (s.alwaysStartAtHome !== undefined && typeof s.alwaysStartAtHome !== 'boolean') return false;
+  if (
+    s.blockerAllowlist !== undefined &&
+    (!Array.isArray(s.blockerAllowlist) || !s.blockerAllowlist.every(isValidDomainName))
+  ) {
+    return false;
+  }
+  if (s.linkPolicy !== undefined && !isValidLinkPolicy(s.linkPolicy)) return false;
+  return s.defaultMode === 'auto' || s.defaultMode === 'desktop' || s.defaultMode === 'mobile';
+}
+
+function isValidRefreshSettings(refresh: unknown): refresh is RefreshSettings {
+  if (!refresh || typeof refresh !== 'object') return false;
+  const r = refresh as Record<string, unknown>;
+  if (typeof r.intervalMinutes !== 'number' || !Number.isInteger(r.intervalMinutes)) return false;
+  if (r.intervalMinutes < 1 || r.intervalMinutes > REFRESH_INTERVAL_MAX) return false;
+  return typeof r.skipWhenFocused === 'boolean' && typeof r.skipWhenPlaying === 'boolean';
+}
+
+interface HibernationSettings {
+  idleMinutes: number;
+}
+
+function isValidHibernationSettings(settings: unknown): settings is HibernationSettings {
+  if (!settings || typeof settings !== 'object') return false;
+  const s = settings as Record<string, unknown>;
+  return typeof s.idleMinutes === 'number' && Number.isInteger(s.idleMinutes) && s.idleMinutes >= 0;
+}
+
+type StartupMode = 'staggered' | 'on-demand';
+
+function isValidStartupMode(mode: unknown): mode is StartupMode {
+  return mode === 'staggered' || mode === 'on-demand';
+}
+
+function formatCountdown(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+function isValidServiceList(services: unknown): services is ServiceDefinition[] {
+  if (!Array.isArray(services)) return false;
+  if (services.length === 0) return false;
+  if (!services.every(isValidServiceDefinition)) return false;
+  const ids = new Set(services.map((service) => service.id));
+  return ids.size === services.length;
+}
+
+function createServiceId(name: string, existingIds: string[]): string {
+  const base =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'service';
+  let id = base;
+  let suffix = 2;
+  while (existingIds.includes(id)) {
+    id = `${base}-${suffix}`;
+    suffix++;
+  }
+  return id;
+}
+
+function normalizeLayoutSlots(slots: string[], serviceIds: string[]): string[] {
+  const result: string[] = [];
+  slots.forEach((id) => {
+    if (serviceIds.includes(id) && !result.includes(id)) result.push(id);
+  });
+  serviceIds.forEach((id) => {
+    if (!result.includes(id)) result.push(id);
+  });
+  return result;
+}
+
+function isDesktopMode(mode: ServiceViewMode, panelType: 'main' | 'secondary' | 'sub'): boolean {
+  if (mode === 'desktop') return true;
+  if (mode === 'mobile') return false;
+  return getWebviewClassByPanelType(panelType) === 'webview-desktop';
+}
+
+function isDesktopGridCell(mode: ServiceViewMode, cell: GridCell): boolean {
+  if (mode === 'auto') return cell.mode === 'desktop';
+  return mode === 'desktop';
+}
+
+interface ZoomConfig {
+  [snsName: string]: number;
+}
+
+function isValidZoomConfig(config: unknown): config is ZoomConfig {
+  if (!config || typeof config !== 'object') return false;
+  const c = config as Record<string, unknown>;
+  return Object.values(c).every((value) => typeof value === 'number');
+}
+
+interface VolumeConfig {
+  [snsName: string]: number;
+}
+
+function isValidVolumeConfig(config: unknown): config is VolumeConfig {
+  if (!config || typeof config !== 'object') return false;
+  const c = config as Record<string, unknown>;
+  return Object.values(c).every((value) => typeof value === 'number');
+}
+
+function resolveServiceValue(
+  config: ZoomConfig | VolumeConfig,
+  snsName: string,
+  globalValue: number
+): number {
+  const value = config[snsName];
+  return typeof value === 'number' ? value : globalValue;
+}
+
+interface LayoutPreset {
+  id: string;
+  name: string;
+  layout: LayoutConfig;
+  pinned: boolean;
+  zoom: number;
+  volume: number;
+  zoomOverrides: ZoomConfig;
+  volumeOverrides: VolumeConfig;
+}
+
+interface LayoutPresetStore {
+  presets: LayoutPreset[];
+  defaultPresetId: string | null;
+}
+
+function isValidLayoutPreset(preset: unknown): preset is LayoutPreset {
+  if (!preset || typeof preset !== 'object') return false;
+  const p = preset as Record<string, unknown>;
+  if (typeof p.id !== 'string' || p.id === '') return false;
+  if (typeof p.name !== 'string' || p.name === '') return false;
+  if (!isValidLayoutConfig(p.layout)) return false;
+  if (typeof p.pinned !== 'boolean') return false;
+  if (typeof p.zoom !== 'number' || typeof p.volume !== 'number') return false;
+  return isValidZoomConfig(p.zoomOverrides) && isValidVolumeConfig(p.volumeOverrides);
+}
+
+function isValidLayoutPresetStore(store: unknown): store is LayoutPresetStore {
+  if (!store || typeof store !== 'object') return false;
+  const s = store as Record<string, unknown>;
+  if (!Array.isArray(s.presets) || !s.presets.every(isValidLayoutPreset)) return false;
+  const ids = s.presets.map((preset) => preset.id);
+  if (new Set(ids).size !== ids.length) return false;
+  if (s.defaultPresetId === null) return true;
+  return typeof s.defaultPresetId === 'string' && ids.includes(s.defaultPresetId);
+}
+
+type ShortcutCommand =
+  | 'promote-1'
+  | 'promote-2'
+  | 'promote-3'
+  | 'promote-4'
+  | 'promote-5'
+  | 'promote-6'
+  | 'promote-7'
+  | 'promote-8'
+  | 'promote-9'
+  | 'cycle-next'
+  | 'cycle-previous'
+  | 'toggle-pin'
+  | 'zoom-in'
+  | 'zoom-out'
+  | 'zoom-reset'
+  | 'volume-up'
+  | 'volume-down'
+  | 'volume-mute'
+  | 'mute-all'
+  | 'reload-panel'
+  | 'open-settings';
+
+type ShortcutBindings = Record<ShortcutCommand, string>;
+
+const SHORTCUT_COMMANDS: { command: ShortcutCommand; label: string }[] = [
+  { command: 'promote-1', label: 'パネル 1 をメインに' },
+  { command: 'promote-2', label: 'パネル 2 をメインに' },
+  { command: 'promote-3', label: 'パネル 3 をメインに' },
+  { command: 'promote-4', label: 'パネル 4 をメインに' },
+  { command: 'promote-5', label: 'パネル 5 をメインに' },
+  { command: 'promote-6', label: 'パネル 6 をメインに' },
+  { command: 'promote-7', label: 'パネル 7 をメインに' },
+  { command: 'promote-8', label: 'パネル 8 をメインに' },
+  { command: 'promote-9', label: 'パネル 9 をメインに' },
+  { command: 'cycle-next', label: '次のパネルをメインに' },
+  { command: 'cycle-previous', label: '前のパネルをメインに' },
+  { command: 'toggle-pin', label: 'ピン止めを切り替え' },
+  { command: 'zoom-in', label: '拡大' },
+  { command: 'zoom-out', label: '縮小' },
+  { command: 'zoom-reset', label: 'ズームをリセット' },
+  { command: 'volume-up', label: '音量を上げる' },
+  { command: 'volume-down', label: '音量を下げる' },
+  { command: 'volume-mute', label: 'ミュートを切り替え' },
+  { command: 'mute-all', label: 'すべてのパネルをミュート' },
+  { command: 'reload-panel', label: 'パネルを再読み込み' },
+  { command: 'open-settings', label: '設定を開く' },
+];
+
+const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  'promote-1': 'CmdOrCtrl+1',
+  'promote-2': 'CmdOrCtrl+2',
+  'promote-3': 'CmdOrCtrl+3',
+  'promote-4': 'CmdOrCtrl+4',
+  'promote-5': 'CmdOrCtrl+5',
+  'promote-6': 'CmdOrCtrl+6',
+  'promote-7': 'CmdOrCtrl+7',
+  'promote-8': 'CmdOrCtrl+8',
+  'promote-9': 'CmdOrCtrl+9',
+  'cycle-next': 'CmdOrCtrl+]',
+  'cycle-previous': 'CmdOrCtrl+[',
+  'toggle-pin': 'CmdOrCtrl+P',
+  'zoom-in': 'CmdOrCtrl+=',
+  'zoom-out': 'CmdOrCtrl+-',
+  'zoom-reset': 'CmdOrCtrl+0',
+  'volume-up': 'CmdOrCtrl+Shift+Up',
+  'volume-down': 'CmdOrCtrl+Shift+Down',
+  'volume-mute': 'CmdOrCtrl+Shift+M',
+  'mute-all': '',
+  'reload-panel': 'CmdOrCtrl+R',
+  'open-settings': 'CmdOrCtrl+,',
+};
+
+function isShortcutCommand(command: unknown): command is ShortcutCommand {
+  return SHORTCUT_COMMANDS.some((entry) => entry.command === command);
+}
+
+function isValidShortcutBindings(bindings: unknown): bindings is Partial<ShortcutBindings> {
+  if (!bindings || typeof bindings !== 'object' || Array.isArray(bindings)) return false;
+  return Object.entries(bindings).every(
+    ([command, accelerator]) => isShortcutCommand(command) && typeof accelerator === 'string'
+  );
+}
+
+function resolveShortcutBindings(bindings: unknown): ShortcutBindings {
+  if (!isValidShortcutBindings(bindings)) return { ...DEFAULT_SHORTCUTS };
+  return { ...DEFAULT_SHORTCUTS, ...bindings };
+}
+
+function assignShortcut(
+  bindings: ShortcutBindings,
+  command: ShortcutCommand,
+  accelerator: string
+): ShortcutBindings {
+  const result = { ...bindings };
+  if (accelerator !== '') {
+    for (const { command: other } of SHORTCUT_COMMANDS) {
+      if (result[other] === accelerator) result[other] = '';
+    }
+  }
+  result[command] = accelerator;
+  return result;
+}
+
+interface ShortcutKeyEvent {
+  code: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+}
+
+const ACCELERATOR_KEY_NAMES: Record<string, string> = {
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: "'",
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Backquote: '`',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  Space: 'Space',
+  Enter: 'Enter',
+  Tab: 'Tab',
+  Backspace: 'Backspace',
+  Delete: 'Delete',
+  Home: 'Home',
+  End: 'End',
+  PageUp: 'PageUp',
+  PageDown: 'PageDown',
+};
+
+function keyEventToAccelerator(event: ShortcutKeyEvent, isMac: boolean): string | null {
+  let key: string | undefined;
+  const match = /^(?:Key([A-Z])|Digit([0-9])|Numpad([0-9])|(F[0-9]{1,2}))$/.exec(event.code);
+  if (match) {
+    key = match[1] ?? match[2] ?? match[3] ?? match[4];
+  } else {
+    key = ACCELERATOR_KEY_NAMES[event.code];
+  }
+  if (!key) return null;
+
+  const modifiers: string[] = [];
+  if (isMac ? event.metaKey : event.ctrlKey) modifiers.push('CmdOrCtrl');
+  if (isMac && event.ctrlKey) modifiers.push('Ctrl');
+  if (!isMac && event.metaKey) modifiers.push('Super');
+  if (event.altKey) modifiers.push('Alt');
+  if (event.shiftKey) modifiers.push('Shift');
+  return [...modifiers, key].join('+');
+}
+
+function normalizeAccelerator(accelerator: string, isMac: boolean): string {
+  if (accelerator === '') return '';
+  const parts = accelerator.split('+');
+  // "CmdOrCtrl++" のように + キーを含む場合
+  const key = parts[parts.length - 1] === '' ? 'Plus' : parts[parts.length - 1];
+  const names = new Set(parts.slice(0, -1).map((part) => part.toLowerCase()));
+  const has = (...aliases: string[]): boolean => aliases.some((alias) => names.has(alias));
+
+  const modifiers: string[] = [];
+  const cmdOrCtrl =
+    has('cmdorctrl', 'commandorcontrol') ||
+    (isMac ? has('cmd', 'command', 'super', 'meta') : has('ctrl', 'control'));
+  if (cmdOrCtrl) modifiers.push('CmdOrCtrl');
+  if (isMac && has('ctrl', 'control')) modifiers.push('Ctrl');
+  if (!isMac && has('cmd', 'command', 'super', 'meta')) modifiers.push('Super');
+  if (has('alt', 'option')) modifiers.push('Alt');
+  if (has('shift')) modifiers.push('Shift');
+  return [...modifiers, key.length === 1 ? key.toUpperCase() : key].join('+');
+}
+
+function formatAccelerator(accelerator: string, isMac: boolean): string {
+  if (accelerator === '') return '—';
+  return normalizeAccelerator(accelerator, isMac)
+    .split('+')
+    .map((part) => {
+      if (part === 'CmdOrCtrl') return isMac ? '⌘' : 'Ctrl';
+      if (part === 'Ctrl') return '⌃';
+      if (part === 'Alt') return isMac ? '⌥' : 'Alt';
+      if (part === 'Shift') return isMac ? '⇧' : 'Shift';
+      if (part === 'Super') return 'Win';
+      return part;
+    })
+    .join(isMac ? '' : '+');
+}
+
+interface ZoomSettings {
+  global: number;
+  services: ZoomConfig;
+}
+
+function isValidZoomSettings(settings: unknown): settings is ZoomSettings {
+  if (!settings || typeof settings !== 'object') return false;
+  const s = settings as Record<string, unknown>;
+  return typeof s.global === 'number' && isValidZoomConfig(s.services);
+}
+
+interface VolumeSettings {
+  global: number;
+  services: VolumeConfig;
+}
+
+function isValidVolumeSettings(settings: unknown): settings is VolumeSettings {
+  if (!settings || typeof settings !== 'object') return false;
+  const s = settings as Record<string, unknown>;
+  return typeof s.global === 'number' && isValidVolumeConfig(s.services);
+}
+
+function parseUnreadCount(title: string): number {
+  const match = /^\s*[([](\d+)\+?[)\]]/.exec(title);
+  return match ? Number(match[1]) : 0;
+}
+
+function formatUnreadCount(count: number): string {
+  return count > 99 ? '99+' : String(count);
+}
+
+type IncidentType = 'crash' | 'unresponsive' | 'load-failed';
+
+interface PanelIncident {
+  type: IncidentType;
+  reason: string;
+  url: string;
+  timestamp: number;
+}
+
+interface IncidentLog {
+  [serviceId: string]: PanelIncident[];
+}
+
+const INCIDENT_LOG_LIMIT = 20;
+const RECOVERY_MAX_ATTEMPTS = 5;
+
+function isValidPanelIncident(incident: unknown): incident is PanelIncident {
+  if (!incident || typeof incident !== 'object') return false;
+  const i = incident as Record<string, unknown>;
+  if (i.type !== 'crash' && i.type !== 'unresponsive' && i.type !== 'load-failed') return false;
+  return (
+    typeof i.reason === 'string' && typeof i.url === 'string' && typeof i.timestamp === 'number'
+  );
+}
+
+function isValidIncidentLog(log: unknown): log is IncidentLog {
+  if (!log || typeof log !== 'object' || Array.isArray(log)) return false;
+  return Object.values(log).every(
+    (incidents) => Array.isArray(incidents) && incidents.every(isValidPanelIncident)
+  );
+}
+
+function appendIncident(
+  log: IncidentLog,
+  serviceId: string,
+  incident: PanelIncident,
+  limit = INCIDENT_LOG_LIMIT
+): IncidentLog {
+  const incidents = [...(log[serviceId] ?? []), incident];
+  return { ...log, [serviceId]: incidents.slice(Math.max(0, incidents.length - limit)) };
+}
+
+function getRecoveryDelay(attempt: number): number {
+  return Math.min(60 * 1000, 2000 * 2 ** Math.max(0, attempt));
+}
+
+interface LastUrls {
+  [serviceId: string]: string;
+}
+
+function isValidLastUrls(urls: unknown): urls is LastUrls {
+  if (!urls || typeof urls !== 'object' || Array.isArray(urls)) return false;
+  return Object.values(urls).every((url) => typeof url === 'string' && isValidServiceUrl(url));
+}
+
+function resolveStartUrl(service: ServiceDefinition, lastUrls: LastUrls): string {
+  if (service.alwaysStartAtHome) return service.url;
+  const lastUrl = lastUrls[service.id];
+  return lastUrl && isValidServiceUrl(lastUrl) ? lastUrl : service.url;
+}
+
+type AudioPolicy = 'all' | 'main' | 'solo';
+
+interface AudioSettings {
+  policy: AudioPolicy;
+  soloId: string | null;
+  mutedPanels: string[];
+}
+
+const DEFAULT_AUDIO_SETTINGS: AudioSettings = { policy: 'all', soloId: null, mutedPanels: [] };
+
+function isValidAudioPolicy(policy: unknown): policy is AudioPolicy {
+  return policy === 'all' || policy === 'main' || policy === 'solo';
+}
+
+function isValidAudioSettings(settings: unknown): settings is AudioSettings {
+  if (!settings || typeof settings !== 'object') return false;
+  const s = settings as Record<string, unknown>;
+  return (
+    isValidAudioPolicy(s.policy) &&
+    (s.soloId === null || typeof s.soloId === 'string') &&
+    Array.isArray(s.mutedPanels) &&
+    s.mutedPanels.every((id) => typeof id === 'string')
+  );
+}
+
+function isPanelAudible(id: string, mainId: string | undefined, settings: AudioSettings): boolean {
+  if (settings.mutedPanels.includes(id)) return false;
+  if (settings.policy === 'main') return id === mainId;
+  if (settings.policy === 'solo') return id === (settings.soloId ?? mainId);
+  return true;
+}
+
+type BackgroundPause = 'off' | 'minimized' | 'blurred';
+
+type WindowState = 'focused' | 'blurred' | 'minimized';
+
+interface PlaybackSettings {
+  exclusive: boolean;
+  pauseInBackground: BackgroundPause;
+}
+
+const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = {
+  exclusive: false,
+  pauseInBackground: 'off',
+};
+
+function isValidBackgroundPause(value: unknown): value is BackgroundPause {
+  return value === 'off' || value === 'minimized' || value === 'blurred';
+}
+
+function isValidPlaybackSettings(settings: unknown): settings is PlaybackSettings {
+  if (!settings || typeof settings !== 'object') return false;
+  const s = settings as Record<string, unknown>;
+  return typeof s.exclusive === 'boolean' && isValidBackgroundPause(s.pauseInBackground);
+}
+
+function shouldPauseInBackground(pauseInBackground: BackgroundPause, state: WindowState): boolean {
+  if (state === 'minimized') return pauseInBackground !== 'off';
+  if (state === 'blurred') return pauseInBackground === 'blurred';
+  return false;
+}
+
+interface InjectionRule {
+  id: string;
+  name: string;
+  serviceId: string | null;
+  urlPattern: string;
+  css: string;
+  js: string;
+  enabled: boolean;
+}
+
+function isValidInjectionRule(rule: unknown): rule is InjectionRule {
+  if (!rule || typeof rule !== 'object') return false;
+  const r = rule as Record<string, unknown>;
+  return (
+    typeof r.id === 'string' &&
+    r.id !== '' &&
+    typeof r.name === 'string' &&
+    (r.serviceId === null || typeof r.serviceId === 'string') &&
+    typeof r.urlPattern === 'string' &&
+    typeof r.css === 'string' &&
+    typeof r.js === 'string' &&
+    typeof r.enabled === 'boolean'
+  );
+}
+
+function isValidInjectionRules(rules: unknown): rules is InjectionRule[] {
+  if (!Array.isArray(rules) || !rules.every(isValidInjectionRule)) return false;
+  return new Set(rules.map((rule) => rule.id)).size === rules.length;
+}
+
+function matchesUrlPattern(pattern: string, url: string): boolean {
+  const trimmed = pattern.trim();
+  if (!trimmed) return true;
+  const source = trimmed
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(url);
+}
+
+function getMatchingRules(rules: InjectionRule[], serviceId: string, url: string): InjectionRule[] {
+  return rules.filter(
+    (rule) =>
+      rule.enabled &&
+      (rule.serviceId === null || rule.serviceId === serviceId) &&
+      matchesUrlPattern(rule.urlPattern, url)
+  );
+}
+
+interface ContentBlockingSettings {
+  enabled: boolean;
+  filterLists: string[];
+}
+
+const DEFAULT_CONTENT_BLOCKING_SETTINGS: ContentBlockingSettings = {
+  enabled: false,
+  filterLists: [],
+};
+
+function isValidContentBlockingSettings(settings: unknown): settings is ContentBlockingSettings {
+  if (!settings || typeof settings !== 'object') return false;
+  const s = settings as Record<string, unknown>;
+  return (
+    typeof s.enabled === 'boolean' &&
+    Array.isArray(s.filterLists) &&
+    s.filterLists.every((path) => typeof path === 'string' && path !== '')
+  );
+}
+
+function isValidDomainName(domain: unknown): domain is string {
+  return typeof domain === 'string' && /^[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(domain);
+}
+
+function parseDomainList(input: string): string[] {
+  const domains = input
+    .split(/[\s,]+/)
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .map((entry) => {
+      try {
+        return entry.includes('://') ? new URL(entry).hostname : entry;
+      } catch {
+        return '';
+      }
+    })
+    .filter(isValidDomainName);
+  return Array.from(new Set(domains));
+}
+
+const PROMPTED_PERMISSIONS = ['media', 'geolocation', 'notifications', 'clipboard-read'];
+
+type PermissionDecision = 'granted' | 'denied';
+
+interface PermissionDecisions {
+  [origin: string]: { [permission: string]: PermissionDecision };
+}
+
+function isValidPermissionDecisions(decisions: unknown): decisions is PermissionDecisions {
+  if (!decisions || typeof decisions !== 'object' || Array.isArray(decisions)) return false;
+  return Object.entries(decisions as Record<string, unknown>).every(
+    ([origin, permissions]) =>
+      getPermissionOrigin(origin) === origin &&
+      !!permissions &&
+      typeof permissions === 'object' &&
+      !Array.isArray(permissions) &&
+      Object.entries(permissions as Record<string, unknown>).every(
+        ([permission, decision]) =>
+          PROMPTED_PERMISSIONS.includes(permission) &&
+          (decision === 'granted' || decision === 'denied')
+      )
+  );
+}
+
+function getPermissionOrigin(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return null;
+    return parsed.origin;
+  } catch {
+    return null;
+  }
+}
+
+interface HibernationState {
+  serviceId: string;
+  mainId: string | undefined;
+  focusedId: string | null;
+  activityAtCheck: number | undefined;
+  activityNow: number | undefined;
+}
+
+function shouldCompleteHibernation(state: HibernationState): boolean {
+  return (
+    state.serviceId !== state.mainId &&
+    state.serviceId !== state.focusedId &&
+    state.activityNow === state.activityAtCheck
+  );
+}
+
+const DEFAULT_LINK_POLICY: LinkPolicy = {
+  external: 'browser',
+  sameSite: 'window',
+  routeToPanels: true,
+};
+
+function isValidLinkPolicy(policy: unknown): policy is LinkPolicy {
+  if (!policy || typeof policy !== 'object') return false;
+  const p = policy as Record<string, unknown>;
+  return (
+    (p.external === 'browser' || p.external === 'window' || p.external === 'panel') &&
+    (p.sameSite === 'window' || p.sameSite === 'panel') &&
+    typeof p.routeToPanels === 'boolean'
+  );
+}
+
 function clampZoom(zoom: number): number {
   return Math.max(ZOOM_MIN, Math.min(ZOOM_MAX, zoom));
 }
@@ -110,6 +1044,16 @@ function getVolumeIcon(volume: number): string {
 
 const mainView = document.querySelector<HTMLElement>('.main-view');
 const subViews = document.querySelector<HTMLElement>('.sub-views');
+const gridView = document.querySelector<HTMLElement>('.grid-view');
+
+// 現在のグリッド定義（classic レイアウトの場合は undefined）
+let layoutGrid: GridDefinition | undefined;
+
+// スプリッターで調整したパネルサイズの比率
+let layoutSplits: LayoutSplits = {};
+
+// 登録済みサービス（パネルの表示順の既定値を兼ねる）
+let services: ServiceDefinition[] = DEFAULT_SERVICES.map((service) => ({ ...service }));
 
 // ピン固定状態
 let isPinned = false;
@@ -120,12 +1064,58 @@ let globalZoom = ZOOM_DEFAULT;
 // 統一音量設定（全webview共通）
 let globalVolume = VOLUME_DEFAULT;
 
+// サービス個別のズーム・音量設定（未設定のサービスは統一設定を使用）
+let zoomOverrides: ZoomConfig = {};
+let volumeOverrides: VolumeConfig = {};
+
+// 名前付きレイアウトプリセット
+let layoutPresets: LayoutPresetStore = { presets: [], defaultPresetId: null };
+
 /**
  * Electron API の型定義
  */
+/**
+ * webview からの権限の要求（メインプロセスから通知）
+ */
+interface PermissionRequest {
+  id: number;
+  origin: string;
+  permission: string;
+  webContentsId: number;
+}
+
+/**
+ * 読み込んだフィルターリストの状態（メインプロセスから取得）
+ */
+interface FilterListStatus {
+  path: string;
+  rules: number;
+  error: string | null;
+}
+
 interface ElectronAPI {
   getConfig: (key: string) => Promise<unknown>;
   setConfig: (key: string, value: unknown) => Promise<void>;
+  exportConfig: () => Promise<void>;
+  importConfig: () => Promise<void>;
+  setUnreadCount: (count: number) => void;
+  setMutedAll: (muted: boolean) => void;
+  onApplyLayoutPreset: (callback: (id: string) => void) => void;
+  onCommand: (callback: (command: string) => void) => void;
+  onWindowState: (callback: (state: WindowState) => void) => void;
+  registerPanel: (webContentsId: number, serviceId: string) => void;
+  onOpenInPanel: (
+    callback: (serviceId: string | null, url: string, promote: boolean) => void
+  ) => void;
+  showOpenInPanelMenu: (webContentsId: number) => void;
+  chooseFilterLists: () => Promise<string[]>;
+  getFilterListStatus: () => Promise<FilterListStatus[]>;
+  onBlockedRequests: (callback: (counts: Record<string, number>) => void) => void;
+  onPermissionRequest: (callback: (request: PermissionRequest) => void) => void;
+  onPermissionCancel: (callback: (id: number) => void) => void;
+  respondPermission: (id: number, granted: boolean) => Promise<void>;
+  revokePermission: (origin: string, permission: string) => Promise<void>;
+  platform: string;
 }
 
 // Window オブジェクトの electronAPI を参照
@@ -141,6 +1131,15 @@ interface WebviewTag extends HTMLElement {
   setUserAgent(userAgent: string): void;
   setAudioMuted(muted: boolean): void;
   reload(): void;
+  goBack(): void;
+  goForward(): void;
+  canGoBack(): boolean;
+  canGoForward(): boolean;
+  loadURL(url: string): Promise<void>;
+  getURL(): string;
+  capturePage(): Promise<{ toDataURL(): string }>;
+  insertCSS(css: string): Promise<string>;
+  removeInsertedCSS(key: string): Promise<void>;
   addEventListener(
     type: string,
     listener: EventListenerOrEventListenerObject,
@@ -148,6 +1147,20 @@ interface WebviewTag extends HTMLElement {
   ): void;
 }
 
+// dom-ready 済みの webview（setUserAgent などは dom-ready 後でないと呼べない）
+const readyWebviews = new WeakSet<WebviewTag>();
+
+/**
+ * 読み込み済みのすべての webview を取得
+ * 読み込み待ち（アタッチ前）の webview はメソッドを呼ぶと例外になるため除く
+ * これらのズーム・音量は dom-ready で適用される
+ */
+function getReadyWebviews(): WebviewTag[] {
+  return Array.from(document.querySelectorAll<WebviewTag>('.webview')).filter((webview) =>
+    readyWebviews.has(webview)
+  );
+}
+
 /**
  * webview のズームレベルを計算して設定する
  * デスクトップ版・モバイル版ともにパネルサイズに合わせてズーム調整
@@ -157,57 +1170,172 @@ function adjustWebviewZoom(webview: WebviewTag, isDesktop: boolean): void {
   const { clampedZoom: baseZoom } = isDesktop
     ? calculateDesktopZoom(rect.width, rect.height)
     : calculateMobileZoom(rect.width, rect.height);
-  // ベースズームに統一ズームを掛け合わせる
-  webview.setZoomFactor(baseZoom * globalZoom);
+  // ベースズームにサービスのズーム（個別設定または統一ズーム）を掛け合わせる
+  webview.setZoomFactor(baseZoom * getServiceZoom(getWebviewPanelId(webview)));
 }
 
 /**
- * すべての webview を初期化する
- * dom-ready イベント後に各種設定を行う
+ * webview が属するパネルのサービスIDを取得
  */
-function initializeWebviews(): void {
-  // すべての webview に対して dom-ready イベントを設定
-  const allWebviews = document.querySelectorAll<WebviewTag>('.webview');
-  allWebviews.forEach((webview) => {
-    webview.addEventListener('dom-ready', () => {
-      const isDesktop = webview.classList.contains('webview-desktop');
+function getWebviewPanelId(webview: WebviewTag): string {
+  return webview.closest<HTMLElement>('[data-sns]')?.dataset.sns || '';
+}
 
-      if (!isDesktop) {
-        // モバイル版: User-Agent を設定（dom-ready 後に呼び出す）
-        webview.setUserAgent(MOBILE_USER_AGENT);
-
-        // モバイルビューポートの meta タグを注入
-        webview.executeJavaScript(`
-          (function() {
-            let viewport = document.querySelector('meta[name="viewport"]');
-            if (!viewport) {
-              viewport = document.createElement('meta');
-              viewport.name = 'viewport';
-              document.head.appendChild(viewport);
-            }
-            viewport.content = 'width=${MOBILE_VIEWPORT_WIDTH}, initial-scale=1.0, user-scalable=no';
-          })();
-        `);
-      }
+/**
+ * サービスに適用するズームを取得（個別設定がなければ統一ズーム）
+ */
+function getServiceZoom(id: string): number {
+  return resolveServiceValue(zoomOverrides, id, globalZoom);
+}
 
-      // ズームを適用
-      adjustWebviewZoom(webview, isDesktop);
-      // 音量を適用
-      applyVolume(webview, globalVolume);
-    });
-  });
+/**
+ * サービスに適用する音量を取得（個別設定がなければ統一音量）
+ */
+function getServiceVolume(id: string): number {
+  return resolveServiceValue(volumeOverrides, id, globalVolume);
 }
 
 /**
- * ウィンドウリサイズ時にズームを再調整
+ * webview を初期化する
+ * dom-ready イベント後に各種設定を行う
  */
-function setupResizeObserver(): void {
-  const resizeObserver = new ResizeObserver(() => {
-    // すべてのwebviewに対してズームを適用
-    document.querySelectorAll<WebviewTag>('.webview').forEach((webview) => {
+function initializeWebview(webview: WebviewTag): void {
+  webview.addEventListener('dom-ready', () => {
+    readyWebviews.add(webview);
+    // 読み込み中のスケルトンを外す
+    webview.closest('[data-sns]')?.classList.remove('loading');
+    const isDesktop = webview.classList.contains('webview-desktop');
+
+    if (!isDesktop) {
+      // モバイル版: User-Agent を設定（dom-ready 後に呼び出す）
+      webview.setUserAgent(MOBILE_USER_AGENT);
+
+      // モバイルビューポートの meta タグを注入
+      webview.executeJavaScript(`
+        (function() {
+          let viewport = document.querySelector('meta[name="viewport"]');
+          if (!viewport) {
+            viewport = document.createElement('meta');
+            viewport.name = 'viewport';
+            document.head.appendChild(viewport);
+          }
+          viewport.content = 'width=${MOBILE_VIEWPORT_WIDTH}, initial-scale=1.0, user-scalable=no';
+        })();
+      `);
+    }
+
+    // ズームを適用
+    adjustWebviewZoom(webview, isDesktop);
+    // 音量を適用
+    applyVolume(webview, getServiceVolume(getWebviewPanelId(webview)));
+    // Web 通知を検知できるようにする
+    hookWebNotifications(webview);
+    // 再生の開始を検知できるようにする
+    hookMediaPlayback(webview);
+    // ユーザー CSS / スクリプトを注入（新しいページなので挿入済みの CSS は残っていない）
+    injectedStyles.set(webview, new Map());
+    applyInjectionRules(webview, true);
+    // 読み込み直したので自動更新のカウントダウンをやり直す
+    resetRefreshTimer(getWebviewPanelId(webview));
+    markPanelActive(getWebviewPanelId(webview));
+    updateNavigationToolbar(webview);
+  });
+
+  // ブロック件数の集計とリンクの開き方のため、webview とサービスの対応をメインプロセスに登録する
+  webview.addEventListener('did-attach', () => {
+    api.registerPanel(webview.getWebContentsId(), getWebviewPanelId(webview));
+  });
+
+  // ナビゲーションツールバーの更新と、次回起動時に開く URL の記録
+  webview.addEventListener('did-navigate', (event) => {
+    const { url } = event as Event & { url: string };
+    recordLastUrl(getWebviewPanelId(webview), url);
+    // ブロック件数はページごとに数える
+    resetBlockedCount(getWebviewPanelId(webview));
+    updateNavigationToolbar(webview);
+  });
+  webview.addEventListener('did-navigate-in-page', (event) => {
+    const { url, isMainFrame } = event as Event & { url: string; isMainFrame: boolean };
+    if (isMainFrame) {
+      recordLastUrl(getWebviewPanelId(webview), url);
+      applyInjectionRules(webview, true);
+    }
+    updateNavigationToolbar(webview);
+  });
+
+  // タイトルの件数（"(3) X" など）から未読件数を取得
+  webview.addEventListener('page-title-updated', (event) => {
+    const { title } = event as Event & { title: string };
+    setTitleUnreadCount(getWebviewPanelId(webview), parseUnreadCount(title));
+  });
+
+  // ページ内で作成された Web 通知を数える
+  webview.addEventListener('console-message', (event) => {
+    const { message } = event as Event & { message: string };
+    if (message === NOTIFICATION_MARKER) {
+      addNotificationUnread(getWebviewPanelId(webview));
+    } else if (message === MEDIA_PLAY_MARKER) {
+      handleMediaPlay(getWebviewPanelId(webview));
+    }
+  });
+
+  // ショートカットの操作対象にするため、フォーカスされたパネルを記録
+  webview.addEventListener('focus', () => {
+    focusedPanelId = getWebviewPanelId(webview);
+    // パネルを操作したら通知の未読は既読とみなす
+    clearNotificationUnread(focusedPanelId);
+    markPanelActive(focusedPanelId);
+  });
+
+  // クラッシュ・応答なし・読み込み失敗はパネル内に表示して復旧できるようにする
+  webview.addEventListener('render-process-gone', (event) => {
+    const { details } = event as Event & { details: { reason: string } };
+    handlePanelCrash(webview, details.reason);
+  });
+
+  webview.addEventListener('unresponsive', () => {
+    handlePanelUnresponsive(webview);
+  });
+
+  webview.addEventListener('responsive', () => {
+    const panel = webview.closest<HTMLElement>('[data-sns]');
+    if (panel?.dataset.error === 'unresponsive') {
+      clearPanelError(panel);
+    }
+  });
+
+  webview.addEventListener('did-fail-load', (event) => {
+    const e = event as Event & {
+      errorCode: number;
+      errorDescription: string;
+      validatedURL: string;
+      isMainFrame: boolean;
+    };
+    console.error('Webview failed to load:', e.errorCode, e.errorDescription, e.validatedURL);
+    // 中断（ERR_ABORTED）やサブフレームの失敗はページの表示に影響しないため無視する
+    if (!e.isMainFrame || e.errorCode === -3) return;
+    handlePanelLoadFailure(webview, e.errorDescription || `エラー ${e.errorCode}`, e.validatedURL);
+  });
+
+  // 読み込みを始めたらエラー表示を消す（失敗した場合は did-fail-load で再表示する）
+  webview.addEventListener('did-start-loading', () => {
+    const panel = webview.closest<HTMLElement>('[data-sns]');
+    if (panel) clearPanelError(panel);
+  });
+}
+
+/**
+ * ウィンドウリサイズ時にズームを再調整
+ */
+function setupResizeObserver(): void {
+  const resizeObserver = new ResizeObserver(() => {
+    // 読み込み済みのwebviewに対してズームを適用
+    getReadyWebviews().forEach((webview) => {
       const isDesktop = webview.classList.contains('webview-desktop');
       adjustWebviewZoom(webview, isDesktop);
     });
+    // グリッドのスプリッターはトラックの位置に合わせて配置し直す
+    positionGridSplitters();
   });
 
   // container の監視を開始
@@ -218,22 +1346,214 @@ function setupResizeObserver(): void {
 }
 
 /**
- * ピンボタンを現在のメインパネルに移動する
+ * サービスIDからサービス定義を取得
  */
-function movePinButtonToMainPanel(): void {
-  const pinButton = document.querySelector<HTMLElement>('.pin-button');
-  const mainPanel = document.querySelector<HTMLElement>('.main-panel');
-  if (pinButton && mainPanel && pinButton.parentElement !== mainPanel) {
-    mainPanel.insertBefore(pinButton, mainPanel.firstChild);
+function getService(id: string): ServiceDefinition | undefined {
+  return services.find((service) => service.id === id);
+}
+
+/**
+ * サービスIDからパネルを取得
+ */
+function getPanel(id: string): HTMLElement | null {
+  return document.querySelector<HTMLElement>(`[data-sns="${CSS.escape(id)}"]`);
+}
+
+/**
+ * パネルのヘッダー表示をサービス定義に合わせる
+ */
+function updatePanelHeader(panel: HTMLElement, service: ServiceDefinition): void {
+  const icon = panel.querySelector<HTMLElement>('.panel-icon');
+  const title = panel.querySelector<HTMLElement>('.panel-title');
+  const profile = panel.querySelector<HTMLElement>('.panel-profile');
+  if (icon) icon.textContent = service.icon;
+  if (title) title.textContent = service.name;
+  // 既定以外のプロファイルはどのアカウントかわかるように表示する
+  if (profile) {
+    const isDefault = !service.profile || service.profile === DEFAULT_PROFILE;
+    profile.textContent = isDefault ? '' : service.profile || '';
+    profile.hidden = isDefault;
   }
 }
 
 /**
- * 現在のレイアウトを保存する
+ * サービス定義から webview を作成する
+ * パーティションはサービスのプロファイルごとに分ける
+ */
+function createWebview(service: ServiceDefinition): WebviewTag {
+  const webview = document.createElement('webview') as WebviewTag;
+  webview.id = `webview-${service.id}`;
+  webview.className = 'webview';
+  webview.setAttribute('partition', getPartitionName(service.profile));
+  webview.setAttribute('allowpopups', '');
+  const url = resolveStartUrl(service, lastUrls);
+  if (isStartingUp) {
+    // 起動中は読み込みを遅らせ、loadPanelsInOrder で順に読み込む
+    webview.dataset.pendingSrc = url;
+  } else {
+    webview.setAttribute('src', url);
+  }
+  initializeWebview(webview);
+  return webview;
+}
+
+/**
+ * パネルの webview を作り直す
+ * partition は読み込み後に変更できないため、プロファイル変更時は webview ごと置き換える
+ */
+function replacePanelWebview(panel: HTMLElement, service: ServiceDefinition): void {
+  // 休止中の場合は先に再開して表示モードを引き継ぐ
+  wakePanel(panel);
+  const current = panel.querySelector<WebviewTag>('.webview');
+  const webview = createWebview(service);
+  if (current) {
+    // 表示モードを引き継ぐ
+    webview.className = current.className;
+    if (current.classList.contains('webview-mobile')) {
+      webview.setAttribute('useragent', MOBILE_USER_AGENT);
+    }
+    current.replaceWith(webview);
+  } else {
+    panel.appendChild(webview);
+  }
+}
+
+/**
+ * パネルヘッダーのズーム・音量コントロールを作成する
+ */
+function createPanelControls(): HTMLElement {
+  const controls = document.createElement('div');
+  controls.className = 'panel-controls';
+
+  // 表示値は updatePanelControls で設定する
+  const items: [string, string, string][] = [
+    ['panel-refresh', '', 'クリックで今すぐ更新'],
+    ['panel-zoom-out', '−', '縮小'],
+    ['panel-zoom-level', '', 'クリックで統一ズームに戻す'],
+    ['panel-zoom-in', '+', '拡大'],
+    ['panel-volume-down', '', '音量下げる'],
+    ['panel-volume-level', '', 'クリックで統一音量に戻す'],
+    ['panel-volume-up', '🔊', '音量上げる'],
+    ['panel-mute', '🔇', 'このパネルをミュート'],
+    ['panel-solo', '🎧', 'このパネルだけ音声を出す'],
+    ['panel-open-in', '⇱', 'このページを他のパネルで開く'],
+  ];
+  items.forEach(([className, text, title]) => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = `panel-control-btn ${className}`;
+    button.textContent = text;
+    button.title = title;
+    // 自動更新のカウントダウンは自動更新が有効な場合のみ表示する
+    button.hidden = className === 'panel-refresh';
+    controls.appendChild(button);
+  });
+  return controls;
+}
+
+/**
+ * サービス定義からパネルを作成する
+ * 配置前の状態で返すため、applyPanelType と DOM への挿入は呼び出し側で行う
+ */
+function createPanel(service: ServiceDefinition): HTMLElement {
+  const panel = document.createElement('div');
+  panel.dataset.sns = service.id;
+
+  const header = document.createElement('div');
+  header.className = 'panel-header';
+  // ヘッダーをドラッグして他のスロットへ移動できる
+  header.draggable = true;
+  const icon = document.createElement('span');
+  icon.className = 'panel-icon';
+  const title = document.createElement('span');
+  title.className = 'panel-title';
+  const profile = document.createElement('span');
+  profile.className = 'panel-profile';
+  const badge = document.createElement('span');
+  badge.className = 'panel-badge';
+  badge.hidden = true;
+  const blocked = document.createElement('span');
+  blocked.className = 'panel-blocked';
+  blocked.hidden = true;
+  header.append(icon, title, profile, badge, blocked, createPanelControls());
+
+  panel.append(header, createPanelToolbar(), createPanelSkeleton(), createWebview(service));
+  panel.classList.add('loading');
+  updatePanelHeader(panel, service);
+  updatePanelControls(panel);
+  return panel;
+}
+
+/**
+ * パネルタイプに応じてパネルと webview のクラス、User-Agent を設定する
+ */
+function applyPanelType(panel: HTMLElement, panelType: 'main' | 'secondary' | 'sub'): void {
+  const service = getService(panel.dataset.sns || '');
+  applyPanelPlacement(
+    panel,
+    [getPanelClassByType(panelType)],
+    isDesktopMode(service?.defaultMode ?? 'auto', panelType)
+  );
+}
+
+/**
+ * パネルの配置クラスと webview の表示モード（クラス、User-Agent）を設定する
+ */
+function applyPanelPlacement(panel: HTMLElement, panelClasses: string[], isDesktop: boolean): void {
+  panel.classList.remove(
+    'main-panel',
+    'secondary-panel',
+    'sub-panel',
+    'grid-panel',
+    'parked-panel'
+  );
+  panel.classList.add(...panelClasses);
+  // 休止中のパネルを再開するときに表示モードを復元する
+  panel.dataset.mode = isDesktop ? 'desktop' : 'mobile';
+
+  const webview = panel.querySelector<WebviewTag>('.webview');
+  if (!webview) return;
+
+  webview.classList.remove('webview-desktop', 'webview-mobile');
+  webview.classList.add(isDesktop ? 'webview-desktop' : 'webview-mobile');
+
+  const userAgent = isDesktop ? '' : MOBILE_USER_AGENT;
+  if (readyWebviews.has(webview)) {
+    webview.setUserAgent(userAgent);
+  } else if (userAgent) {
+    // 読み込み前なら初回リクエストからモバイル版を要求する
+    webview.setAttribute('useragent', userAgent);
+  } else {
+    webview.removeAttribute('useragent');
+  }
+}
+
+/**
+ * コンテナ内のパネルを指定順に並べる
+ * webview は DOM 移動で再読み込みされるため、位置が変わるパネルだけを移動する
+ */
+function placePanels(container: HTMLElement, panels: HTMLElement[]): void {
+  panels.forEach((panel, index) => {
+    const current = container.querySelectorAll<HTMLElement>(':scope > [data-sns]')[index];
+    if (current !== panel) {
+      container.insertBefore(panel, current ?? null);
+    }
+  });
+}
+
+/**
+ * 現在のスロット順（DOM 上の並び）を取得する
  * slots[0] = メイン, slots[1] = セカンダリ, slots[2..] = サブ
  */
-async function saveLayout(): Promise<void> {
-  if (!mainView || !subViews) return;
+function getCurrentSlots(): string[] {
+  if (layoutGrid && gridView) {
+    // グリッドではスロット番号順
+    return Array.from(gridView.querySelectorAll<HTMLElement>(':scope > [data-sns]'))
+      .sort((a, b) => Number(a.dataset.slot) - Number(b.dataset.slot))
+      .map((panel) => panel.dataset.sns || '');
+  }
+
+  if (!mainView || !subViews) return [];
 
   const slots: string[] = [];
 
@@ -249,68 +1569,221 @@ async function saveLayout(): Promise<void> {
   const subPanels = subViews.querySelectorAll<HTMLElement>('.sub-panel');
   subPanels.forEach((panel) => slots.push(panel.dataset.sns || ''));
 
-  console.log('Saving layout:', slots);
-  await api.setConfig(STORAGE_KEY_LAYOUT, { slots });
+  return slots.filter((id) => id !== '');
 }
 
 /**
- * 保存されたレイアウトを復元する
+ * スロット順にパネルを配置する
+ * 未作成のパネルはサービス定義から作成し、登録されていないパネルは削除する
+ * grid を指定した場合はグリッドレイアウト、省略した場合は classic レイアウトで配置する
  */
-async function restoreLayout(): Promise<void> {
+function applyLayout(slots: string[], grid?: GridDefinition): void {
+  if (!mainView || !subViews || !gridView) return;
+
+  const ids = normalizeLayoutSlots(
+    slots,
+    services.map((service) => service.id)
+  );
+
+  // ピンボタンがパネルごと削除されないよう退避
+  const pinButton = document.querySelector<HTMLElement>('.pin-button');
+  if (pinButton) mainView.appendChild(pinButton);
+
+  // 登録解除されたサービスのパネルを削除
+  document.querySelectorAll<HTMLElement>('[data-sns]').forEach((panel) => {
+    if (!ids.includes(panel.dataset.sns || '')) panel.remove();
+  });
+
+  layoutGrid = grid;
+  document.body.classList.toggle('layout-grid', !!grid);
+  if (grid) {
+    applyGridLayout(ids, grid);
+  } else {
+    applyClassicLayout(ids);
+  }
+
+  // ピンボタンを新しいメインパネルに移動
+  movePinButtonToMainPanel();
+
+  // メインパネルは休止させない
+  const mainPanel = getPanel(ids[0] ?? '');
+  if (mainPanel) wakePanel(mainPanel);
+  loadVisiblePendingPanels();
+
+  // パネルサイズの比率とスプリッターを反映
+  renderSplitters();
+
+  // メインパネルが変わった場合に音声の出力先を切り替える
+  applyAudioPolicy();
+}
+
+/**
+ * classic レイアウト（メイン + セカンダリ + サブ）でパネルを配置する
+ */
+function applyClassicLayout(ids: string[]): void {
   if (!mainView || !subViews) return;
 
-  const config = await api.getConfig(STORAGE_KEY_LAYOUT);
-  console.log('Restoring layout:', config);
-  if (!isValidLayoutConfig(config)) return;
+  const mainPanels: HTMLElement[] = [];
+  const subPanels: HTMLElement[] = [];
+  ids.forEach((id, index) => {
+    const service = getService(id);
+    if (!service) return;
 
-  try {
-    // SNS名からパネルを取得するマップ
-    const panelMap = new Map<string, HTMLElement>();
-    document.querySelectorAll<HTMLElement>('[data-sns]').forEach((panel) => {
-      if (panel.dataset.sns) panelMap.set(panel.dataset.sns, panel);
-    });
+    const panel = getPanel(id) ?? createPanel(service);
+    const panelType = getPanelTypeByIndex(index);
+    applyPanelType(panel, panelType);
+    // グリッド用の配置を解除
+    panel.style.gridArea = '';
+    panel.style.order = '';
+    delete panel.dataset.slot;
+    if (panelType === 'sub') {
+      subPanels.push(panel);
+    } else {
+      mainPanels.push(panel);
+    }
+  });
 
-    // 全パネルのクラスをリセット
-    panelMap.forEach((panel) => {
-      panel.classList.remove('main-panel', 'secondary-panel', 'sub-panel');
-      const webview = panel.querySelector<WebviewTag>('.webview');
-      if (webview) {
-        webview.classList.remove('webview-desktop', 'webview-mobile');
-      }
-    });
+  placePanels(mainView, mainPanels);
+  placePanels(subViews, subPanels);
+}
 
-    // スロット順にパネルを配置
-    config.slots.forEach((sns: string, index: number) => {
-      const panel = panelMap.get(sns);
-      if (!panel) return;
+/**
+ * グリッドレイアウトでパネルを配置する
+ * セルより多いパネルはヘッダーのみの格納パネルとしてグリッド下部に並べる
+ * DOM 上の順序は変えず grid-area / order で配置するため、入れ替えで webview は再読み込みされない
+ */
+function applyGridLayout(ids: string[], grid: GridDefinition): void {
+  if (!gridView) return;
 
-      const panelType = getPanelTypeByIndex(index);
-      const panelClass = getPanelClassByType(panelType);
-      const webviewClass = getWebviewClassByPanelType(panelType);
-      const webview = panel.querySelector<WebviewTag>('.webview');
+  ids.forEach((id, index) => {
+    const service = getService(id);
+    if (!service) return;
 
-      panel.classList.add(panelClass);
-      if (webview) {
-        webview.classList.add(webviewClass);
-      }
+    const panel = getPanel(id) ?? createPanel(service);
+    const cell = grid.cells[index];
+    const mode = service.defaultMode;
+    if (cell) {
+      const classes = index === 0 ? ['grid-panel', 'main-panel'] : ['grid-panel'];
+      applyPanelPlacement(panel, classes, isDesktopGridCell(mode, cell));
+      panel.style.gridArea = getGridArea(cell);
+    } else {
+      applyPanelPlacement(panel, ['grid-panel', 'parked-panel'], mode === 'desktop');
+      panel.style.gridArea = '';
+    }
+    panel.dataset.slot = String(index);
+    panel.style.order = String(index);
 
-      // DOM配置
-      if (panelType === 'main') {
-        mainView.insertBefore(panel, mainView.firstChild);
-      } else if (panelType === 'secondary') {
-        mainView.appendChild(panel);
-      } else {
-        subViews.appendChild(panel);
-      }
-    });
+    if (panel.parentElement !== gridView) {
+      gridView.appendChild(panel);
+    }
+  });
+}
+
+/**
+ * 現在のレイアウト設定を取得する
+ */
+function getCurrentLayout(): LayoutConfig {
+  const layout: LayoutConfig = { slots: getCurrentSlots() };
+  if (layoutGrid) layout.grid = layoutGrid;
+  if (Object.keys(layoutSplits).length > 0) layout.splits = layoutSplits;
+  return layout;
+}
+
+/**
+ * グリッドレイアウトでパネルをメイン（スロット 0）と入れ替える
+ */
+async function promoteGridPanel(panel: HTMLElement): Promise<void> {
+  // ピン固定時は切り替え無効
+  if (isPinned || !layoutGrid) return;
+
+  const slots = getCurrentSlots();
+  const index = slots.indexOf(panel.dataset.sns || '');
+  if (index <= 0) return;
+
+  applyLayout(swapSlots(slots, 0, index), layoutGrid);
+
+  // ズームを再調整
+  setTimeout(applyGlobalZoom, 100);
+
+  // レイアウトを保存
+  await saveLayout();
+}
+
+/**
+ * レイアウトテンプレートを切り替える
+ */
+async function changeLayoutTemplate(
+  template: LayoutTemplateId,
+  columns?: number,
+  rows?: number
+): Promise<void> {
+  // グリッドの行・列の比率は新しいグリッドに引き継がない
+  const { gridColumns: _columns, gridRows: _rows, ...classicSplits } = layoutSplits;
+  layoutSplits = classicSplits;
+  applyLayout(getCurrentSlots(), getLayoutTemplate(template, columns, rows));
+  renderLayoutTemplateControls();
+  setTimeout(applyGlobalZoom, 100);
+  await saveLayout();
+}
+
+/**
+ * ピンボタンを現在のメインパネルに移動する
+ */
+function movePinButtonToMainPanel(): void {
+  const pinButton = document.querySelector<HTMLElement>('.pin-button');
+  const mainPanel = document.querySelector<HTMLElement>('.main-panel');
+  if (pinButton && mainPanel && pinButton.parentElement !== mainPanel) {
+    mainPanel.insertBefore(pinButton, mainPanel.firstChild);
+  }
+}
+
+/**
+ * 現在のレイアウトを保存する
+ * slots[0] = メイン, slots[1] = セカンダリ, slots[2..] = サブ（グリッドの場合はセル順）
+ */
+async function saveLayout(): Promise<void> {
+  const layout = getCurrentLayout();
+  console.log('Saving layout:', layout);
+  await api.setConfig(STORAGE_KEY_LAYOUT, layout);
+}
+
+/**
+ * 保存されたレイアウトを復元する
+ * 保存されていない場合はサービスの登録順で配置する
+ */
+async function restoreLayout(): Promise<void> {
+  const config = await api.getConfig(STORAGE_KEY_LAYOUT);
+  console.log('Restoring layout:', config);
 
-    // ピンボタンを新しいメインパネルに移動
-    movePinButtonToMainPanel();
+  try {
+    if (isValidLayoutConfig(config)) {
+      layoutSplits = config.splits ?? {};
+      applyLayout(config.slots, config.grid);
+    } else {
+      applyLayout([]);
+    }
   } catch (e) {
     console.error('Failed to restore layout:', e);
   }
 }
 
+/**
+ * サービス一覧を保存する
+ */
+async function saveServices(): Promise<void> {
+  await api.setConfig(STORAGE_KEY_SERVICES, services);
+}
+
+/**
+ * サービス一覧を復元する
+ */
+async function restoreServices(): Promise<void> {
+  const config = await api.getConfig(STORAGE_KEY_SERVICES);
+  if (isValidServiceList(config)) {
+    services = config;
+  }
+}
+
 /**
  * ピン止め状態を保存する
  */
@@ -324,12 +1797,7 @@ async function savePinnedState(): Promise<void> {
 async function restorePinnedState(): Promise<void> {
   const pinned = await api.getConfig(STORAGE_KEY_PINNED);
   if (pinned) {
-    isPinned = true;
-    const pinButton = document.querySelector<HTMLElement>('.pin-button');
-    if (pinButton) {
-      pinButton.classList.add('pinned');
-    }
-    document.body.classList.add('pinned');
+    setPinned(true);
   }
 }
 
@@ -346,6 +1814,16 @@ function createPlaceholder(element: HTMLElement): HTMLElement {
   return placeholder;
 }
 
+/**
+ * パネル内の webview のズームを現在のクラスに合わせて再調整する
+ */
+function readjustPanelZoom(panel: HTMLElement): void {
+  const webview = panel.querySelector<WebviewTag>('.webview');
+  if (webview && readyWebviews.has(webview)) {
+    adjustWebviewZoom(webview, webview.classList.contains('webview-desktop'));
+  }
+}
+
 /**
  * セカンダリパネルとメインパネルを入れ替える
  */
@@ -357,9 +1835,6 @@ async function swapWithSecondary(secondaryPanel: HTMLElement): Promise<void> {
   const mainPanel = mainView.querySelector<HTMLElement>('.main-panel');
   if (!mainPanel) return;
 
-  const mainWebview = mainPanel.querySelector<WebviewTag>('.webview');
-  const secondaryWebview = secondaryPanel.querySelector<WebviewTag>('.webview');
-
   // プレースホルダーを作成（入れ替え後のサイズで）
   const mainPlaceholder = createPlaceholder(secondaryPanel); // メインの位置にセカンダリサイズ
   const secondaryPlaceholder = createPlaceholder(mainPanel); // セカンダリの位置にメインサイズ
@@ -370,22 +1845,9 @@ async function swapWithSecondary(secondaryPanel: HTMLElement): Promise<void> {
   mainPanel.style.display = 'none';
   secondaryPanel.style.display = 'none';
 
-  // クラスを入れ替え
-  mainPanel.classList.remove('main-panel');
-  mainPanel.classList.add('secondary-panel');
-  secondaryPanel.classList.remove('secondary-panel');
-  secondaryPanel.classList.add('main-panel');
-
-  // webview のクラスを入れ替え
-  if (mainWebview && secondaryWebview) {
-    mainWebview.classList.remove('webview-desktop');
-    mainWebview.classList.add('webview-mobile');
-    mainWebview.setUserAgent(MOBILE_USER_AGENT);
-
-    secondaryWebview.classList.remove('webview-mobile');
-    secondaryWebview.classList.add('webview-desktop');
-    secondaryWebview.setUserAgent('');
-  }
+  // パネルと webview のクラスを入れ替え
+  applyPanelType(mainPanel, 'secondary');
+  applyPanelType(secondaryPanel, 'main');
 
   // DOM 位置を入れ替え（プレースホルダーの位置に）
   mainPlaceholder.replaceWith(secondaryPanel);
@@ -395,16 +1857,23 @@ async function swapWithSecondary(secondaryPanel: HTMLElement): Promise<void> {
   mainPanel.style.display = '';
   secondaryPanel.style.display = '';
 
+  // 休止中のパネルはメインになったら再開する
+  wakePanel(secondaryPanel);
+
   // ピンボタンを新しいメインパネルに移動
   movePinButtonToMainPanel();
 
+  // 音声の出力先をメインパネルの変更に合わせる
+  applyAudioPolicy();
+
+  // パネルサイズの比率を入れ替え後の位置に反映
+  renderSplitters();
+
   // ズームを再調整
-  if (mainWebview && secondaryWebview) {
-    setTimeout(() => {
-      adjustWebviewZoom(mainWebview, false);
-      adjustWebviewZoom(secondaryWebview, true);
-    }, 100);
-  }
+  setTimeout(() => {
+    readjustPanelZoom(mainPanel);
+    readjustPanelZoom(secondaryPanel);
+  }, 100);
 
   // レイアウトを保存
   await saveLayout();
@@ -421,27 +1890,10 @@ async function swapPanels(clickedSubPanel: HTMLElement): Promise<void> {
   const currentMainPanel = mainView.querySelector<HTMLElement>('.main-panel');
   if (!currentMainPanel) return;
 
-  // webview のクラスを入れ替え
-  const mainWebview = currentMainPanel.querySelector<WebviewTag>('.webview');
-  const subWebview = clickedSubPanel.querySelector<WebviewTag>('.webview');
-
-  if (mainWebview && subWebview) {
-    // メインからサブへ: デスクトップ -> モバイル
-    mainWebview.classList.remove('webview-desktop');
-    mainWebview.classList.add('webview-mobile');
-    mainWebview.setUserAgent(MOBILE_USER_AGENT);
-
-    // サブからメインへ: モバイル -> デスクトップ
-    subWebview.classList.remove('webview-mobile');
-    subWebview.classList.add('webview-desktop');
-    subWebview.setUserAgent(''); // デフォルトに戻す
-  }
-
-  // パネルのクラスを入れ替え
-  currentMainPanel.classList.remove('main-panel');
-  currentMainPanel.classList.add('sub-panel');
-  clickedSubPanel.classList.remove('sub-panel');
-  clickedSubPanel.classList.add('main-panel');
+  // パネルと webview のクラスを入れ替え
+  // メインからサブへ: デスクトップ -> モバイル、サブからメインへ: モバイル -> デスクトップ
+  applyPanelType(currentMainPanel, 'sub');
+  applyPanelType(clickedSubPanel, 'main');
 
   // サブパネルの位置を記録
   const subPanelIndex = Array.from(subViews.children).indexOf(clickedSubPanel);
@@ -463,13 +1915,22 @@ async function swapPanels(clickedSubPanel: HTMLElement): Promise<void> {
     subViews.appendChild(currentMainPanel);
   }
 
+  // 休止中のパネルはメインになったら再開する
+  wakePanel(clickedSubPanel);
+
   // ピンボタンを新しいメインパネルに移動
   movePinButtonToMainPanel();
 
+  // 音声の出力先をメインパネルの変更に合わせる
+  applyAudioPolicy();
+
+  // パネルサイズの比率を入れ替え後の位置に反映
+  renderSplitters();
+
   // ズームを再調整
   setTimeout(() => {
-    if (mainWebview) adjustWebviewZoom(mainWebview, false);
-    if (subWebview) adjustWebviewZoom(subWebview, true);
+    readjustPanelZoom(currentMainPanel);
+    readjustPanelZoom(clickedSubPanel);
   }, 100);
 
   // レイアウトを保存
@@ -488,9 +1949,16 @@ document.addEventListener('click', (event) => {
     return;
   }
 
-  // ヘッダー部分のクリックのみ入れ替えを実行
+  // ヘッダー部分のクリックのみ入れ替えを実行（ヘッダー内のコントロールは除く）
   const header = target.closest<HTMLElement>('.panel-header');
-  if (!header) return;
+  if (!header || target.closest('.panel-controls')) return;
+
+  // グリッドレイアウトのパネルはメイン（スロット 0）と入れ替え
+  const gridPanel = target.closest<HTMLElement>('.grid-panel');
+  if (gridPanel) {
+    promoteGridPanel(gridPanel);
+    return;
+  }
 
   // サブパネルのヘッダークリック
   const subPanel = target.closest<HTMLElement>('.sub-panel');
@@ -507,245 +1975,3697 @@ document.addEventListener('click', (event) => {
   }
 });
 
-/**
- * webview のエラーハンドリングとポップアップ処理
- */
-const webviews = document.querySelectorAll<WebviewTag>('.webview');
-webviews.forEach((webview) => {
-  webview.addEventListener('did-fail-load', (event) => {
-    console.error('Webview failed to load:', event);
-  });
+// ===== 未読バッジ =====
 
-  // 認証ポップアップなどの新しいウィンドウを同じwebview内で開く
-  webview.addEventListener('new-window', (event: Event) => {
-    const e = event as CustomEvent & { url: string; disposition: string };
-    // 認証関連のURLは同じwebviewで開く
-    if (e.url) {
-      e.preventDefault?.();
-      webview.setAttribute('src', e.url);
-    }
-  });
-});
+// ページ内の Web 通知を検知したときに console に出力するマーカー
+const NOTIFICATION_MARKER = '__sns-viewer-notification__';
 
-/**
- * ピン止め状態を切り替える
- */
-async function togglePin(): Promise<void> {
-  isPinned = !isPinned;
+// サービスごとの未読件数（タイトルの件数と、未確認の Web 通知の数）
+const unreadCounts = new Map<string, { title: number; notifications: number }>();
 
-  const pinButton = document.querySelector<HTMLElement>('.pin-button');
-  if (pinButton) {
-    pinButton.classList.toggle('pinned', isPinned);
-  }
+// ウィンドウに通知済みの合計未読件数
+let reportedUnreadTotal = -1;
 
-  // body にピン固定クラスを付与（CSSで制御）
-  document.body.classList.toggle('pinned', isPinned);
+/**
+ * ページの Notification を置き換え、通知の作成を console に出力させる
+ * 通知自体はそのまま表示する
+ *
+ * 置き換えられるのはページ（メインワールド）の API のみで、Service Worker の中から
+ * 表示されるプッシュ通知（X・Instagram などの通常の経路）は数えられない。
+ * Electron にはセッション単位で Service Worker の通知を検知する API がないため、
+ * そうしたサービスの未読件数は主にタイトルの件数に頼る
+ */
+function hookWebNotifications(webview: WebviewTag): void {
+  webview
+    .executeJavaScript(
+      `
+    (function() {
+      if (window.__notificationHooked) return;
+      window.__notificationHooked = true;
+      const marker = ${JSON.stringify(NOTIFICATION_MARKER)};
+      if (typeof window.Notification === 'function') {
+        window.Notification = new Proxy(window.Notification, {
+          construct(target, args) {
+            console.debug(marker);
+            return Reflect.construct(target, args);
+          }
+        });
+      }
+      // Service Worker 経由の通知
+      if (window.ServiceWorkerRegistration) {
+        const showNotification = ServiceWorkerRegistration.prototype.showNotification;
+        ServiceWorkerRegistration.prototype.showNotification = function(...args) {
+          console.debug(marker);
+          return showNotification.apply(this, args);
+        };
+      }
+    })();
+  `
+    )
+    .catch(() => {
+      // 読み込み中に移動したページでは次の dom-ready で置き換える
+    });
+}
 
-  // ピン止め状態を保存
-  await savePinnedState();
+/**
+ * サービスの未読件数を取得する
+ * タイトルの件数と通知の数は同じ更新を数えていることが多いため、大きい方を使う
+ */
+function getUnreadCount(id: string): number {
+  const counts = unreadCounts.get(id);
+  return counts ? Math.max(counts.title, counts.notifications) : 0;
 }
 
 /**
- * ピンボタンのイベントリスナー（イベント委譲）
+ * タイトルから取得した未読件数を設定する
  */
-document.addEventListener('click', (event) => {
+function setTitleUnreadCount(id: string, count: number): void {
+  const counts = unreadCounts.get(id) ?? { title: 0, notifications: 0 };
+  unreadCounts.set(id, { ...counts, title: count });
+  updateUnreadBadge(id);
+}
+
+/**
+ * Web 通知の未読を 1 件追加する
+ * フォーカス中のパネルの通知は数えない
+ */
+function addNotificationUnread(id: string): void {
+  if (id === focusedPanelId && document.hasFocus()) return;
+  const counts = unreadCounts.get(id) ?? { title: 0, notifications: 0 };
+  unreadCounts.set(id, { ...counts, notifications: counts.notifications + 1 });
+  updateUnreadBadge(id);
+}
+
+/**
+ * Web 通知の未読をクリアする
+ */
+function clearNotificationUnread(id: string): void {
+  const counts = unreadCounts.get(id);
+  if (!counts || counts.notifications === 0) return;
+  unreadCounts.set(id, { ...counts, notifications: 0 });
+  updateUnreadBadge(id);
+}
+
+/**
+ * パネルヘッダーの未読バッジを更新し、合計をウィンドウに反映する
+ */
+function updateUnreadBadge(id: string): void {
+  const badge = getPanel(id)?.querySelector<HTMLElement>('.panel-badge');
+  const count = getUnreadCount(id);
+  if (badge) {
+    badge.textContent = formatUnreadCount(count);
+    badge.title = `未読 ${count} 件（タイトルの件数とページ内の通知から数えています。Service Worker のプッシュ通知は含みません）`;
+    badge.hidden = count === 0;
+  }
+  updateUnreadTotal();
+}
+
+/**
+ * 全サービスの未読件数の合計をメインプロセスに送る（タスクバー・ドックのバッジ）
+ */
+function updateUnreadTotal(): void {
+  const total = services.reduce((sum, service) => sum + getUnreadCount(service.id), 0);
+  if (total === reportedUnreadTotal) return;
+  reportedUnreadTotal = total;
+  api.setUnreadCount(total);
+}
+
+// ===== 自動更新 =====
+
+// サービスごとの次回の自動更新の時刻（ミリ秒）
+const refreshDeadlines = new Map<string, number>();
+
+/**
+ * 自動更新のカウントダウンをやり直す
+ */
+function resetRefreshTimer(id: string): void {
+  const refresh = getService(id)?.refresh;
+  if (refresh) {
+    refreshDeadlines.set(id, Date.now() + refresh.intervalMinutes * 60 * 1000);
+  } else {
+    refreshDeadlines.delete(id);
+  }
+  updateRefreshIndicator(id);
+}
+
+/**
+ * パネルヘッダーの自動更新のカウントダウンを更新する
+ */
+function updateRefreshIndicator(id: string): void {
+  const button = getPanel(id)?.querySelector<HTMLElement>('.panel-refresh');
+  if (!button) return;
+
+  const deadline = refreshDeadlines.get(id);
+  button.hidden = deadline === undefined;
+  if (deadline !== undefined) {
+    button.textContent = `⟳ ${formatCountdown(deadline - Date.now())}`;
+  }
+}
+
+/**
+ * webview でメディアを再生中かどうか
+ */
+async function isPlayingMedia(webview: WebviewTag): Promise<boolean> {
+  try {
+    const playing = await webview.executeJavaScript(
+      `Array.from(document.querySelectorAll('video, audio')).some((media) => !media.paused && !media.ended)`
+    );
+    return playing === true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 自動更新の時刻になったパネルを更新する
+ * 条件（フォーカス中・再生中）に当てはまる場合はその回を見送り、次の間隔まで待つ
+ */
+async function refreshPanel(id: string, refresh: RefreshSettings): Promise<void> {
+  const webview = getPanel(id)?.querySelector<WebviewTag>('.webview');
+  resetRefreshTimer(id);
+  if (!webview || !readyWebviews.has(webview)) return;
+
+  if (refresh.skipWhenFocused && focusedPanelId === id && document.hasFocus()) return;
+  if (refresh.skipWhenPlaying && (await isPlayingMedia(webview))) return;
+
+  webview.reload();
+}
+
+/**
+ * 1 秒ごとにカウントダウンを進め、時刻になったパネルを更新する
+ */
+function tickRefreshTimers(): void {
+  const now = Date.now();
+  services.forEach((service) => {
+    if (!service.refresh) return;
+    const deadline = refreshDeadlines.get(service.id);
+    if (deadline === undefined) {
+      resetRefreshTimer(service.id);
+    } else if (now >= deadline) {
+      refreshPanel(service.id, service.refresh);
+    } else {
+      updateRefreshIndicator(service.id);
+    }
+  });
+}
+
+/**
+ * 自動更新を開始する
+ */
+function startRefreshScheduler(): void {
+  setInterval(tickRefreshTimers, 1000);
+}
+
+/**
+ * カウントダウンのクリックで今すぐ更新する
+ */
+document.addEventListener('click', (event) => {
+  const target = event.target as HTMLElement;
+  const panel = target.closest<HTMLElement>('[data-sns]');
+  if (!panel || !target.closest('.panel-refresh')) return;
+
+  resetRefreshTimer(panel.dataset.sns || '');
+  const webview = panel.querySelector<WebviewTag>('.webview');
+  if (webview && readyWebviews.has(webview)) webview.reload();
+});
+
+// ===== ナビゲーションツールバー =====
+
+// パネルにナビゲーションツールバーを表示するか
+let showNavigationToolbar = false;
+
+/**
+ * パネルのナビゲーションツールバーを作成する
+ * 表示は body の show-toolbar クラスで切り替える
+ */
+function createPanelToolbar(): HTMLElement {
+  const toolbar = document.createElement('div');
+  toolbar.className = 'panel-toolbar';
+
+  const createButton = (className: string, text: string, title: string): HTMLButtonElement => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = `panel-control-btn ${className}`;
+    button.textContent = text;
+    button.title = title;
+    return button;
+  };
+
+  const url = document.createElement('input');
+  url.className = 'panel-url';
+  url.type = 'text';
+  url.spellcheck = false;
+  url.title = 'Enter で移動（Esc で元に戻す）';
+
+  toolbar.append(
+    createButton('panel-nav-back', '←', '戻る'),
+    createButton('panel-nav-forward', '→', '進む'),
+    createButton('panel-nav-reload', '↻', '再読み込み'),
+    createButton('panel-nav-home', '⌂', 'サービスのトップに戻る'),
+    url,
+    createButton('panel-nav-copy', '🔗', 'リンクをコピー')
+  );
+  return toolbar;
+}
+
+/**
+ * ツールバーの URL と戻る・進むボタンの状態を webview に合わせる
+ */
+function updateNavigationToolbar(webview: WebviewTag): void {
+  const toolbar = webview.closest('[data-sns]')?.querySelector('.panel-toolbar');
+  if (!toolbar || !readyWebviews.has(webview)) return;
+
+  const back = toolbar.querySelector<HTMLButtonElement>('.panel-nav-back');
+  const forward = toolbar.querySelector<HTMLButtonElement>('.panel-nav-forward');
+  const url = toolbar.querySelector<HTMLInputElement>('.panel-url');
+  if (back) back.disabled = !webview.canGoBack();
+  if (forward) forward.disabled = !webview.canGoForward();
+  // 入力中の URL は上書きしない
+  if (url && document.activeElement !== url) {
+    url.value = webview.getURL();
+    url.classList.remove('invalid');
+  }
+}
+
+/**
+ * パネルで表示中の URL を取得（休止中は再開時に読み込む URL）
+ */
+function getPanelUrl(panel: HTMLElement): string {
+  const id = panel.dataset.sns || '';
+  const webview = panel.querySelector<WebviewTag>('.webview');
+  if (webview && readyWebviews.has(webview)) return webview.getURL();
+  return hibernatedPanels.get(id)?.url || getService(id)?.url || '';
+}
+
+/**
+ * パネルで表示中のページのリンクをクリップボードにコピーする
+ */
+async function copyPanelLink(panel: HTMLElement, button: HTMLElement): Promise<void> {
+  const url = getPanelUrl(panel);
+  if (!url) return;
+  try {
+    await navigator.clipboard.writeText(url);
+    button.textContent = '✓';
+    setTimeout(() => {
+      button.textContent = '🔗';
+    }, 1000);
+  } catch (error) {
+    console.error('Failed to copy link:', error);
+  }
+}
+
+/**
+ * ナビゲーションツールバーの表示を保存
+ */
+async function saveNavigationToolbar(): Promise<void> {
+  await api.setConfig(STORAGE_KEY_NAVIGATION_TOOLBAR, showNavigationToolbar);
+}
+
+/**
+ * ナビゲーションツールバーの表示を復元
+ */
+async function restoreNavigationToolbar(): Promise<void> {
+  const show = await api.getConfig(STORAGE_KEY_NAVIGATION_TOOLBAR);
+  if (typeof show === 'boolean') {
+    setNavigationToolbarVisible(show);
+  }
+}
+
+/**
+ * ナビゲーションツールバーの表示を切り替える
+ */
+function setNavigationToolbarVisible(show: boolean): void {
+  showNavigationToolbar = show;
+  document.body.classList.toggle('show-toolbar', show);
+  const toggle = document.querySelector<HTMLInputElement>('.settings-panel .toolbar-toggle');
+  if (toggle) {
+    toggle.checked = show;
+  }
+  // webview の高さが変わるのでズームを再調整
+  document.querySelectorAll<HTMLElement>('[data-sns]').forEach(readjustPanelZoom);
+}
+
+/**
+ * ツールバーのボタン操作
+ * 休止中・読み込み前のパネルは再開してから操作する
+ */
+document.addEventListener('click', (event) => {
+  const button = (event.target as HTMLElement).closest<HTMLElement>(
+    '.panel-toolbar .panel-control-btn'
+  );
+  const panel = button?.closest<HTMLElement>('[data-sns]');
+  if (!button || !panel) return;
+
+  if (button.classList.contains('panel-nav-copy')) {
+    copyPanelLink(panel, button);
+    return;
+  }
+
+  const webview = panel.querySelector<WebviewTag>('.webview');
+  if (!webview || webview.dataset.pendingSrc) {
+    wakePanel(panel);
+    setTimeout(() => readjustPanelZoom(panel), 100);
+    return;
+  }
+  if (!readyWebviews.has(webview)) return;
+
+  markPanelActive(panel.dataset.sns || '');
+  if (button.classList.contains('panel-nav-back')) {
+    webview.goBack();
+  } else if (button.classList.contains('panel-nav-forward')) {
+    webview.goForward();
+  } else if (button.classList.contains('panel-nav-reload')) {
+    webview.reload();
+  } else if (button.classList.contains('panel-nav-home')) {
+    const service = getService(panel.dataset.sns || '');
+    if (service) {
+      webview.loadURL(service.url).catch(() => {
+        // 失敗した場合は did-fail-load で表示する
+      });
+    }
+  }
+});
+
+/**
+ * ツールバーの URL 欄: Enter で移動、Esc で表示中の URL に戻す
+ */
+document.addEventListener('keydown', (event) => {
+  const input = (event.target as HTMLElement).closest<HTMLInputElement>('.panel-url');
+  const panel = input?.closest<HTMLElement>('[data-sns]');
+  if (!input || !panel) return;
+
+  if (event.key === 'Escape') {
+    input.value = getPanelUrl(panel);
+    input.classList.remove('invalid');
+    input.blur();
+    return;
+  }
+  if (event.key !== 'Enter' || event.isComposing) return;
+
+  const url = normalizeNavigationUrl(input.value);
+  input.classList.toggle('invalid', url === null);
+  if (!url) return;
+
+  const webview = panel.querySelector<WebviewTag>('.webview');
+  if (!webview || !readyWebviews.has(webview)) return;
+  input.blur();
+  markPanelActive(panel.dataset.sns || '');
+  webview.loadURL(url).catch(() => {
+    // 失敗した場合は did-fail-load で表示する
+  });
+});
+
+/**
+ * ナビゲーションツールバーの表示の切り替え
+ */
+document.addEventListener('change', (event) => {
+  const toggle = (event.target as HTMLElement).closest<HTMLInputElement>('.toolbar-toggle');
+  if (!toggle) return;
+
+  setNavigationToolbarVisible(toggle.checked);
+  saveNavigationToolbar();
+});
+
+// ===== 前回の URL の復元 =====
+
+// サービスごとの最後に表示していた URL
+let lastUrls: LastUrls = {};
+
+// 保存の待ち時間（ミリ秒）。ページ内の遷移が続いても保存は 1 回にまとめる
+const LAST_URLS_SAVE_DELAY = 1000;
+
+let lastUrlsSaveTimer: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * 最後に表示していた URL を保存
+ */
+async function saveLastUrls(): Promise<void> {
+  await api.setConfig(STORAGE_KEY_LAST_URLS, lastUrls);
+}
+
+/**
+ * 最後に表示していた URL を復元
+ */
+async function restoreLastUrls(): Promise<void> {
+  const urls = await api.getConfig(STORAGE_KEY_LAST_URLS);
+  if (isValidLastUrls(urls)) {
+    lastUrls = urls;
+  }
+}
+
+/**
+ * 最後に表示していた URL の保存を予約する
+ */
+function scheduleLastUrlsSave(): void {
+  clearTimeout(lastUrlsSaveTimer);
+  lastUrlsSaveTimer = setTimeout(saveLastUrls, LAST_URLS_SAVE_DELAY);
+}
+
+/**
+ * パネルで表示した URL を記録する（http / https のみ）
+ */
+function recordLastUrl(id: string, url: string): void {
+  if (!getService(id) || !isValidServiceUrl(url) || lastUrls[id] === url) return;
+  lastUrls = { ...lastUrls, [id]: url };
+  scheduleLastUrlsSave();
+}
+
+/**
+ * 記録した URL を消す（サービスの URL を変更・削除したとき）
+ */
+function forgetLastUrl(id: string): void {
+  if (!(id in lastUrls)) return;
+  const { [id]: _url, ...rest } = lastUrls;
+  lastUrls = rest;
+  scheduleLastUrlsSave();
+}
+
+// ===== 起動時の読み込み =====
+
+// 起動処理中（webview の読み込みを後回しにする）
+let isStartingUp = true;
+
+// 起動時の読み込み方法
+let startupMode: StartupMode = 'staggered';
+
+// 1 つのパネルの読み込みを待つ最大時間（ミリ秒）
+const STARTUP_LOAD_TIMEOUT = 5000;
+
+/**
+ * 読み込み中に表示するスケルトンを作成する
+ */
+function createPanelSkeleton(): HTMLElement {
+  const skeleton = document.createElement('div');
+  skeleton.className = 'panel-skeleton';
+  const label = document.createElement('span');
+  label.className = 'panel-skeleton-label';
+  label.textContent = 'クリックで読み込み';
+  skeleton.appendChild(label);
+  return skeleton;
+}
+
+/**
+ * 起動時の読み込み方法を保存
+ */
+async function saveStartupMode(): Promise<void> {
+  await api.setConfig(STORAGE_KEY_STARTUP_MODE, startupMode);
+}
+
+/**
+ * 起動時の読み込み方法を復元
+ */
+async function restoreStartupMode(): Promise<void> {
+  const mode = await api.getConfig(STORAGE_KEY_STARTUP_MODE);
+  if (isValidStartupMode(mode)) {
+    startupMode = mode;
+  }
+}
+
+/**
+ * 読み込みを後回しにした webview の読み込みを始める
+ */
+function loadPendingWebview(webview: WebviewTag): void {
+  const src = webview.dataset.pendingSrc;
+  if (!src) return;
+  delete webview.dataset.pendingSrc;
+  webview.closest('[data-sns]')?.classList.remove('pending');
+  webview.setAttribute('src', src);
+}
+
+/**
+ * webview の読み込みを始め、dom-ready まで待つ（最大 STARTUP_LOAD_TIMEOUT）
+ */
+function loadWebviewAndWait(webview: WebviewTag): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, STARTUP_LOAD_TIMEOUT);
+    webview.addEventListener(
+      'dom-ready',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+    loadPendingWebview(webview);
+  });
+}
+
+/**
+ * 読み込みを後回しにしたパネルをスロット順（メインパネルから）に 1 つずつ読み込む
+ * 非表示のパネルと、on-demand の場合のメイン以外のパネルはクリックされるまで読み込まない
+ */
+async function loadPanelsInOrder(): Promise<void> {
+  const slots = getCurrentSlots();
+  for (let index = 0; index < slots.length; index++) {
+    const panel = getPanel(slots[index]);
+    const webview = panel?.querySelector<WebviewTag>('.webview[data-pending-src]');
+    if (!panel || !webview) continue;
+
+    if (index > 0 && (startupMode === 'on-demand' || panel.classList.contains('parked-panel'))) {
+      panel.classList.add('pending');
+      continue;
+    }
+    await loadWebviewAndWait(webview);
+  }
+}
+
+/**
+ * 表示中で読み込みを後回しにしたパネルを読み込む（staggered の場合のみ）
+ * グリッドのテンプレート変更などで非表示だったパネルが表示されたときに呼ぶ
+ */
+function loadVisiblePendingPanels(): void {
+  if (isStartingUp || startupMode !== 'staggered') return;
+  document
+    .querySelectorAll<WebviewTag>('[data-sns]:not(.parked-panel) .webview[data-pending-src]')
+    .forEach(loadPendingWebview);
+}
+
+/**
+ * スケルトンのクリックで読み込む
+ */
+document.addEventListener('click', (event) => {
+  const target = event.target as HTMLElement;
+  const panel = target.closest<HTMLElement>('.pending');
+  if (panel && target.closest('.panel-skeleton')) {
+    wakePanel(panel);
+  }
+});
+
+/**
+ * 起動時の読み込み方法の変更
+ */
+document.addEventListener('change', (event) => {
+  const select = (event.target as HTMLElement).closest<HTMLSelectElement>('.startup-select');
+  if (!select || !isValidStartupMode(select.value)) return;
+
+  startupMode = select.value;
+  saveStartupMode();
+});
+
+// ===== パネルの休止 =====
+
+// 休止の設定
+let hibernationSettings: HibernationSettings = { idleMinutes: 0 };
+
+// サービスごとの最後に操作・読み込みした時刻（ミリ秒）
+const panelActivity = new Map<string, number>();
+
+// 休止中のパネル（再開時に読み込む URL）
+const hibernatedPanels = new Map<string, { url: string }>();
+
+/**
+ * 休止の設定を保存
+ */
+async function saveHibernationSettings(): Promise<void> {
+  await api.setConfig(STORAGE_KEY_HIBERNATION, hibernationSettings);
+}
+
+/**
+ * 休止の設定を復元
+ */
+async function restoreHibernationSettings(): Promise<void> {
+  const settings = await api.getConfig(STORAGE_KEY_HIBERNATION);
+  if (isValidHibernationSettings(settings)) {
+    hibernationSettings = settings;
+  }
+}
+
+/**
+ * パネルを操作した時刻を記録する
+ */
+function markPanelActive(id: string): void {
+  panelActivity.set(id, Date.now());
+}
+
+/**
+ * パネルを休止する
+ * スナップショットを撮って webview を破棄し、プレースホルダーに置き換える
+ * @param activityAtCheck 休止の対象にした時点の最後に操作した時刻
+ */
+async function hibernatePanel(
+  panel: HTMLElement,
+  webview: WebviewTag,
+  activityAtCheck: number | undefined
+): Promise<void> {
+  const id = panel.dataset.sns || '';
+  const service = getService(id);
+  if (!service) return;
+
+  let snapshot = '';
+  try {
+    snapshot = (await webview.capturePage()).toDataURL();
+  } catch (error) {
+    console.warn('Failed to capture panel snapshot:', error);
+  }
+  // スナップショットを撮っている間にメインパネルになった・操作された場合は休止しない
+  if (
+    !webview.isConnected ||
+    !shouldCompleteHibernation({
+      serviceId: id,
+      mainId: getCurrentSlots()[0],
+      focusedId: focusedPanelId,
+      activityAtCheck,
+      activityNow: panelActivity.get(id),
+    })
+  ) {
+    return;
+  }
+
+  hibernatedPanels.set(id, { url: webview.getURL() || service.url });
+
+  const placeholder = document.createElement('div');
+  placeholder.className = 'hibernation-placeholder';
+  placeholder.title = 'クリックで再開';
+  if (snapshot) {
+    const image = document.createElement('img');
+    image.className = 'hibernation-snapshot';
+    image.src = snapshot;
+    image.alt = '';
+    placeholder.appendChild(image);
+  }
+  const label = document.createElement('span');
+  label.className = 'hibernation-label';
+  label.textContent = '💤 休止中';
+  placeholder.appendChild(label);
+
+  webview.replaceWith(placeholder);
+  panel.classList.add('hibernated');
+}
+
+/**
+ * 休止中のパネルを再開し、最後に表示していた URL を読み込む
+ * 起動時に読み込みを後回しにしたパネルはここで読み込む
+ */
+function wakePanel(panel: HTMLElement): void {
+  const pending = panel.querySelector<WebviewTag>('.webview[data-pending-src]');
+  if (pending) {
+    loadPendingWebview(pending);
+  }
+
+  const id = panel.dataset.sns || '';
+  const state = hibernatedPanels.get(id);
+  const service = getService(id);
+  if (!state || !service) return;
+  hibernatedPanels.delete(id);
+
+  const webview = createWebview(service);
+  webview.setAttribute('src', state.url);
+  const isDesktop = panel.dataset.mode !== 'mobile';
+  webview.classList.add(isDesktop ? 'webview-desktop' : 'webview-mobile');
+  if (!isDesktop) {
+    webview.setAttribute('useragent', MOBILE_USER_AGENT);
+  }
+
+  const placeholder = panel.querySelector('.hibernation-placeholder');
+  if (placeholder) {
+    placeholder.replaceWith(webview);
+  } else {
+    panel.appendChild(webview);
+  }
+  panel.classList.remove('hibernated');
+  panel.classList.add('loading');
+  markPanelActive(id);
+}
+
+/**
+ * 操作のないパネルを休止する
+ * メインパネル・フォーカス中・再生中のパネルと「休止しない」設定のサービスは対象外
+ */
+async function checkHibernation(): Promise<void> {
+  if (hibernationSettings.idleMinutes === 0) return;
+
+  const now = Date.now();
+  const idleTime = hibernationSettings.idleMinutes * 60 * 1000;
+  const [mainId] = getCurrentSlots();
+
+  for (const panel of Array.from(document.querySelectorAll<HTMLElement>('[data-sns]'))) {
+    const id = panel.dataset.sns || '';
+    const webview = panel.querySelector<WebviewTag>('.webview');
+    if (!webview || !readyWebviews.has(webview)) continue;
+    if (id === mainId || getService(id)?.neverHibernate) continue;
+    if (focusedPanelId === id && document.hasFocus()) continue;
+
+    const lastActive = panelActivity.get(id);
+    if (lastActive === undefined) {
+      markPanelActive(id);
+      continue;
+    }
+    if (now - lastActive < idleTime) continue;
+    if (await isPlayingMedia(webview)) {
+      markPanelActive(id);
+      continue;
+    }
+
+    await hibernatePanel(panel, webview, lastActive);
+  }
+}
+
+/**
+ * 休止の確認を開始する
+ */
+function startHibernationMonitor(): void {
+  setInterval(checkHibernation, 30 * 1000);
+}
+
+/**
+ * 休止の設定の表示を更新
+ */
+function renderHibernationSettings(): void {
+  const select = document.querySelector<HTMLSelectElement>('.settings-panel .hibernation-select');
+  if (select) {
+    select.value = String(hibernationSettings.idleMinutes);
+  }
+}
+
+/**
+ * 休止中のパネルのクリックで再開する
+ */
+document.addEventListener('click', (event) => {
+  const target = event.target as HTMLElement;
+  const panel = target.closest<HTMLElement>('[data-sns]');
+  if (panel && target.closest('.hibernation-placeholder')) {
+    wakePanel(panel);
+    setTimeout(() => readjustPanelZoom(panel), 100);
+  }
+});
+
+/**
+ * 休止までの時間の変更
+ */
+document.addEventListener('change', (event) => {
+  const select = (event.target as HTMLElement).closest<HTMLSelectElement>('.hibernation-select');
+  if (!select) return;
+
+  hibernationSettings = { idleMinutes: Number(select.value) };
+  saveHibernationSettings();
+});
+
+// ===== 障害からの復旧 =====
+
+// 障害の種類ごとの表示名
+const INCIDENT_LABELS: Record<IncidentType, string> = {
+  crash: 'クラッシュ',
+  unresponsive: '応答なし',
+  'load-failed': '読み込み失敗',
+};
+
+// この時間（ミリ秒）クラッシュしなければ自動再読み込みの回数を数え直す
+const RECOVERY_STABLE_TIME = 5 * 60 * 1000;
+
+// 設定パネルに表示するサービスごとの障害の件数
+const INCIDENT_DISPLAY_LIMIT = 5;
+
+// サービスごとの障害の記録
+let incidentLog: IncidentLog = {};
+
+// サービスごとの自動再読み込みの状態
+const recoveryStates = new Map<
+  string,
+  { attempts: number; lastCrashAt: number; timer?: ReturnType<typeof setTimeout> }
+>();
+
+/**
+ * 障害の記録を保存
+ */
+async function saveIncidentLog(): Promise<void> {
+  await api.setConfig(STORAGE_KEY_INCIDENTS, incidentLog);
+}
+
+/**
+ * 障害の記録を復元
+ */
+async function restoreIncidentLog(): Promise<void> {
+  const log = await api.getConfig(STORAGE_KEY_INCIDENTS);
+  if (isValidIncidentLog(log)) {
+    incidentLog = log;
+  }
+}
+
+/**
+ * 障害を記録する
+ */
+function recordIncident(id: string, type: IncidentType, reason: string, url: string): void {
+  incidentLog = appendIncident(incidentLog, id, { type, reason, url, timestamp: Date.now() });
+  saveIncidentLog();
+  renderIncidentLog();
+}
+
+/**
+ * パネル内にエラーを表示する
+ * 同じパネルに表示中のエラーは置き換える
+ */
+function showPanelError(
+  panel: HTMLElement,
+  type: IncidentType,
+  reason: string,
+  status: string
+): void {
+  panel.querySelector('.panel-error')?.remove();
+
+  const overlay = document.createElement('div');
+  overlay.className = 'panel-error';
+  const title = document.createElement('p');
+  title.className = 'panel-error-title';
+  title.textContent = `⚠️ ${INCIDENT_LABELS[type]}`;
+  const message = document.createElement('p');
+  message.className = 'panel-error-reason';
+  message.textContent = reason;
+  const note = document.createElement('p');
+  note.className = 'panel-error-status';
+  note.textContent = status;
+
+  const actions = document.createElement('div');
+  actions.className = 'panel-error-actions';
+  const retry = document.createElement('button');
+  retry.type = 'button';
+  retry.className = 'settings-text-btn panel-error-retry';
+  retry.textContent = '再読み込み';
+  actions.appendChild(retry);
+  if (type === 'unresponsive') {
+    // 重い処理の途中で応答が戻ることもあるため、待つ選択肢も用意する
+    const dismiss = document.createElement('button');
+    dismiss.type = 'button';
+    dismiss.className = 'settings-text-btn panel-error-dismiss';
+    dismiss.textContent = '待つ';
+    actions.appendChild(dismiss);
+  }
+
+  overlay.append(title, message, note, actions);
+  panel.appendChild(overlay);
+  panel.dataset.error = type;
+  panel.classList.remove('loading');
+}
+
+/**
+ * パネル内のエラー表示を消す
+ */
+function clearPanelError(panel: HTMLElement): void {
+  panel.querySelector('.panel-error')?.remove();
+  delete panel.dataset.error;
+}
+
+/**
+ * 予約した自動再読み込みを取り消す
+ */
+function cancelRecovery(id: string): void {
+  const state = recoveryStates.get(id);
+  if (state?.timer) {
+    clearTimeout(state.timer);
+    state.timer = undefined;
+  }
+}
+
+/**
+ * パネルを読み込み直す
+ * 読み込みに失敗したパネルは失敗した URL を、それ以外は現在のページを読み込み直す
+ */
+function retryPanel(panel: HTMLElement): void {
+  const id = panel.dataset.sns || '';
+  cancelRecovery(id);
+  const webview = panel.querySelector<WebviewTag>('.webview');
+  const failedUrl = panel.dataset.failedUrl;
+  clearPanelError(panel);
+  delete panel.dataset.failedUrl;
+  if (!webview) return;
+
+  panel.classList.add('loading');
+  if (failedUrl) {
+    webview.loadURL(failedUrl).catch(() => {
+      // 再び失敗した場合は did-fail-load で表示する
+    });
+  } else {
+    webview.reload();
+  }
+}
+
+/**
+ * レンダラープロセスが終了したパネルを表示し、バックオフを挟んで自動で再読み込みする
+ */
+function handlePanelCrash(webview: WebviewTag, reason: string): void {
+  // webview の破棄による正常終了は障害ではない
+  if (reason === 'clean-exit') return;
+  const panel = webview.closest<HTMLElement>('[data-sns]');
+  const id = panel?.dataset.sns;
+  if (!panel || !id) return;
+
+  // 終了したプロセスには executeJavaScript などを呼べない
+  readyWebviews.delete(webview);
+  recordIncident(id, 'crash', reason, webview.getURL());
+
+  const now = Date.now();
+  const previous = recoveryStates.get(id);
+  cancelRecovery(id);
+  const attempts =
+    previous && now - previous.lastCrashAt < RECOVERY_STABLE_TIME ? previous.attempts : 0;
+  const message = `ページのプロセスが終了しました（${reason}）`;
+
+  if (attempts >= RECOVERY_MAX_ATTEMPTS) {
+    recoveryStates.set(id, { attempts, lastCrashAt: now });
+    showPanelError(
+      panel,
+      'crash',
+      message,
+      'クラッシュが続いたため自動での再読み込みを停止しました'
+    );
+    return;
+  }
+
+  const delay = getRecoveryDelay(attempts);
+  const timer = setTimeout(() => {
+    const state = recoveryStates.get(id);
+    if (state) state.timer = undefined;
+    if (webview.isConnected) retryPanel(panel);
+  }, delay);
+  recoveryStates.set(id, { attempts: attempts + 1, lastCrashAt: now, timer });
+  showPanelError(
+    panel,
+    'crash',
+    message,
+    `${Math.round(delay / 1000)} 秒後に自動で再読み込みします（${attempts + 1}/${RECOVERY_MAX_ATTEMPTS}）`
+  );
+}
+
+/**
+ * 応答しなくなったパネルを表示する（応答が戻ったら responsive で消す）
+ */
+function handlePanelUnresponsive(webview: WebviewTag): void {
+  const panel = webview.closest<HTMLElement>('[data-sns]');
+  const id = panel?.dataset.sns;
+  if (!panel || !id) return;
+
+  recordIncident(id, 'unresponsive', 'ページが応答していません', webview.getURL());
+  showPanelError(
+    panel,
+    'unresponsive',
+    'ページが応答していません',
+    '応答が戻るまで待つか、再読み込みしてください'
+  );
+}
+
+/**
+ * ページの読み込みに失敗したパネルを表示する
+ */
+function handlePanelLoadFailure(webview: WebviewTag, reason: string, url: string): void {
+  const panel = webview.closest<HTMLElement>('[data-sns]');
+  const id = panel?.dataset.sns;
+  if (!panel || !id) return;
+
+  recordIncident(id, 'load-failed', reason, url);
+  if (url) panel.dataset.failedUrl = url;
+  showPanelError(panel, 'load-failed', reason, url);
+}
+
+/**
+ * 設定パネルに障害の記録を表示する（サービスごとに新しい順）
+ */
+function renderIncidentLog(): void {
+  const list = document.querySelector<HTMLElement>('.settings-panel .incident-list');
+  const clear = document.querySelector<HTMLButtonElement>('.settings-panel .incident-clear');
+  if (!list) return;
+
+  const ids = Object.keys(incidentLog).filter((id) => incidentLog[id].length > 0);
+  if (clear) clear.disabled = ids.length === 0;
+  if (ids.length === 0) {
+    const empty = document.createElement('li');
+    empty.className = 'incident-empty';
+    empty.textContent = '記録はありません';
+    list.replaceChildren(empty);
+    return;
+  }
+
+  list.replaceChildren(
+    ...ids.map((id) => {
+      const incidents = incidentLog[id];
+      const service = getService(id);
+      const item = document.createElement('li');
+      item.className = 'incident-item';
+
+      const name = document.createElement('span');
+      name.className = 'incident-service';
+      name.textContent = `${service ? `${service.icon} ${service.name}` : id} (${incidents.length})`;
+      item.appendChild(name);
+
+      incidents
+        .slice(-INCIDENT_DISPLAY_LIMIT)
+        .reverse()
+        .forEach((incident) => {
+          const entry = document.createElement('span');
+          entry.className = 'incident-entry';
+          entry.textContent = `${new Date(incident.timestamp).toLocaleString()} ${INCIDENT_LABELS[incident.type]}: ${incident.reason}`;
+          entry.title = incident.url;
+          item.appendChild(entry);
+        });
+      return item;
+    })
+  );
+}
+
+/**
+ * エラー表示のボタン操作
+ */
+document.addEventListener('click', (event) => {
+  const target = event.target as HTMLElement;
+  const panel = target.closest<HTMLElement>('[data-sns]');
+  if (!panel) return;
+
+  if (target.closest('.panel-error-retry')) {
+    retryPanel(panel);
+  } else if (target.closest('.panel-error-dismiss')) {
+    clearPanelError(panel);
+  }
+});
+
+/**
+ * 障害の記録の消去
+ */
+document.addEventListener('click', (event) => {
+  if (!(event.target as HTMLElement).closest('.incident-clear')) return;
+  if (!confirm('障害の記録をすべて消去しますか？')) return;
+
+  incidentLog = {};
+  saveIncidentLog();
+  renderIncidentLog();
+});
+
+// ===== スプリッターによるパネルサイズ調整 =====
+
+/**
+ * スプリッター要素を作成する
+ */
+function createSplitter(className: string, index?: number): HTMLElement {
+  const splitter = document.createElement('div');
+  splitter.className = `splitter ${className}`;
+  if (index !== undefined) {
+    splitter.dataset.index = String(index);
+  }
+  return splitter;
+}
+
+/**
+ * パネルサイズの比率をスタイルに反映する
+ * DOM を組み替えないため、スプリッターのドラッグ中にも呼び出せる
+ */
+function applySplitStyles(): void {
+  if (!mainView || !subViews || !gridView) return;
+
+  if (layoutGrid) {
+    const columns = normalizeRatios(layoutSplits.gridColumns, layoutGrid.columns);
+    const rows = normalizeRatios(layoutSplits.gridRows, layoutGrid.rows);
+    gridView.style.gridTemplateColumns = columns.map((r) => `minmax(0, ${r}fr)`).join(' ');
+    gridView.style.gridTemplateRows = rows.map((r) => `minmax(0, ${r}fr)`).join(' ');
+    return;
+  }
+
+  // メインビューの高さ
+  mainView.style.height = layoutSplits.mainRow ? `${layoutSplits.mainRow * 100}%` : '';
+
+  // メインパネルとセカンダリパネルの幅
+  const mainPanel = mainView.querySelector<HTMLElement>(':scope > .main-panel');
+  const hasSecondary = !!mainView.querySelector(':scope > .secondary-panel');
+  const hasMainSplit = !!(mainPanel && hasSecondary && layoutSplits.mainColumn);
+  mainView.classList.toggle('has-column-split', hasMainSplit);
+  mainView.querySelectorAll<HTMLElement>(':scope > [data-sns]').forEach((panel) => {
+    panel.style.flexBasis = '';
+  });
+  if (mainPanel && hasMainSplit) {
+    mainPanel.style.flexBasis = `${(layoutSplits.mainColumn ?? 0) * 100}%`;
+  }
+
+  // サブパネルの幅（パネル数が変わった場合は既定の固定幅に戻す）
+  const subPanels = subViews.querySelectorAll<HTMLElement>(':scope > .sub-panel');
+  const subRatios =
+    layoutSplits.subColumns?.length === subPanels.length ? layoutSplits.subColumns : undefined;
+  subViews.classList.toggle('has-column-split', !!subRatios);
+  subPanels.forEach((panel, index) => {
+    panel.style.flexGrow = subRatios ? String(subRatios[index]) : '';
+  });
+}
+
+/**
+ * パネル間にスプリッターを配置する
+ * スプリッターは webview を含まないため、挿入してもパネルは再読み込みされない
+ */
+function placeSplitters(): void {
+  if (!mainView || !subViews || !gridView) return;
+
+  document
+    .querySelectorAll('.splitter-main, .splitter-sub, .splitter-grid')
+    .forEach((splitter) => splitter.remove());
+
+  if (layoutGrid) {
+    for (let i = 0; i < layoutGrid.columns - 1; i++) {
+      gridView.appendChild(createSplitter('splitter-grid splitter-grid-column', i));
+    }
+    for (let i = 0; i < layoutGrid.rows - 1; i++) {
+      gridView.appendChild(createSplitter('splitter-grid splitter-grid-row', i));
+    }
+    positionGridSplitters();
+    return;
+  }
+
+  const mainPanel = mainView.querySelector<HTMLElement>(':scope > .main-panel');
+  if (mainPanel && mainView.querySelector(':scope > .secondary-panel')) {
+    mainPanel.after(createSplitter('splitter-main'));
+  }
+
+  const subPanels = subViews.querySelectorAll<HTMLElement>(':scope > .sub-panel');
+  subPanels.forEach((panel, index) => {
+    if (index < subPanels.length - 1) {
+      panel.after(createSplitter('splitter-sub', index));
+    }
+  });
+}
+
+/**
+ * パネルサイズの比率とスプリッターを反映する
+ */
+function renderSplitters(): void {
+  applySplitStyles();
+  placeSplitters();
+}
+
+/**
+ * グリッドのトラックサイズ（px）を取得する
+ * 格納パネル用の暗黙の行は含めない
+ */
+function getGridTrackSizes(): { columns: number[]; rows: number[]; gap: number } {
+  if (!gridView || !layoutGrid) return { columns: [], rows: [], gap: 0 };
+
+  const style = getComputedStyle(gridView);
+  const parse = (value: string, count: number): number[] =>
+    value
+      .split(' ')
+      .map((size) => parseFloat(size))
+      .filter((size) => !Number.isNaN(size))
+      .slice(0, count);
+  return {
+    columns: parse(style.gridTemplateColumns, layoutGrid.columns),
+    rows: parse(style.gridTemplateRows, layoutGrid.rows),
+    gap: parseFloat(style.columnGap) || 0,
+  };
+}
+
+/**
+ * グリッドのスプリッターをトラックの境界（gap の中央）に配置する
+ */
+function positionGridSplitters(): void {
+  if (!gridView || !layoutGrid) return;
+
+  const { columns, rows, gap } = getGridTrackSizes();
+  const sum = (sizes: number[], count: number): number =>
+    sizes.slice(0, count).reduce((total, size) => total + size, 0) + gap * count;
+  const gridWidth = sum(columns, columns.length) - gap;
+  const gridHeight = sum(rows, rows.length) - gap;
+
+  gridView.querySelectorAll<HTMLElement>('.splitter-grid-column').forEach((splitter) => {
+    const index = Number(splitter.dataset.index);
+    splitter.style.left = `${sum(columns, index + 1) - gap / 2}px`;
+    splitter.style.height = `${gridHeight}px`;
+  });
+  gridView.querySelectorAll<HTMLElement>('.splitter-grid-row').forEach((splitter) => {
+    const index = Number(splitter.dataset.index);
+    splitter.style.top = `${sum(rows, index + 1) - gap / 2}px`;
+    splitter.style.width = `${gridWidth}px`;
+  });
+}
+
+/**
+ * スプリッターのドラッグ開始時に、移動量から比率を更新する関数を作成する
+ */
+function createSplitterResizer(splitter: HTMLElement): ((dx: number, dy: number) => void) | null {
+  const index = Number(splitter.dataset.index);
+
+  if (splitter.classList.contains('splitter-row') && mainView) {
+    // メインビューとサブビューの境界
+    const container = mainView.parentElement;
+    if (!container) return null;
+    const style = getComputedStyle(container);
+    const total =
+      container.clientHeight - parseFloat(style.paddingTop) - parseFloat(style.paddingBottom);
+    const start = mainView.getBoundingClientRect().height;
+    return (_dx, dy) => {
+      layoutSplits = { ...layoutSplits, mainRow: clampSplitRatio((start + dy) / total) };
+    };
+  }
+
+  if (splitter.classList.contains('splitter-main') && mainView) {
+    // メインパネルとセカンダリパネルの境界
+    const mainPanel = mainView.querySelector<HTMLElement>(':scope > .main-panel');
+    if (!mainPanel) return null;
+    const total = mainView.clientWidth;
+    const start = mainPanel.getBoundingClientRect().width;
+    return (dx) => {
+      layoutSplits = { ...layoutSplits, mainColumn: clampSplitRatio((start + dx) / total) };
+    };
+  }
+
+  if (splitter.classList.contains('splitter-sub') && subViews) {
+    // サブパネル同士の境界（未設定の場合は現在の幅を比率として使う）
+    const widths = Array.from(
+      subViews.querySelectorAll<HTMLElement>(':scope > .sub-panel'),
+      (panel) => panel.getBoundingClientRect().width
+    );
+    const start =
+      layoutSplits.subColumns?.length === widths.length ? layoutSplits.subColumns : widths;
+    const scale = start.reduce((a, b) => a + b, 0) / widths.reduce((a, b) => a + b, 0);
+    return (dx) => {
+      layoutSplits = {
+        ...layoutSplits,
+        subColumns: resizeAdjacentRatios(start, index, dx * scale),
+      };
+    };
+  }
+
+  if (splitter.classList.contains('splitter-grid') && layoutGrid) {
+    // グリッドの列・行の境界
+    const isColumn = splitter.classList.contains('splitter-grid-column');
+    const tracks = isColumn ? getGridTrackSizes().columns : getGridTrackSizes().rows;
+    const start = normalizeRatios(
+      isColumn ? layoutSplits.gridColumns : layoutSplits.gridRows,
+      tracks.length
+    );
+    const scale = start.reduce((a, b) => a + b, 0) / tracks.reduce((a, b) => a + b, 0);
+    return (dx, dy) => {
+      const ratios = resizeAdjacentRatios(start, index, (isColumn ? dx : dy) * scale);
+      layoutSplits = isColumn
+        ? { ...layoutSplits, gridColumns: ratios }
+        : { ...layoutSplits, gridRows: ratios };
+    };
+  }
+
+  return null;
+}
+
+/**
+ * スプリッターのドラッグを処理する
+ * ドラッグ中はフレームごとに比率とズームを再計算し、終了時にレイアウトを保存する
+ */
+function startSplitterDrag(splitter: HTMLElement, event: PointerEvent): void {
+  const resize = createSplitterResizer(splitter);
+  if (!resize) return;
+
+  event.preventDefault();
+  splitter.setPointerCapture(event.pointerId);
+  // webview がポインターイベントを奪わないようにする（CSSで制御）
+  document.body.classList.add('resizing-panels');
+
+  const startX = event.clientX;
+  const startY = event.clientY;
+  let frame = 0;
+
+  const onMove = (moveEvent: PointerEvent): void => {
+    cancelAnimationFrame(frame);
+    frame = requestAnimationFrame(() => {
+      resize(moveEvent.clientX - startX, moveEvent.clientY - startY);
+      applySplitStyles();
+      positionGridSplitters();
+      applyGlobalZoom();
+    });
+  };
+
+  const onEnd = (): void => {
+    splitter.removeEventListener('pointermove', onMove);
+    splitter.removeEventListener('pointerup', onEnd);
+    splitter.removeEventListener('pointercancel', onEnd);
+    document.body.classList.remove('resizing-panels');
+    saveLayout();
+  };
+
+  splitter.addEventListener('pointermove', onMove);
+  splitter.addEventListener('pointerup', onEnd);
+  splitter.addEventListener('pointercancel', onEnd);
+}
+
+/**
+ * スプリッターのイベントリスナー（イベント委譲）
+ */
+document.addEventListener('pointerdown', (event) => {
+  const splitter = (event.target as HTMLElement).closest<HTMLElement>('.splitter');
+  if (splitter) {
+    startSplitterDrag(splitter, event);
+  }
+});
+
+/**
+ * スプリッターのダブルクリックで既定のサイズに戻す
+ */
+document.addEventListener('dblclick', (event) => {
+  const splitter = (event.target as HTMLElement).closest<HTMLElement>('.splitter');
+  if (!splitter) return;
+
+  const { mainRow, mainColumn, subColumns, gridColumns, gridRows } = layoutSplits;
+  if (splitter.classList.contains('splitter-row')) {
+    layoutSplits = { mainColumn, subColumns, gridColumns, gridRows };
+  } else if (splitter.classList.contains('splitter-main')) {
+    layoutSplits = { mainRow, subColumns, gridColumns, gridRows };
+  } else if (splitter.classList.contains('splitter-sub')) {
+    layoutSplits = { mainRow, mainColumn, gridColumns, gridRows };
+  } else if (splitter.classList.contains('splitter-grid-column')) {
+    layoutSplits = { mainRow, mainColumn, subColumns, gridRows };
+  } else {
+    layoutSplits = { mainRow, mainColumn, subColumns, gridColumns };
+  }
+  // 未設定の項目はキーごと除く
+  layoutSplits = Object.fromEntries(
+    Object.entries(layoutSplits).filter(([, value]) => value !== undefined)
+  );
+
+  renderSplitters();
+  setTimeout(applyGlobalZoom, 100);
+  saveLayout();
+});
+
+// ===== ドラッグ&ドロップによる並べ替え =====
+
+// ドラッグ中のパネルのサービスID
+let draggingPanelId: string | null = null;
+
+// ドロップ位置のプレビュー（サブパネル間への挿入位置）
+let dropPlaceholder: HTMLElement | null = null;
+
+/**
+ * ドロップ方法
+ * swap: 対象パネルと入れ替え / before・after: 対象パネルの前後に挿入
+ */
+type DropMode = 'swap' | 'before' | 'after';
+
+// 直近の dragover で判定したドロップ先（プレースホルダー上でのドロップにも使う）
+let dropTarget: { panel: HTMLElement; mode: DropMode } | null = null;
+
+/**
+ * ドロップ位置からドロップ方法を判定する
+ * classic レイアウトのサブパネルは左右の端にドロップすると間に挿入する
+ */
+function getDropMode(target: HTMLElement, clientX: number): DropMode {
+  if (!target.classList.contains('sub-panel')) return 'swap';
+  const rect = target.getBoundingClientRect();
+  const edge = rect.width * 0.25;
+  if (clientX < rect.left + edge) return 'before';
+  if (clientX > rect.right - edge) return 'after';
+  return 'swap';
+}
+
+/**
+ * ドラッグによる移動が可能かどうか
+ * ピン固定時はメインパネルが変わる移動を無効にする
+ */
+function canDropPanel(sourceId: string, target: HTMLElement, mode: DropMode): boolean {
+  const targetId = target.dataset.sns || '';
+  if (!targetId || targetId === sourceId) return false;
+  if (!isPinned) return true;
+
+  const slots = getCurrentSlots();
+  const mainId = slots[0];
+  return sourceId !== mainId && (mode !== 'swap' || targetId !== mainId);
+}
+
+/**
+ * ドロップ位置のプレビューを表示する
+ * 入れ替えは対象パネルを強調し、挿入はプレースホルダーを挿入位置に表示する
+ */
+function showDropPreview(target: HTMLElement, mode: DropMode): void {
+  document.querySelectorAll('.drop-target').forEach((el) => el.classList.remove('drop-target'));
+
+  if (mode === 'swap') {
+    dropPlaceholder?.remove();
+    target.classList.add('drop-target');
+    return;
+  }
+
+  if (!dropPlaceholder) {
+    dropPlaceholder = document.createElement('div');
+    dropPlaceholder.className = 'swap-placeholder drop-placeholder';
+  }
+  const reference = mode === 'before' ? target : target.nextSibling;
+  if (
+    dropPlaceholder.nextSibling !== reference ||
+    dropPlaceholder.parentElement !== target.parentElement
+  ) {
+    target.parentElement?.insertBefore(dropPlaceholder, reference);
+  }
+}
+
+/**
+ * ドラッグ状態とプレビューをすべて解除する
+ */
+function clearDragState(): void {
+  draggingPanelId = null;
+  dropTarget = null;
+  dropPlaceholder?.remove();
+  document.body.classList.remove('dragging-panel');
+  document
+    .querySelectorAll('.drop-target, .drag-source')
+    .forEach((el) => el.classList.remove('drop-target', 'drag-source'));
+}
+
+/**
+ * ドロップされたパネルを移動してレイアウトを保存する
+ */
+async function dropPanel(sourceId: string, target: HTMLElement, mode: DropMode): Promise<void> {
+  const slots = getCurrentSlots();
+  const from = slots.indexOf(sourceId);
+  const to = slots.indexOf(target.dataset.sns || '');
+  if (from < 0 || to < 0) return;
+
+  let next: string[];
+  if (mode === 'swap') {
+    next = swapSlots(slots, from, to);
+  } else {
+    next = moveSlot(slots, from, mode === 'before' ? to : to + 1);
+  }
+
+  applyLayout(next, layoutGrid);
+
+  // ズームを再調整
+  setTimeout(applyGlobalZoom, 100);
+
+  // レイアウトを保存
+  await saveLayout();
+}
+
+/**
+ * ドラッグ&ドロップのイベントリスナー（イベント委譲）
+ */
+document.addEventListener('dragstart', (event) => {
+  const target = event.target as HTMLElement;
+  const header = target.closest<HTMLElement>('.panel-header');
+  const panel = header?.closest<HTMLElement>('[data-sns]');
+  if (!header || !panel || !event.dataTransfer) return;
+
+  draggingPanelId = panel.dataset.sns || null;
+  event.dataTransfer.effectAllowed = 'move';
+  event.dataTransfer.setData('text/plain', draggingPanelId ?? '');
+  panel.classList.add('drag-source');
+  // webview がドラッグイベントを奪わないように無効化（CSSで制御）
+  document.body.classList.add('dragging-panel');
+});
+
+document.addEventListener('dragover', (event) => {
+  if (!draggingPanelId) return;
+
+  // プレースホルダー上では直前のドロップ先を維持する
+  if (event.target === dropPlaceholder && dropTarget) {
+    event.preventDefault();
+    return;
+  }
+
+  const target = (event.target as HTMLElement).closest<HTMLElement>('[data-sns]');
+  if (!target) return;
+
+  const mode = getDropMode(target, event.clientX);
+  if (!canDropPanel(draggingPanelId, target, mode)) return;
+
+  event.preventDefault();
+  if (event.dataTransfer) event.dataTransfer.dropEffect = 'move';
+  dropTarget = { panel: target, mode };
+  showDropPreview(target, mode);
+});
+
+document.addEventListener('drop', (event) => {
+  if (!draggingPanelId) return;
+  event.preventDefault();
+
+  const sourceId = draggingPanelId;
+  const target = dropTarget;
+  clearDragState();
+
+  if (target) {
+    dropPanel(sourceId, target.panel, target.mode);
+  }
+});
+
+document.addEventListener('dragend', () => {
+  clearDragState();
+});
+
+/**
+ * ピン止め状態を切り替える
+ */
+async function togglePin(): Promise<void> {
+  setPinned(!isPinned);
+
+  // ピン止め状態を保存
+  await savePinnedState();
+}
+
+/**
+ * ピン止め状態を設定し、表示に反映する
+ */
+function setPinned(pinned: boolean): void {
+  isPinned = pinned;
+
+  const pinButton = document.querySelector<HTMLElement>('.pin-button');
+  if (pinButton) {
+    pinButton.classList.toggle('pinned', isPinned);
+  }
+
+  // body にピン固定クラスを付与（CSSで制御）
+  document.body.classList.toggle('pinned', isPinned);
+}
+
+/**
+ * ピンボタンのイベントリスナー（イベント委譲）
+ */
+document.addEventListener('click', (event) => {
+  const target = event.target as HTMLElement;
+  if (target.closest('.pin-button')) {
+    togglePin();
+  }
+});
+
+// ===== 統一設定パネル機能 =====
+
+/**
+ * 設定パネルの表示を切り替える
+ */
+function toggleSettingsPanel(): void {
+  const settingsPanel = document.querySelector<HTMLElement>('.settings-panel');
+  if (settingsPanel) {
+    settingsPanel.classList.toggle('visible');
+  }
+}
+
+/**
+ * ズーム設定（統一ズームとサービス個別のズーム）を保存
+ */
+async function saveZoomConfig(): Promise<void> {
+  const settings: ZoomSettings = { global: globalZoom, services: zoomOverrides };
+  await api.setConfig(STORAGE_KEY_ZOOM, settings);
+}
+
+/**
+ * ズーム設定を復元
+ */
+async function restoreZoomConfig(): Promise<void> {
+  const config = await api.getConfig(STORAGE_KEY_ZOOM);
+  if (isValidZoomSettings(config)) {
+    globalZoom = clampZoom(config.global);
+    zoomOverrides = Object.fromEntries(
+      Object.entries(config.services).map(([id, value]) => [id, clampZoom(value)])
+    );
+  }
+}
+
+/**
+ * 統一ズーム表示を更新
+ */
+function updateGlobalZoomDisplay(): void {
+  const zoomLevel = document.querySelector('.settings-panel .zoom-level');
+  if (zoomLevel) {
+    zoomLevel.textContent = formatZoomPercent(globalZoom);
+  }
+}
+
+/**
+ * 読み込み済みのすべてのwebviewにズームを適用
+ */
+function applyGlobalZoom(): void {
+  getReadyWebviews().forEach((webview) => {
+    const isDesktop = webview.classList.contains('webview-desktop');
+    adjustWebviewZoom(webview, isDesktop);
+  });
+}
+
+/**
+ * ズームを変更
+ */
+async function changeGlobalZoom(delta: number): Promise<void> {
+  globalZoom = clampZoom(globalZoom + delta);
+
+  // 表示を更新
+  updateGlobalZoomDisplay();
+  updateAllPanelControls();
+
+  // 全webviewに適用
+  applyGlobalZoom();
+
+  // 保存
+  await saveZoomConfig();
+}
+
+/**
+ * 音量設定（統一音量とサービス個別の音量）を保存
+ */
+async function saveVolumeConfig(): Promise<void> {
+  const settings: VolumeSettings = { global: globalVolume, services: volumeOverrides };
+  await api.setConfig(STORAGE_KEY_VOLUME, settings);
+}
+
+/**
+ * 音量設定を復元
+ */
+async function restoreVolumeConfig(): Promise<void> {
+  const config = await api.getConfig(STORAGE_KEY_VOLUME);
+  if (isValidVolumeSettings(config)) {
+    globalVolume = clampVolume(config.global);
+    volumeOverrides = Object.fromEntries(
+      Object.entries(config.services).map(([id, value]) => [id, clampVolume(value)])
+    );
+  }
+}
+
+/**
+ * 統一音量表示を更新
+ */
+function updateGlobalVolumeDisplay(): void {
+  const volumeLevel = document.querySelector('.settings-panel .volume-level');
+  const volumeIcon = document.querySelector('.settings-panel .volume-icon');
+  if (volumeLevel) {
+    volumeLevel.textContent = formatVolumePercent(globalVolume);
+  }
+  if (volumeIcon) {
+    volumeIcon.textContent = getVolumeIcon(globalVolume);
+  }
+}
+
+/**
+ * webviewに音量を適用（JavaScriptで全てのメディア要素の音量を設定）
+ */
+function applyVolume(webview: WebviewTag, volume: number): void {
+  // ミュートの場合（すべてミュート中・音声を出さないパネルを含む）
+  if (volume === 0 || isMutedAll || !isWebviewAudible(getWebviewPanelId(webview))) {
+    webview.setAudioMuted(true);
+    return;
+  }
+
+  webview.setAudioMuted(false);
+
+  // JavaScriptで全てのメディア要素の音量を設定
+  webview.executeJavaScript(`
+    (function() {
+      const volume = ${volume};
+      document.querySelectorAll('video, audio').forEach(el => {
+        el.volume = volume;
+      });
+      // MutationObserverで新しく追加されるメディア要素にも適用
+      if (!window.__volumeObserver) {
+        window.__volumeObserver = new MutationObserver((mutations) => {
+          mutations.forEach((mutation) => {
+            mutation.addedNodes.forEach((node) => {
+              if (node.nodeType === 1) {
+                const el = node;
+                if (el.tagName === 'VIDEO' || el.tagName === 'AUDIO') {
+                  el.volume = window.__targetVolume || 1;
+                }
+                el.querySelectorAll && el.querySelectorAll('video, audio').forEach(media => {
+                  media.volume = window.__targetVolume || 1;
+                });
+              }
+            });
+          });
+        });
+        window.__volumeObserver.observe(document.body, { childList: true, subtree: true });
+      }
+      window.__targetVolume = volume;
+    })();
+  `);
+}
+
+/**
+ * 読み込み済みのすべてのwebviewに音量を適用
+ */
+function applyGlobalVolume(): void {
+  getReadyWebviews().forEach((webview) => {
+    applyVolume(webview, getServiceVolume(getWebviewPanelId(webview)));
+  });
+}
+
+/**
+ * 音量を変更
+ */
+async function changeGlobalVolume(delta: number): Promise<void> {
+  globalVolume = clampVolume(globalVolume + delta);
+
+  // 表示を更新
+  updateGlobalVolumeDisplay();
+  updateAllPanelControls();
+
+  // 全webviewに適用
+  applyGlobalVolume();
+
+  // 保存
+  await saveVolumeConfig();
+}
+
+// ===== サービス個別のズーム・音量 =====
+
+/**
+ * サービス個別のズーム・音量設定を保存（統一設定と同じキーに保存される）
+ */
+async function saveServiceOverrides(): Promise<void> {
+  await saveZoomConfig();
+  await saveVolumeConfig();
+}
+
+/**
+ * パネルヘッダーのズーム・音量表示を更新
+ * 個別設定があるものは overridden クラスで強調する
+ */
+function updatePanelControls(panel: HTMLElement): void {
+  const id = panel.dataset.sns || '';
+  const zoomLevel = panel.querySelector<HTMLElement>('.panel-zoom-level');
+  const volumeLevel = panel.querySelector<HTMLElement>('.panel-volume-level');
+  const volumeDown = panel.querySelector<HTMLElement>('.panel-volume-down');
+  if (zoomLevel) {
+    zoomLevel.textContent = formatZoomPercent(getServiceZoom(id));
+    zoomLevel.classList.toggle('overridden', id in zoomOverrides);
+  }
+  if (volumeLevel) {
+    volumeLevel.textContent = formatVolumePercent(getServiceVolume(id));
+    volumeLevel.classList.toggle('overridden', id in volumeOverrides);
+  }
+  if (volumeDown) {
+    volumeDown.textContent = getVolumeIcon(getServiceVolume(id));
+  }
+  updatePanelAudioControls(panel);
+}
+
+/**
+ * すべてのパネルヘッダーのズーム・音量表示を更新
+ */
+function updateAllPanelControls(): void {
+  document.querySelectorAll<HTMLElement>('[data-sns]').forEach(updatePanelControls);
+}
+
+/**
+ * サービス個別のズームを変更（reset で統一ズームに戻す）
+ */
+async function changeServiceZoom(panel: HTMLElement, delta: number, reset = false): Promise<void> {
+  const id = panel.dataset.sns || '';
+  const { [id]: _removed, ...rest } = zoomOverrides;
+  zoomOverrides = reset ? rest : { ...rest, [id]: clampZoom(getServiceZoom(id) + delta) };
+
+  updatePanelControls(panel);
+  readjustPanelZoom(panel);
+  await saveServiceOverrides();
+}
+
+/**
+ * サービス個別の音量を変更（reset で統一音量に戻す）
+ */
+async function changeServiceVolume(
+  panel: HTMLElement,
+  delta: number,
+  reset = false
+): Promise<void> {
+  const id = panel.dataset.sns || '';
+  const { [id]: _removed, ...rest } = volumeOverrides;
+  volumeOverrides = reset ? rest : { ...rest, [id]: clampVolume(getServiceVolume(id) + delta) };
+
+  updatePanelControls(panel);
+  const webview = panel.querySelector<WebviewTag>('.webview');
+  if (webview && readyWebviews.has(webview)) {
+    applyVolume(webview, getServiceVolume(id));
+  }
+  await saveServiceOverrides();
+}
+
+/**
+ * パネルヘッダーのズーム・音量コントロールのイベントリスナー
+ */
+document.addEventListener('click', (event) => {
+  const target = event.target as HTMLElement;
+  const button = target.closest<HTMLElement>('.panel-controls .panel-control-btn');
+  const panel = target.closest<HTMLElement>('[data-sns]');
+  if (!button || !panel) return;
+
+  if (button.classList.contains('panel-zoom-out')) {
+    changeServiceZoom(panel, -ZOOM_STEP);
+  } else if (button.classList.contains('panel-zoom-in')) {
+    changeServiceZoom(panel, ZOOM_STEP);
+  } else if (button.classList.contains('panel-zoom-level')) {
+    changeServiceZoom(panel, 0, true);
+  } else if (button.classList.contains('panel-volume-down')) {
+    changeServiceVolume(panel, -VOLUME_STEP);
+  } else if (button.classList.contains('panel-volume-up')) {
+    changeServiceVolume(panel, VOLUME_STEP);
+  } else if (button.classList.contains('panel-volume-level')) {
+    changeServiceVolume(panel, 0, true);
+  } else if (button.classList.contains('panel-mute')) {
+    togglePanelMute(panel.dataset.sns || '');
+  } else if (button.classList.contains('panel-solo')) {
+    togglePanelSolo(panel.dataset.sns || '');
+  } else if (button.classList.contains('panel-open-in')) {
+    const webview = panel.querySelector<WebviewTag>('.webview');
+    if (webview && readyWebviews.has(webview)) {
+      api.showOpenInPanelMenu(webview.getWebContentsId());
+    }
+  }
+});
+
+// ===== 音声の出力先 =====
+
+// 音声を出すパネルの設定
+let audioSettings: AudioSettings = { ...DEFAULT_AUDIO_SETTINGS };
+
+/**
+ * 音声の出力先の設定を保存
+ */
+async function saveAudioSettings(): Promise<void> {
+  await api.setConfig(STORAGE_KEY_AUDIO, audioSettings);
+}
+
+/**
+ * 音声の出力先の設定を復元
+ */
+async function restoreAudioSettings(): Promise<void> {
+  const settings = await api.getConfig(STORAGE_KEY_AUDIO);
+  if (isValidAudioSettings(settings)) {
+    audioSettings = settings;
+  }
+}
+
+/**
+ * パネルが音声を出すかどうか（現在のメインパネルで判定）
+ */
+function isWebviewAudible(id: string): boolean {
+  return isPanelAudible(id, getCurrentSlots()[0], audioSettings);
+}
+
+/**
+ * パネルヘッダーのミュート・ソロ表示を更新
+ */
+function updatePanelAudioControls(panel: HTMLElement): void {
+  const id = panel.dataset.sns || '';
+  const isMuted = audioSettings.mutedPanels.includes(id);
+  const isSolo = audioSettings.policy === 'solo' && audioSettings.soloId === id;
+  const mute = panel.querySelector<HTMLElement>('.panel-mute');
+  const solo = panel.querySelector<HTMLElement>('.panel-solo');
+  if (mute) {
+    mute.classList.toggle('active', isMuted);
+    mute.title = isMuted ? 'ミュートを解除' : 'このパネルをミュート';
+  }
+  if (solo) {
+    solo.classList.toggle('active', isSolo);
+    solo.title = isSolo ? 'ソロを解除（すべてのパネルで音声を出す）' : 'このパネルだけ音声を出す';
+  }
+  panel.classList.toggle('silenced', !isWebviewAudible(id));
+}
+
+/**
+ * 音声の出力先の設定をすべてのパネルに反映する
+ * メインパネルが変わったときにも呼ぶ
+ */
+function applyAudioPolicy(): void {
+  getReadyWebviews().forEach((webview) => {
+    applyVolume(webview, getServiceVolume(getWebviewPanelId(webview)));
+  });
+  document.querySelectorAll<HTMLElement>('[data-sns]').forEach(updatePanelAudioControls);
+  const select = document.querySelector<HTMLSelectElement>('.settings-panel .audio-policy-select');
+  if (select) {
+    select.value = audioSettings.policy;
+  }
+}
+
+/**
+ * 音声の出力先の設定を変更して反映・保存する
+ */
+async function changeAudioSettings(settings: AudioSettings): Promise<void> {
+  audioSettings = settings;
+  applyAudioPolicy();
+  await saveAudioSettings();
+}
+
+/**
+ * パネルのミュートを切り替える
+ */
+async function togglePanelMute(id: string): Promise<void> {
+  const { mutedPanels } = audioSettings;
+  await changeAudioSettings({
+    ...audioSettings,
+    mutedPanels: mutedPanels.includes(id)
+      ? mutedPanels.filter((muted) => muted !== id)
+      : [...mutedPanels, id],
+  });
+}
+
+/**
+ * パネルのソロを切り替える
+ * ソロ中のパネルで押した場合はすべてのパネルで音声を出す設定に戻す
+ */
+async function togglePanelSolo(id: string): Promise<void> {
+  const isSolo = audioSettings.policy === 'solo' && audioSettings.soloId === id;
+  await changeAudioSettings({
+    ...audioSettings,
+    policy: isSolo ? 'all' : 'solo',
+    soloId: isSolo ? null : id,
+    // ソロにしたパネルはミュートを解除する
+    mutedPanels: audioSettings.mutedPanels.filter((muted) => muted !== id),
+  });
+}
+
+/**
+ * 削除したサービスを音声の出力先の設定から外す
+ */
+async function forgetAudioSettings(id: string): Promise<void> {
+  if (audioSettings.soloId !== id && !audioSettings.mutedPanels.includes(id)) return;
+  await changeAudioSettings({
+    ...audioSettings,
+    soloId: audioSettings.soloId === id ? null : audioSettings.soloId,
+    mutedPanels: audioSettings.mutedPanels.filter((muted) => muted !== id),
+  });
+}
+
+// ===== 再生の一時停止 =====
+
+// 再生の開始を console-message でメインコードに伝えるためのマーカー
+const MEDIA_PLAY_MARKER = '__sns-viewer-media-play__';
+
+// 再生の設定
+let playbackSettings: PlaybackSettings = { ...DEFAULT_PLAYBACK_SETTINGS };
+
+// ウィンドウが背面にあるため再生を一時停止中
+let isPausedInBackground = false;
+
+/**
+ * 再生の設定を保存
+ */
+async function savePlaybackSettings(): Promise<void> {
+  await api.setConfig(STORAGE_KEY_PLAYBACK, playbackSettings);
+}
+
+/**
+ * 再生の設定を復元
+ */
+async function restorePlaybackSettings(): Promise<void> {
+  const settings = await api.getConfig(STORAGE_KEY_PLAYBACK);
+  if (isValidPlaybackSettings(settings)) {
+    playbackSettings = settings;
+  }
+}
+
+/**
+ * ページ内の動画・音声の再生開始を検知するスクリプトを注入する
+ * 音声なしの自動再生と、一時停止から再開したときの再生は対象外
+ */
+function hookMediaPlayback(webview: WebviewTag): void {
+  webview
+    .executeJavaScript(
+      `
+    (function() {
+      if (window.__mediaPlaybackHooked) return;
+      window.__mediaPlaybackHooked = true;
+      const marker = ${JSON.stringify(MEDIA_PLAY_MARKER)};
+      document.addEventListener('play', (event) => {
+        const media = event.target;
+        if (window.__mediaResuming || media.muted || media.volume === 0) return;
+        console.debug(marker);
+      }, true);
+    })();
+  `
+    )
+    .catch(() => {
+      // 読み込み中のページでは一時停止しない
+    });
+}
+
+/**
+ * パネルの動画・音声を一時停止する
+ * @param remember true の場合は再開できるよう一時停止したメディアに印を付ける
+ */
+function pauseWebviewMedia(webview: WebviewTag, remember: boolean): void {
+  webview
+    .executeJavaScript(
+      `
+    (function() {
+      document.querySelectorAll('video, audio').forEach((media) => {
+        if (media.paused || media.ended) return;
+        if (${remember}) media.__pausedInBackground = true;
+        media.pause();
+      });
+    })();
+  `
+    )
+    .catch(() => {
+      // 読み込み中のページでは一時停止しない
+    });
+}
+
+/**
+ * pauseWebviewMedia で印を付けたメディアの再生を再開する
+ */
+function resumeWebviewMedia(webview: WebviewTag): void {
+  webview
+    .executeJavaScript(
+      `
+    (function() {
+      const resumed = Array.from(document.querySelectorAll('video, audio'))
+        .filter((media) => media.__pausedInBackground)
+        .map((media) => {
+          media.__pausedInBackground = false;
+          return media.play().catch(() => {});
+        });
+      if (resumed.length === 0) return;
+      // 再開による再生で他のパネルを一時停止しないようにする
+      window.__mediaResuming = true;
+      Promise.all(resumed).finally(() => {
+        window.__mediaResuming = false;
+      });
+    })();
+  `
+    )
+    .catch(() => {
+      // 再開できないページは何もしない
+    });
+}
+
+/**
+ * パネルで再生が始まったら、他のパネルの再生を一時停止する
+ */
+function handleMediaPlay(id: string): void {
+  if (!playbackSettings.exclusive) return;
+  getReadyWebviews()
+    .filter((webview) => getWebviewPanelId(webview) !== id)
+    .forEach((webview) => pauseWebviewMedia(webview, false));
+}
+
+/**
+ * ウィンドウの状態に合わせて再生を一時停止・再開する
+ */
+function handleWindowState(state: WindowState): void {
+  if (shouldPauseInBackground(playbackSettings.pauseInBackground, state)) {
+    if (isPausedInBackground) return;
+    isPausedInBackground = true;
+    getReadyWebviews().forEach((webview) => pauseWebviewMedia(webview, true));
+  } else if (state === 'focused' && isPausedInBackground) {
+    isPausedInBackground = false;
+    getReadyWebviews().forEach(resumeWebviewMedia);
+  }
+}
+
+/**
+ * 再生の設定の表示を更新
+ */
+function renderPlaybackSettings(): void {
+  const exclusive = document.querySelector<HTMLInputElement>('.settings-panel .playback-exclusive');
+  const background = document.querySelector<HTMLSelectElement>(
+    '.settings-panel .background-pause-select'
+  );
+  if (exclusive) exclusive.checked = playbackSettings.exclusive;
+  if (background) background.value = playbackSettings.pauseInBackground;
+}
+
+api.onWindowState(handleWindowState);
+
+/**
+ * 再生の設定の変更
+ */
+document.addEventListener('change', (event) => {
+  const target = event.target as HTMLElement;
+  const exclusive = target.closest<HTMLInputElement>('.playback-exclusive');
+  const background = target.closest<HTMLSelectElement>('.background-pause-select');
+
+  if (exclusive) {
+    playbackSettings = { ...playbackSettings, exclusive: exclusive.checked };
+  } else if (background && isValidBackgroundPause(background.value)) {
+    playbackSettings = { ...playbackSettings, pauseInBackground: background.value };
+  } else {
+    return;
+  }
+  savePlaybackSettings();
+});
+
+/**
+ * 音声を出すパネルの方針の変更
+ */
+document.addEventListener('change', (event) => {
+  const select = (event.target as HTMLElement).closest<HTMLSelectElement>('.audio-policy-select');
+  if (!select || !isValidAudioPolicy(select.value)) return;
+
+  changeAudioSettings({ ...audioSettings, policy: select.value });
+});
+
+/**
+ * 設定パネルのイベントリスナー
+ */
+document.addEventListener('click', (event) => {
+  const target = event.target as HTMLElement;
+
+  // 設定ボタンのクリック
+  if (target.closest('.settings-toggle')) {
+    toggleSettingsPanel();
+    return;
+  }
+
+  // ズームボタンのクリック
+  const zoomBtn = target.closest<HTMLElement>('.settings-panel .zoom-btn');
+  if (zoomBtn) {
+    const isZoomIn = zoomBtn.classList.contains('zoom-in');
+    changeGlobalZoom(isZoomIn ? ZOOM_STEP : -ZOOM_STEP);
+    return;
+  }
+
+  // 音量ボタンのクリック
+  const volumeBtn = target.closest<HTMLElement>('.settings-panel .volume-btn');
+  if (volumeBtn) {
+    const isVolumeUp = volumeBtn.classList.contains('volume-up');
+    changeGlobalVolume(isVolumeUp ? VOLUME_STEP : -VOLUME_STEP);
+    return;
+  }
+
+  // 設定のエクスポート・インポート（ダイアログと保存はメインプロセスで行う）
+  if (target.closest('.settings-panel .config-export')) {
+    api.exportConfig();
+    return;
+  }
+  if (target.closest('.settings-panel .config-import')) {
+    api.importConfig();
+    return;
+  }
+});
+
+// ===== レイアウトテンプレート =====
+
+/**
+ * 設定パネルのレイアウトテンプレート表示を現在のレイアウトに合わせる
+ */
+function renderLayoutTemplateControls(): void {
+  const select = document.querySelector<HTMLSelectElement>('.settings-panel .template-select');
+  const custom = document.querySelector<HTMLElement>('.settings-panel .template-custom');
+  const columns = document.querySelector<HTMLInputElement>('.settings-panel .template-columns');
+  const rows = document.querySelector<HTMLInputElement>('.settings-panel .template-rows');
+  if (select) {
+    select.value = layoutGrid?.template ?? 'classic';
+  }
+  if (custom) {
+    custom.hidden = layoutGrid?.template !== 'custom';
+  }
+  if (columns && rows) {
+    columns.value = String(layoutGrid?.columns ?? 2);
+    rows.value = String(layoutGrid?.rows ?? 2);
+  }
+}
+
+/**
+ * レイアウトテンプレートのイベントリスナー
+ */
+document.addEventListener('change', (event) => {
+  const target = event.target as HTMLElement;
+  if (!target.closest('.settings-panel .template-settings')) return;
+
+  const select = document.querySelector<HTMLSelectElement>('.settings-panel .template-select');
+  const columns = document.querySelector<HTMLInputElement>('.settings-panel .template-columns');
+  const rows = document.querySelector<HTMLInputElement>('.settings-panel .template-rows');
+  if (!select) return;
+
+  changeLayoutTemplate(
+    select.value as LayoutTemplateId,
+    Number(columns?.value) || undefined,
+    Number(rows?.value) || undefined
+  );
+});
+
+// ===== レイアウトプリセット =====
+
+/**
+ * レイアウトプリセット一覧を保存
+ */
+async function saveLayoutPresets(): Promise<void> {
+  await api.setConfig(STORAGE_KEY_LAYOUT_PRESETS, layoutPresets);
+}
+
+/**
+ * レイアウトプリセット一覧を復元
+ */
+async function restoreLayoutPresets(): Promise<void> {
+  const config = await api.getConfig(STORAGE_KEY_LAYOUT_PRESETS);
+  if (isValidLayoutPresetStore(config)) {
+    layoutPresets = config;
+  }
+}
+
+/**
+ * 現在の状態からプリセットの内容を作成する
+ */
+function captureLayoutPreset(id: string, name: string): LayoutPreset {
+  return {
+    id,
+    name,
+    layout: getCurrentLayout(),
+    pinned: isPinned,
+    zoom: globalZoom,
+    volume: globalVolume,
+    zoomOverrides: { ...zoomOverrides },
+    volumeOverrides: { ...volumeOverrides },
+  };
+}
+
+/**
+ * プリセットを適用する
+ * 適用後の状態は通常の設定（layout / pinned / zoom / volume）としても保存する
+ */
+async function applyLayoutPreset(preset: LayoutPreset): Promise<void> {
+  globalZoom = clampZoom(preset.zoom);
+  globalVolume = clampVolume(preset.volume);
+  zoomOverrides = { ...preset.zoomOverrides };
+  volumeOverrides = { ...preset.volumeOverrides };
+
+  layoutSplits = preset.layout.splits ?? {};
+  applyLayout(preset.layout.slots, preset.layout.grid);
+  renderLayoutTemplateControls();
+  setPinned(preset.pinned);
+
+  updateGlobalZoomDisplay();
+  updateGlobalVolumeDisplay();
+  updateAllPanelControls();
+  // 読み込み済みのパネルに適用する（起動時など読み込み前のパネルは dom-ready で適用される）
+  // DOM 移動後のサイズでズームを再計算する
+  setTimeout(applyGlobalZoom, 100);
+  applyGlobalVolume();
+
+  await saveLayout();
+  await savePinnedState();
+  await saveZoomConfig();
+  await saveVolumeConfig();
+}
+
+/**
+ * 設定パネルで選択中のプリセットを取得
+ */
+function getSelectedPreset(): LayoutPreset | undefined {
+  const select = document.querySelector<HTMLSelectElement>('.settings-panel .preset-select');
+  return layoutPresets.presets.find((preset) => preset.id === select?.value);
+}
+
+/**
+ * プリセット名の入力欄の値を取得
+ */
+function getPresetNameInput(): HTMLInputElement | null {
+  return document.querySelector<HTMLInputElement>('.settings-panel .preset-name');
+}
+
+/**
+ * 設定パネルのプリセット一覧を描画する
+ * @param selectedId 選択状態にするプリセットID
+ */
+function renderLayoutPresets(selectedId?: string): void {
+  const select = document.querySelector<HTMLSelectElement>('.settings-panel .preset-select');
+  if (!select) return;
+
+  const currentId = selectedId ?? select.value;
+  select.replaceChildren(
+    ...layoutPresets.presets.map((preset) => {
+      const option = document.createElement('option');
+      option.value = preset.id;
+      // 起動時プリセットには印を付ける
+      option.textContent =
+        preset.id === layoutPresets.defaultPresetId ? `★ ${preset.name}` : preset.name;
+      return option;
+    })
+  );
+  if (layoutPresets.presets.some((preset) => preset.id === currentId)) {
+    select.value = currentId;
+  }
+
+  const selected = getSelectedPreset();
+  const nameInput = getPresetNameInput();
+  if (nameInput) {
+    nameInput.value = selected?.name ?? '';
+  }
+
+  // 選択中のプリセットが必要な操作はプリセットがない場合に無効化
+  document
+    .querySelectorAll<HTMLButtonElement>('.settings-panel .preset-requires-selection')
+    .forEach((button) => {
+      button.disabled = !selected;
+    });
+  const defaultButton = document.querySelector<HTMLElement>('.settings-panel .preset-default');
+  if (defaultButton) {
+    defaultButton.classList.toggle(
+      'active',
+      !!selected && selected.id === layoutPresets.defaultPresetId
+    );
+  }
+}
+
+/**
+ * 現在の状態を新しいプリセットとして保存
+ */
+async function saveNewLayoutPreset(): Promise<void> {
+  const name = getPresetNameInput()?.value.trim();
+  if (!name) return;
+
+  const preset = captureLayoutPreset(crypto.randomUUID(), name);
+  layoutPresets = { ...layoutPresets, presets: [...layoutPresets.presets, preset] };
+  renderLayoutPresets(preset.id);
+  await saveLayoutPresets();
+}
+
+/**
+ * 選択中のプリセットを更新する
+ * @param overwrite true の場合は現在の状態で上書き、false の場合は名前のみ変更
+ */
+async function updateSelectedLayoutPreset(overwrite: boolean): Promise<void> {
+  const selected = getSelectedPreset();
+  const name = getPresetNameInput()?.value.trim() || selected?.name;
+  if (!selected || !name) return;
+
+  const updated = overwrite ? captureLayoutPreset(selected.id, name) : { ...selected, name };
+  layoutPresets = {
+    ...layoutPresets,
+    presets: layoutPresets.presets.map((preset) => (preset.id === selected.id ? updated : preset)),
+  };
+  renderLayoutPresets(selected.id);
+  await saveLayoutPresets();
+}
+
+/**
+ * 選択中のプリセットを削除する
+ */
+async function deleteSelectedLayoutPreset(): Promise<void> {
+  const selected = getSelectedPreset();
+  if (!selected) return;
+  if (!confirm(`レイアウト「${selected.name}」を削除しますか？`)) return;
+
+  layoutPresets = {
+    presets: layoutPresets.presets.filter((preset) => preset.id !== selected.id),
+    defaultPresetId:
+      layoutPresets.defaultPresetId === selected.id ? null : layoutPresets.defaultPresetId,
+  };
+  renderLayoutPresets('');
+  await saveLayoutPresets();
+}
+
+/**
+ * 選択中のプリセットを起動時プリセットに設定（設定済みなら解除）
+ */
+async function toggleDefaultLayoutPreset(): Promise<void> {
+  const selected = getSelectedPreset();
+  if (!selected) return;
+
+  layoutPresets = {
+    ...layoutPresets,
+    defaultPresetId: layoutPresets.defaultPresetId === selected.id ? null : selected.id,
+  };
+  renderLayoutPresets(selected.id);
+  await saveLayoutPresets();
+}
+
+/**
+ * 起動時プリセットが設定されていれば適用する
+ */
+async function applyDefaultLayoutPreset(): Promise<void> {
+  const preset = layoutPresets.presets.find((p) => p.id === layoutPresets.defaultPresetId);
+  if (preset) {
+    await applyLayoutPreset(preset);
+  }
+}
+
+/**
+ * レイアウトプリセットのイベントリスナー
+ */
+document.addEventListener('click', (event) => {
   const target = event.target as HTMLElement;
-  if (target.closest('.pin-button')) {
-    togglePin();
+  if (!target.closest('.settings-panel .preset-settings')) return;
+
+  if (target.closest('.preset-apply')) {
+    const selected = getSelectedPreset();
+    if (selected) applyLayoutPreset(selected);
+  } else if (target.closest('.preset-save-new')) {
+    saveNewLayoutPreset();
+  } else if (target.closest('.preset-overwrite')) {
+    updateSelectedLayoutPreset(true);
+  } else if (target.closest('.preset-rename')) {
+    updateSelectedLayoutPreset(false);
+  } else if (target.closest('.preset-delete')) {
+    deleteSelectedLayoutPreset();
+  } else if (target.closest('.preset-default')) {
+    toggleDefaultLayoutPreset();
+  }
+});
+
+document.addEventListener('change', (event) => {
+  const target = event.target as HTMLElement;
+  if (target.closest('.settings-panel .preset-select')) {
+    renderLayoutPresets();
+  }
+});
+
+// ===== キーボードショートカット =====
+
+// コマンドごとのショートカット
+let shortcutBindings: ShortcutBindings = { ...DEFAULT_SHORTCUTS };
+
+// 最後にフォーカスされたパネル（再読み込みの対象）
+let focusedPanelId: string | null = null;
+
+// ミュート前の統一音量（ミュート解除時に戻す）
+let volumeBeforeMute = VOLUME_DEFAULT;
+
+// すべてのパネルをミュート中（音量設定は変更しない）
+let isMutedAll = false;
+
+// ショートカットを入力中のコマンド
+let recordingCommand: ShortcutCommand | null = null;
+
+const isMac = api.platform === 'darwin';
+
+/**
+ * ショートカット設定を保存
+ * メインプロセスは保存を検知してメニューのアクセラレーターを更新する
+ */
+async function saveShortcuts(): Promise<void> {
+  await api.setConfig(STORAGE_KEY_SHORTCUTS, shortcutBindings);
+}
+
+/**
+ * ショートカット設定を復元
+ */
+async function restoreShortcuts(): Promise<void> {
+  shortcutBindings = resolveShortcutBindings(await api.getConfig(STORAGE_KEY_SHORTCUTS));
+}
+
+/**
+ * スロット位置のパネルをメインにする（既存の入れ替え処理を使う）
+ */
+async function promotePanelAt(index: number): Promise<void> {
+  const slots = getCurrentSlots();
+  if (index <= 0 || index >= slots.length) return;
+  const panel = getPanel(slots[index]);
+  if (!panel) return;
+
+  if (layoutGrid) {
+    await promoteGridPanel(panel);
+  } else if (panel.classList.contains('secondary-panel')) {
+    await swapWithSecondary(panel);
+  } else if (panel.classList.contains('sub-panel')) {
+    await swapPanels(panel);
+  }
+}
+
+/**
+ * サービスの登録順で前後のパネルをメインにする
+ */
+async function cycleMainPanel(step: number): Promise<void> {
+  const slots = getCurrentSlots();
+  const order = services.map((service) => service.id).filter((id) => slots.includes(id));
+  if (order.length < 2) return;
+
+  const current = order.indexOf(slots[0]);
+  const next = order[(current + step + order.length) % order.length];
+  await promotePanelAt(slots.indexOf(next));
+}
+
+/**
+ * フォーカス中のパネル（なければメインパネル）を再読み込みする
+ */
+function reloadFocusedPanel(): void {
+  const panel =
+    (focusedPanelId && getPanel(focusedPanelId)) || getPanel(getCurrentSlots()[0] ?? '');
+  const webview = panel?.querySelector<WebviewTag>('.webview');
+  if (webview && readyWebviews.has(webview)) webview.reload();
+}
+
+/**
+ * 統一音量のミュートを切り替える
+ */
+async function toggleMute(): Promise<void> {
+  if (globalVolume > 0) {
+    volumeBeforeMute = globalVolume;
+    await changeGlobalVolume(-globalVolume);
+  } else {
+    await changeGlobalVolume(volumeBeforeMute);
+  }
+}
+
+/**
+ * すべてのパネルのミュートを切り替える
+ * 状態はトレイメニューに表示するためメインプロセスにも送る
+ */
+function toggleMuteAll(): void {
+  isMutedAll = !isMutedAll;
+  document.body.classList.toggle('muted-all', isMutedAll);
+  applyGlobalVolume();
+  api.setMutedAll(isMutedAll);
+}
+
+/**
+ * ショートカット・メニューのコマンドを実行する
+ */
+function executeCommand(command: ShortcutCommand): void {
+  const promote = /^promote-([1-9])$/.exec(command);
+  if (promote) {
+    promotePanelAt(Number(promote[1]) - 1);
+    return;
+  }
+
+  switch (command) {
+    case 'cycle-next':
+      cycleMainPanel(1);
+      break;
+    case 'cycle-previous':
+      cycleMainPanel(-1);
+      break;
+    case 'toggle-pin':
+      togglePin();
+      break;
+    case 'zoom-in':
+      changeGlobalZoom(ZOOM_STEP);
+      break;
+    case 'zoom-out':
+      changeGlobalZoom(-ZOOM_STEP);
+      break;
+    case 'zoom-reset':
+      changeGlobalZoom(ZOOM_DEFAULT - globalZoom);
+      break;
+    case 'volume-up':
+      changeGlobalVolume(VOLUME_STEP);
+      break;
+    case 'volume-down':
+      changeGlobalVolume(-VOLUME_STEP);
+      break;
+    case 'volume-mute':
+      toggleMute();
+      break;
+    case 'mute-all':
+      toggleMuteAll();
+      break;
+    case 'reload-panel':
+      reloadFocusedPanel();
+      break;
+    case 'open-settings':
+      toggleSettingsPanel();
+      break;
+  }
+}
+
+/**
+ * 設定パネルのショートカット一覧を描画する
+ */
+function renderShortcutList(): void {
+  const list = document.querySelector<HTMLElement>('.settings-panel .shortcut-list');
+  if (!list) return;
+
+  list.replaceChildren(
+    ...SHORTCUT_COMMANDS.map(({ command, label }) => {
+      const item = document.createElement('li');
+      item.className = 'shortcut-item';
+      item.dataset.command = command;
+
+      const name = document.createElement('span');
+      name.className = 'shortcut-item-label';
+      name.textContent = label;
+
+      const key = document.createElement('button');
+      key.type = 'button';
+      key.className = 'settings-text-btn shortcut-key';
+      key.classList.toggle('active', recordingCommand === command);
+      key.textContent =
+        recordingCommand === command
+          ? 'キーを入力…'
+          : formatAccelerator(shortcutBindings[command], isMac);
+      key.title = 'クリックしてショートカットを変更（Esc でキャンセル）';
+
+      const clear = document.createElement('button');
+      clear.type = 'button';
+      clear.className = 'settings-btn service-btn shortcut-clear';
+      clear.textContent = '✕';
+      clear.title = '割り当てを解除';
+      clear.disabled = shortcutBindings[command] === '';
+
+      item.append(name, key, clear);
+      return item;
+    })
+  );
+}
+
+/**
+ * コマンドにショートカットを割り当てて保存する
+ */
+async function setShortcut(command: ShortcutCommand, accelerator: string): Promise<void> {
+  shortcutBindings = assignShortcut(shortcutBindings, command, accelerator);
+  recordingCommand = null;
+  renderShortcutList();
+  await saveShortcuts();
+}
+
+/**
+ * ショートカットをすべてデフォルトに戻す
+ */
+async function resetShortcuts(): Promise<void> {
+  if (!confirm('ショートカットをすべて初期設定に戻しますか？')) return;
+  shortcutBindings = { ...DEFAULT_SHORTCUTS };
+  recordingCommand = null;
+  renderShortcutList();
+  await saveShortcuts();
+}
+
+/**
+ * ショートカット設定のイベントリスナー
+ */
+document.addEventListener('click', (event) => {
+  const target = event.target as HTMLElement;
+  if (target.closest('.shortcut-reset')) {
+    resetShortcuts();
+    return;
+  }
+
+  const item = target.closest<HTMLElement>('.shortcut-item');
+  const command = item?.dataset.command;
+  if (!isShortcutCommand(command)) return;
+
+  if (target.closest('.shortcut-key')) {
+    // 入力中のボタンをもう一度押すとキャンセル
+    recordingCommand = recordingCommand === command ? null : command;
+    renderShortcutList();
+  } else if (target.closest('.shortcut-clear')) {
+    setShortcut(command, '');
+  }
+});
+
+/**
+ * キー入力でショートカットを実行する（メインウィンドウにフォーカスがある場合）
+ * webview にフォーカスがある場合はメニューのアクセラレーターが処理する
+ */
+document.addEventListener('keydown', (event) => {
+  // ショートカットの入力中
+  if (recordingCommand) {
+    event.preventDefault();
+    if (event.code === 'Escape') {
+      recordingCommand = null;
+      renderShortcutList();
+      return;
+    }
+    const accelerator = keyEventToAccelerator(event, isMac);
+    if (accelerator) {
+      setShortcut(recordingCommand, accelerator);
+    }
+    return;
+  }
+
+  const accelerator = keyEventToAccelerator(event, isMac);
+  if (!accelerator) return;
+
+  // 入力欄では修飾キーなしのショートカットを無視
+  const target = event.target as HTMLElement;
+  const hasModifier = event.ctrlKey || event.metaKey || event.altKey;
+  if (target.closest('input, textarea, select') && !hasModifier) return;
+
+  const entry = SHORTCUT_COMMANDS.find(
+    ({ command }) => normalizeAccelerator(shortcutBindings[command], isMac) === accelerator
+  );
+  if (!entry) return;
+
+  // 既定の動作とメニューのアクセラレーターの二重実行を防ぐ
+  event.preventDefault();
+  executeCommand(entry.command);
+});
+
+// メニュー（webview にフォーカスがある場合のアクセラレーターを含む）からのコマンド
+api.onCommand((command) => {
+  if (isShortcutCommand(command)) {
+    executeCommand(command);
+  }
+});
+
+// トレイメニューからのプリセット切り替え
+api.onApplyLayoutPreset((id) => {
+  const preset = layoutPresets.presets.find((p) => p.id === id);
+  if (preset) {
+    applyLayoutPreset(preset);
+    renderLayoutPresets(preset.id);
+  }
+});
+
+// ===== サービス設定 =====
+
+/**
+ * 設定パネルのサービス一覧を描画する
+ */
+function renderServiceList(): void {
+  const list = document.querySelector<HTMLElement>('.settings-panel .service-list');
+  if (!list) return;
+
+  list.replaceChildren(
+    ...services.map((service, index) => {
+      const item = document.createElement('li');
+      item.className = 'service-item';
+      item.dataset.serviceId = service.id;
+
+      const label = document.createElement('span');
+      label.className = 'service-item-label';
+      label.textContent = `${service.icon} ${service.name}`.trim();
+      label.title = service.url;
+
+      const actions = document.createElement('div');
+      actions.className = 'service-item-actions';
+      const buttons: [string, string, string, boolean][] = [
+        ['service-move-up', '↑', '上へ移動', index === 0],
+        ['service-move-down', '↓', '下へ移動', index === services.length - 1],
+        ['service-edit', '✎', '編集', false],
+        ['service-duplicate', '⧉', '別アカウントで複製', false],
+        ['service-remove', '✕', '削除', services.length === 1],
+      ];
+      buttons.forEach(([className, text, title, disabled]) => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = `settings-btn service-btn ${className}`;
+        button.textContent = text;
+        button.title = title;
+        button.disabled = disabled;
+        actions.appendChild(button);
+      });
+
+      item.append(label, actions);
+      return item;
+    })
+  );
+}
+
+/**
+ * 使用中のプロファイル名の一覧を取得
+ */
+function getProfileNames(): string[] {
+  const profiles = new Set([DEFAULT_PROFILE]);
+  services.forEach((service) => {
+    if (service.profile) profiles.add(service.profile);
+  });
+  return Array.from(profiles);
+}
+
+/**
+ * サービス編集フォームを開く
+ * service を省略した場合、または id が空の場合は新規追加として開く
+ */
+function openServiceForm(service?: ServiceDefinition): void {
+  const form = document.querySelector<HTMLFormElement>('.settings-panel .service-form');
+  if (!form) return;
+
+  const field = (name: string): HTMLInputElement | HTMLSelectElement =>
+    form.elements.namedItem(name) as HTMLInputElement | HTMLSelectElement;
+  const checkbox = (name: string): HTMLInputElement =>
+    form.elements.namedItem(name) as HTMLInputElement;
+
+  form.reset();
+  field('id').value = service?.id ?? '';
+  if (service) {
+    field('name').value = service.name;
+    field('url').value = service.url;
+    field('icon').value = service.icon;
+    field('defaultMode').value = service.defaultMode;
+    field('profile').value = service.profile ?? '';
+    field('refreshInterval').value = String(service.refresh?.intervalMinutes ?? 0);
+    if (service.refresh) {
+      checkbox('refreshSkipFocused').checked = service.refresh.skipWhenFocused;
+      checkbox('refreshSkipPlaying').checked = service.refresh.skipWhenPlaying;
+    }
+    checkbox('neverHibernate').checked = service.neverHibernate === true;
+    checkbox('alwaysStartAtHome').checked = service.alwaysStartAtHome === true;
+    field('blockerAllowlist').value = (service.blockerAllowlist ?? []).join(', ');
+  }
+  const linkPolicy = service?.linkPolicy ?? DEFAULT_LINK_POLICY;
+  field('linkExternal').value = linkPolicy.external;
+  field('linkSameSite').value = linkPolicy.sameSite;
+  checkbox('linkRouteToPanels').checked = linkPolicy.routeToPanels;
+
+  // プロファイルの入力候補
+  const profileOptions = form.querySelector<HTMLDataListElement>('.profile-options');
+  profileOptions?.replaceChildren(
+    ...getProfileNames().map((profile) => {
+      const option = document.createElement('option');
+      option.value = profile;
+      return option;
+    })
+  );
+
+  setServiceFormError('');
+  form.classList.add('visible');
+  field('name').focus();
+}
+
+/**
+ * 同じサービスを別プロファイル（別アカウント）で開くためのフォームを開く
+ */
+function openDuplicateServiceForm(service: ServiceDefinition): void {
+  openServiceForm({
+    ...service,
+    id: '',
+    name: `${service.name} (2)`,
+    profile: createServiceId(service.id, getProfileNames()),
+  });
+}
+
+/**
+ * サービス編集フォームを閉じる
+ */
+function closeServiceForm(): void {
+  document.querySelector('.settings-panel .service-form')?.classList.remove('visible');
+}
+
+/**
+ * サービス編集フォームのエラー表示を更新
+ */
+function setServiceFormError(message: string): void {
+  const error = document.querySelector('.settings-panel .service-form-error');
+  if (error) {
+    error.textContent = message;
+  }
+}
+
+/**
+ * サービス一覧の変更をパネルに反映して保存する
+ */
+async function commitServices(slots: string[]): Promise<void> {
+  // 表示モードの変更もここで現在の配置に反映される
+  applyLayout(slots, layoutGrid);
+  applyGlobalZoom();
+  renderServiceList();
+  await saveServices();
+  await saveLayout();
+}
+
+/**
+ * サービス編集フォームの内容を保存する
+ */
+async function submitServiceForm(form: HTMLFormElement): Promise<void> {
+  const value = (name: string): string =>
+    (form.elements.namedItem(name) as HTMLInputElement | HTMLSelectElement).value.trim();
+
+  const existingId = value('id');
+  const ids = services.map((s) => s.id);
+  const service: ServiceDefinition = {
+    id: existingId || createServiceId(value('name'), ids),
+    name: value('name'),
+    url: value('url'),
+    icon: value('icon'),
+    defaultMode: value('defaultMode') as ServiceViewMode,
+  };
+  const profile = value('profile');
+  if (profile && profile !== DEFAULT_PROFILE) {
+    service.profile = profile;
+  }
+  const checked = (name: string): boolean =>
+    (form.elements.namedItem(name) as HTMLInputElement).checked;
+  const refreshInterval = Number(value('refreshInterval'));
+  if (refreshInterval > 0) {
+    service.refresh = {
+      intervalMinutes: refreshInterval,
+      skipWhenFocused: checked('refreshSkipFocused'),
+      skipWhenPlaying: checked('refreshSkipPlaying'),
+    };
+  }
+  if (checked('neverHibernate')) {
+    service.neverHibernate = true;
+  }
+  if (checked('alwaysStartAtHome')) {
+    service.alwaysStartAtHome = true;
+  }
+  const blockerAllowlist = parseDomainList(value('blockerAllowlist'));
+  if (blockerAllowlist.length > 0) {
+    service.blockerAllowlist = blockerAllowlist;
+  }
+  const linkPolicy: LinkPolicy = {
+    external: value('linkExternal') as ExternalLinkTarget,
+    sameSite: value('linkSameSite') as SameSiteLinkTarget,
+    routeToPanels: checked('linkRouteToPanels'),
+  };
+  if (
+    linkPolicy.external !== DEFAULT_LINK_POLICY.external ||
+    linkPolicy.sameSite !== DEFAULT_LINK_POLICY.sameSite ||
+    linkPolicy.routeToPanels !== DEFAULT_LINK_POLICY.routeToPanels
+  ) {
+    service.linkPolicy = linkPolicy;
+  }
+
+  if (!isValidServiceUrl(service.url)) {
+    setServiceFormError('URL は http:// または https:// で始まる必要があります');
+    return;
+  }
+  if (profile && !isValidProfileName(profile)) {
+    setServiceFormError('プロファイル名は英数字・ハイフン・アンダースコアのみ使用できます');
+    return;
+  }
+  if (!isValidServiceDefinition(service)) {
+    setServiceFormError('入力内容が正しくありません');
+    return;
+  }
+
+  const previous = getService(existingId);
+  if (previous) {
+    services = services.map((s) => (s.id === service.id ? service : s));
+
+    if (previous.url !== service.url) {
+      // 別のサイトに変わった可能性があるため、前回の URL は使わない
+      forgetLastUrl(service.id);
+    }
+    const panel = getPanel(service.id);
+    if (panel) {
+      updatePanelHeader(panel, service);
+      if (getPartitionName(previous.profile) !== getPartitionName(service.profile)) {
+        // プロファイルが変わった場合は別セッションの webview に置き換える
+        replacePanelWebview(panel, service);
+      } else if (previous.url !== service.url) {
+        // 開始 URL が変わった場合は読み込み直す
+        panel.querySelector<WebviewTag>('.webview')?.setAttribute('src', service.url);
+      }
+    }
+    if (previous.refresh?.intervalMinutes !== service.refresh?.intervalMinutes) {
+      refreshDeadlines.delete(service.id);
+    }
+  } else {
+    services = [...services, service];
+  }
+
+  closeServiceForm();
+  await commitServices(getCurrentSlots());
+}
+
+/**
+ * サービスの登録順を入れ替える
+ * 現在のレイアウト上の位置も合わせて入れ替える
+ */
+async function moveService(id: string, delta: number): Promise<void> {
+  const index = services.findIndex((service) => service.id === id);
+  const targetIndex = index + delta;
+  if (index < 0 || targetIndex < 0 || targetIndex >= services.length) return;
+
+  const reordered = [...services];
+  [reordered[index], reordered[targetIndex]] = [reordered[targetIndex], reordered[index]];
+  services = reordered;
+
+  const slots = getCurrentSlots();
+  const a = slots.indexOf(id);
+  const b = slots.indexOf(reordered[index].id);
+  if (a >= 0 && b >= 0) {
+    [slots[a], slots[b]] = [slots[b], slots[a]];
+  }
+
+  await commitServices(slots);
+}
+
+/**
+ * サービスを削除する
+ */
+async function removeService(id: string): Promise<void> {
+  const service = getService(id);
+  if (!service || services.length === 1) return;
+  if (!confirm(`${service.name} を削除しますか？`)) return;
+
+  services = services.filter((s) => s.id !== id);
+  const { [id]: _zoom, ...zoomRest } = zoomOverrides;
+  const { [id]: _volume, ...volumeRest } = volumeOverrides;
+  zoomOverrides = zoomRest;
+  volumeOverrides = volumeRest;
+  forgetLastUrl(id);
+  await forgetAudioSettings(id);
+  await saveServiceOverrides();
+  await commitServices(getCurrentSlots());
+}
+
+/**
+ * サービス設定のイベントリスナー
+ */
+document.addEventListener('click', (event) => {
+  const target = event.target as HTMLElement;
+
+  if (target.closest('.settings-panel .service-add')) {
+    openServiceForm();
+    return;
+  }
+
+  if (target.closest('.settings-panel .service-form-cancel')) {
+    closeServiceForm();
+    return;
+  }
+
+  const item = target.closest<HTMLElement>('.settings-panel .service-item');
+  const id = item?.dataset.serviceId;
+  if (!id) return;
+
+  if (target.closest('.service-move-up')) {
+    moveService(id, -1);
+  } else if (target.closest('.service-move-down')) {
+    moveService(id, 1);
+  } else if (target.closest('.service-edit')) {
+    openServiceForm(getService(id));
+  } else if (target.closest('.service-duplicate')) {
+    const service = getService(id);
+    if (service) openDuplicateServiceForm(service);
+  } else if (target.closest('.service-remove')) {
+    removeService(id);
+  }
+});
+
+document.addEventListener('submit', (event) => {
+  const form = (event.target as HTMLElement).closest<HTMLFormElement>('.service-form');
+  if (!form) return;
+  event.preventDefault();
+  submitServiceForm(form);
+});
+
+// ===== ユーザー CSS / スクリプト =====
+
+// 注入ルールの一覧
+let injectionRules: InjectionRule[] = [];
+
+// 挿入済みの CSS（ルールID → insertCSS のキーと挿入した CSS）
+type InjectedStyles = Map<string, { key: Promise<string>; css: string }>;
+
+// webview ごとに挿入済みの CSS
+const injectedStyles = new WeakMap<WebviewTag, InjectedStyles>();
+
+/**
+ * 注入ルールを保存
+ */
+async function saveInjectionRules(): Promise<void> {
+  await api.setConfig(STORAGE_KEY_INJECTION_RULES, injectionRules);
+}
+
+/**
+ * 注入ルールを復元
+ */
+async function restoreInjectionRules(): Promise<void> {
+  const rules = await api.getConfig(STORAGE_KEY_INJECTION_RULES);
+  if (isValidInjectionRules(rules)) {
+    injectionRules = rules;
   }
-});
+}
 
-// ===== 統一設定パネル機能 =====
+/**
+ * 表示中のページに一致するルールの CSS を挿入し、一致しなくなったルールの CSS を外す
+ * @param runScripts true の場合は一致するルールのスクリプトも実行する（読み込み・ページ内の遷移時）
+ */
+function applyInjectionRules(webview: WebviewTag, runScripts: boolean): void {
+  if (!readyWebviews.has(webview)) return;
+  const inserted: InjectedStyles = injectedStyles.get(webview) ?? new Map();
+  injectedStyles.set(webview, inserted);
+  const rules = getMatchingRules(injectionRules, getWebviewPanelId(webview), webview.getURL());
+
+  // 一致しなくなった・内容が変わった CSS を外す
+  inserted.forEach((style, ruleId) => {
+    const rule = rules.find((r) => r.id === ruleId);
+    if (rule && rule.css === style.css) return;
+    inserted.delete(ruleId);
+    style.key.then((key) => webview.removeInsertedCSS(key)).catch(() => {});
+  });
+
+  rules.forEach((rule) => {
+    if (rule.css.trim() && !inserted.has(rule.id)) {
+      inserted.set(rule.id, { key: webview.insertCSS(rule.css), css: rule.css });
+    }
+    if (runScripts && rule.js.trim()) {
+      webview.executeJavaScript(rule.js).catch((error) => {
+        console.warn(`Injection rule "${rule.name}" failed:`, error);
+      });
+    }
+  });
+}
 
 /**
- * 設定パネルの表示を切り替える
+ * 注入ルールの変更をすべてのパネルに反映して保存する
+ * スクリプトは次の読み込み・ページ内の遷移から実行する
  */
-function toggleSettingsPanel(): void {
-  const settingsPanel = document.querySelector<HTMLElement>('.settings-panel');
-  if (settingsPanel) {
-    settingsPanel.classList.toggle('visible');
-  }
+async function commitInjectionRules(rules: InjectionRule[]): Promise<void> {
+  injectionRules = rules;
+  getReadyWebviews().forEach((webview) => applyInjectionRules(webview, false));
+  renderRuleList();
+  await saveInjectionRules();
 }
 
 /**
- * ズーム設定を保存
+ * 注入ルールの一覧を表示
  */
-async function saveZoomConfig(): Promise<void> {
-  await api.setConfig(STORAGE_KEY_ZOOM, globalZoom);
+function renderRuleList(): void {
+  const list = document.querySelector<HTMLElement>('.settings-panel .rule-list');
+  if (!list) return;
+
+  list.replaceChildren(
+    ...injectionRules.map((rule) => {
+      const item = document.createElement('li');
+      item.className = 'service-item rule-item';
+      item.dataset.ruleId = rule.id;
+
+      const toggle = document.createElement('input');
+      toggle.type = 'checkbox';
+      toggle.className = 'rule-toggle';
+      toggle.checked = rule.enabled;
+      toggle.title = rule.enabled ? '無効にする' : '有効にする';
+
+      const service = rule.serviceId === null ? undefined : getService(rule.serviceId);
+      const label = document.createElement('span');
+      label.className = 'service-item-label rule-item-label';
+      label.textContent = rule.name;
+      label.title = [
+        rule.serviceId === null ? 'すべてのサービス' : service?.name || rule.serviceId,
+        rule.urlPattern,
+      ]
+        .filter(Boolean)
+        .join(' / ');
+
+      const actions = document.createElement('div');
+      actions.className = 'service-item-actions';
+      const buttons: [string, string, string][] = [
+        ['rule-edit', '✎', '編集'],
+        ['rule-remove', '✕', '削除'],
+      ];
+      buttons.forEach(([className, text, title]) => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = `settings-btn service-btn ${className}`;
+        button.textContent = text;
+        button.title = title;
+        actions.appendChild(button);
+      });
+
+      item.append(toggle, label, actions);
+      return item;
+    })
+  );
 }
 
 /**
- * ズーム設定を復元
+ * 注入ルールの編集フォームを開く
+ * rule を省略した場合は新規追加として開く
  */
-async function restoreZoomConfig(): Promise<void> {
-  const config = await api.getConfig(STORAGE_KEY_ZOOM);
-  if (typeof config === 'number') {
-    globalZoom = clampZoom(config);
+function openRuleForm(rule?: InjectionRule): void {
+  const form = document.querySelector<HTMLFormElement>('.settings-panel .rule-form');
+  if (!form) return;
+
+  const field = (name: string): HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement =>
+    form.elements.namedItem(name) as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+  // 対象サービスの選択肢
+  const serviceSelect = form.querySelector<HTMLSelectElement>('.rule-service-options');
+  if (serviceSelect) {
+    const all = document.createElement('option');
+    all.value = '';
+    all.textContent = 'All services';
+    serviceSelect.replaceChildren(
+      all,
+      ...services.map((service) => {
+        const option = document.createElement('option');
+        option.value = service.id;
+        option.textContent = `${service.icon} ${service.name}`.trim();
+        return option;
+      })
+    );
+  }
+
+  form.reset();
+  field('id').value = rule?.id ?? '';
+  if (rule) {
+    field('name').value = rule.name;
+    field('serviceId').value = rule.serviceId ?? '';
+    field('urlPattern').value = rule.urlPattern;
+    field('css').value = rule.css;
+    field('js').value = rule.js;
+    (field('enabled') as HTMLInputElement).checked = rule.enabled;
   }
+
+  setRuleFormError('');
+  form.classList.add('visible');
+  field('name').focus();
 }
 
 /**
- * 統一ズーム表示を更新
+ * 注入ルールの編集フォームを閉じる
  */
-function updateGlobalZoomDisplay(): void {
-  const zoomLevel = document.querySelector('.settings-panel .zoom-level');
-  if (zoomLevel) {
-    zoomLevel.textContent = formatZoomPercent(globalZoom);
-  }
+function closeRuleForm(): void {
+  document.querySelector('.settings-panel .rule-form')?.classList.remove('visible');
 }
 
 /**
- * すべてのwebviewにズームを適用
+ * 注入ルールの編集フォームのエラー表示を更新
  */
-function applyGlobalZoom(): void {
-  document.querySelectorAll<WebviewTag>('.webview').forEach((webview) => {
-    const isDesktop = webview.classList.contains('webview-desktop');
-    adjustWebviewZoom(webview, isDesktop);
-  });
+function setRuleFormError(message: string): void {
+  const error = document.querySelector('.settings-panel .rule-form-error');
+  if (error) {
+    error.textContent = message;
+  }
 }
 
 /**
- * ズームを変更
+ * 注入ルールの編集フォームの内容を保存する
  */
-async function changeGlobalZoom(delta: number): Promise<void> {
-  globalZoom = clampZoom(globalZoom + delta);
+async function submitRuleForm(form: HTMLFormElement): Promise<void> {
+  const value = (name: string): string =>
+    (form.elements.namedItem(name) as HTMLInputElement | HTMLTextAreaElement).value;
 
-  // 表示を更新
-  updateGlobalZoomDisplay();
+  const existingId = value('id');
+  const rule: InjectionRule = {
+    id: existingId || crypto.randomUUID(),
+    name: value('name').trim(),
+    serviceId: value('serviceId') || null,
+    urlPattern: value('urlPattern').trim(),
+    css: value('css'),
+    js: value('js'),
+    enabled: (form.elements.namedItem('enabled') as HTMLInputElement).checked,
+  };
 
-  // 全webviewに適用
-  applyGlobalZoom();
+  if (!rule.name) {
+    setRuleFormError('名前を入力してください');
+    return;
+  }
+  if (!rule.css.trim() && !rule.js.trim()) {
+    setRuleFormError('CSS かスクリプトを入力してください');
+    return;
+  }
 
-  // 保存
-  await saveZoomConfig();
+  const exists = injectionRules.some((r) => r.id === existingId);
+  closeRuleForm();
+  await commitInjectionRules(
+    exists ? injectionRules.map((r) => (r.id === rule.id ? rule : r)) : [...injectionRules, rule]
+  );
 }
 
 /**
- * 音量設定を保存
+ * 注入ルールを削除する
  */
-async function saveVolumeConfig(): Promise<void> {
-  await api.setConfig(STORAGE_KEY_VOLUME, globalVolume);
+async function removeInjectionRule(id: string): Promise<void> {
+  const rule = injectionRules.find((r) => r.id === id);
+  if (!rule || !confirm(`${rule.name} を削除しますか？`)) return;
+  await commitInjectionRules(injectionRules.filter((r) => r.id !== id));
 }
 
 /**
- * 音量設定を復元
+ * 注入ルールの設定のイベントリスナー
  */
-async function restoreVolumeConfig(): Promise<void> {
-  const config = await api.getConfig(STORAGE_KEY_VOLUME);
-  if (typeof config === 'number') {
-    globalVolume = clampVolume(config);
+document.addEventListener('click', (event) => {
+  const target = event.target as HTMLElement;
+
+  if (target.closest('.settings-panel .rule-add')) {
+    openRuleForm();
+    return;
   }
-}
+
+  if (target.closest('.settings-panel .rule-form-cancel')) {
+    closeRuleForm();
+    return;
+  }
+
+  const id = target.closest<HTMLElement>('.settings-panel .rule-item')?.dataset.ruleId;
+  if (!id) return;
+
+  if (target.closest('.rule-edit')) {
+    openRuleForm(injectionRules.find((rule) => rule.id === id));
+  } else if (target.closest('.rule-remove')) {
+    removeInjectionRule(id);
+  }
+});
+
+document.addEventListener('change', (event) => {
+  const toggle = (event.target as HTMLElement).closest<HTMLInputElement>('.rule-toggle');
+  const id = toggle?.closest<HTMLElement>('.rule-item')?.dataset.ruleId;
+  if (!toggle || !id) return;
+
+  commitInjectionRules(
+    injectionRules.map((rule) => (rule.id === id ? { ...rule, enabled: toggle.checked } : rule))
+  );
+});
+
+document.addEventListener('submit', (event) => {
+  const form = (event.target as HTMLElement).closest<HTMLFormElement>('.rule-form');
+  if (!form) return;
+  event.preventDefault();
+  submitRuleForm(form);
+});
+
+// ===== リンクの開き方 =====
 
 /**
- * 統一音量表示を更新
+ * パネルで URL を開く
+ * 休止中・読み込み待ちのパネルは再開してから開く
  */
-function updateGlobalVolumeDisplay(): void {
-  const volumeLevel = document.querySelector('.settings-panel .volume-level');
-  const volumeIcon = document.querySelector('.settings-panel .volume-icon');
-  if (volumeLevel) {
-    volumeLevel.textContent = formatVolumePercent(globalVolume);
+function openUrlInPanel(id: string, url: string): void {
+  const panel = getPanel(id);
+  if (!panel || !isValidServiceUrl(url)) return;
+
+  wakePanel(panel);
+  markPanelActive(id);
+  const webview = panel.querySelector<WebviewTag>('.webview');
+  if (!webview) return;
+  if (readyWebviews.has(webview)) {
+    webview.loadURL(url).catch(() => {
+      // 失敗した場合は did-fail-load で表示する
+    });
+  } else {
+    webview.setAttribute('src', url);
   }
-  if (volumeIcon) {
-    volumeIcon.textContent = getVolumeIcon(globalVolume);
+}
+
+/**
+ * 他のパネルから送られた URL を開く
+ * promote が true の場合は、開いたパネルを入れ替えでメインパネルにする
+ * @param id 開くパネルのサービス ID（null の場合はメインパネル）
+ */
+async function handleOpenInPanel(id: string | null, url: string, promote: boolean): Promise<void> {
+  const targetId = id ?? getCurrentSlots()[0];
+  if (!targetId) return;
+
+  openUrlInPanel(targetId, url);
+  if (promote) {
+    await promotePanelAt(getCurrentSlots().indexOf(targetId));
   }
 }
 
+// 他のサービスのサイトへのリンク（メインプロセスで判定）と、
+// ヘッダーのボタン・右クリックメニューから他のパネルで開くページ
+api.onOpenInPanel(handleOpenInPanel);
+
+// ===== コンテンツブロック =====
+
+// コンテンツブロックの設定（フィルターリストの読み込みと判定はメインプロセスで行う）
+let contentBlocking: ContentBlockingSettings = { ...DEFAULT_CONTENT_BLOCKING_SETTINGS };
+
+// 表示中のページでブロックしたリクエストの数（サービスごと）
+const blockedCounts = new Map<string, number>();
+
 /**
- * webviewに音量を適用（JavaScriptで全てのメディア要素の音量を設定）
+ * コンテンツブロックの設定を保存
  */
-function applyVolume(webview: WebviewTag, volume: number): void {
-  // ミュートの場合
-  if (volume === 0) {
-    webview.setAudioMuted(true);
-    return;
+async function saveContentBlocking(): Promise<void> {
+  await api.setConfig(STORAGE_KEY_CONTENT_BLOCKING, contentBlocking);
+}
+
+/**
+ * コンテンツブロックの設定を復元
+ */
+async function restoreContentBlocking(): Promise<void> {
+  const settings = await api.getConfig(STORAGE_KEY_CONTENT_BLOCKING);
+  if (isValidContentBlockingSettings(settings)) {
+    contentBlocking = settings;
   }
+}
 
-  webview.setAudioMuted(false);
+/**
+ * パネルヘッダーのブロック件数の表示を更新
+ */
+function updateBlockedBadge(id: string): void {
+  const blocked = getPanel(id)?.querySelector<HTMLElement>('.panel-blocked');
+  if (!blocked) return;
 
-  // JavaScriptで全てのメディア要素の音量を設定
-  webview.executeJavaScript(`
-    (function() {
-      const volume = ${volume};
-      document.querySelectorAll('video, audio').forEach(el => {
-        el.volume = volume;
-      });
-      // MutationObserverで新しく追加されるメディア要素にも適用
-      if (!window.__volumeObserver) {
-        window.__volumeObserver = new MutationObserver((mutations) => {
-          mutations.forEach((mutation) => {
-            mutation.addedNodes.forEach((node) => {
-              if (node.nodeType === 1) {
-                const el = node;
-                if (el.tagName === 'VIDEO' || el.tagName === 'AUDIO') {
-                  el.volume = window.__targetVolume || 1;
-                }
-                el.querySelectorAll && el.querySelectorAll('video, audio').forEach(media => {
-                  media.volume = window.__targetVolume || 1;
-                });
-              }
-            });
-          });
-        });
-        window.__volumeObserver.observe(document.body, { childList: true, subtree: true });
-      }
-      window.__targetVolume = volume;
-    })();
-  `);
+  const count = blockedCounts.get(id) ?? 0;
+  blocked.hidden = !contentBlocking.enabled || count === 0;
+  blocked.textContent = `🛡${count}`;
+  blocked.title = `このページでブロックしたリクエスト: ${count} 件`;
 }
 
 /**
- * すべてのwebviewに音量を適用
+ * ページが切り替わったのでブロック件数を 0 に戻す
  */
-function applyGlobalVolume(): void {
-  document.querySelectorAll<WebviewTag>('.webview').forEach((webview) => {
-    applyVolume(webview, globalVolume);
+function resetBlockedCount(id: string): void {
+  blockedCounts.delete(id);
+  updateBlockedBadge(id);
+}
+
+/**
+ * メインプロセスから通知されたブロック件数を加算する
+ */
+function handleBlockedRequests(counts: Record<string, number>): void {
+  Object.entries(counts).forEach(([id, count]) => {
+    blockedCounts.set(id, (blockedCounts.get(id) ?? 0) + count);
+    updateBlockedBadge(id);
   });
 }
 
 /**
- * 音量を変更
+ * ファイルパスからファイル名を取得
  */
-async function changeGlobalVolume(delta: number): Promise<void> {
-  globalVolume = clampVolume(globalVolume + delta);
+function getFileName(path: string): string {
+  return path.split(/[\\/]/).pop() || path;
+}
 
-  // 表示を更新
-  updateGlobalVolumeDisplay();
+/**
+ * コンテンツブロックの設定を表示
+ * フィルターリストのルール数・エラーはメインプロセスの読み込み結果を表示する
+ */
+async function renderContentBlocking(): Promise<void> {
+  const toggle = document.querySelector<HTMLInputElement>('.settings-panel .blocker-toggle');
+  if (toggle) toggle.checked = contentBlocking.enabled;
 
-  // 全webviewに適用
-  applyGlobalVolume();
+  const list = document.querySelector<HTMLElement>('.settings-panel .filter-list');
+  if (!list) return;
 
-  // 保存
-  await saveVolumeConfig();
+  const statuses = await api.getFilterListStatus();
+  if (contentBlocking.filterLists.length === 0) {
+    const empty = document.createElement('li');
+    empty.className = 'incident-empty';
+    empty.textContent = 'フィルターリストがありません';
+    list.replaceChildren(empty);
+    return;
+  }
+
+  list.replaceChildren(
+    ...contentBlocking.filterLists.map((path) => {
+      const status = statuses.find((s) => s.path === path);
+      const item = document.createElement('li');
+      item.className = 'service-item filter-item';
+      item.dataset.path = path;
+
+      const label = document.createElement('span');
+      label.className = 'service-item-label filter-item-label';
+      if (status?.error) {
+        label.classList.add('error');
+        label.textContent = `${getFileName(path)} (読み込み失敗)`;
+        label.title = `${path}\n${status.error}`;
+      } else {
+        label.textContent = `${getFileName(path)} (${status?.rules ?? 0})`;
+        label.title = path;
+      }
+
+      const remove = document.createElement('button');
+      remove.type = 'button';
+      remove.className = 'settings-btn service-btn filter-remove';
+      remove.textContent = '✕';
+      remove.title = '削除';
+
+      item.append(label, remove);
+      return item;
+    })
+  );
 }
 
 /**
- * 設定パネルのイベントリスナー
+ * コンテンツブロックの設定を変更して保存する
+ * 保存するとメインプロセスがフィルターリストを読み込み直す
+ */
+async function changeContentBlocking(settings: ContentBlockingSettings): Promise<void> {
+  contentBlocking = settings;
+  await saveContentBlocking();
+  services.forEach((service) => updateBlockedBadge(service.id));
+  await renderContentBlocking();
+}
+
+/**
+ * フィルターリストのファイルを選択して追加する
+ */
+async function addFilterLists(): Promise<void> {
+  const paths = await api.chooseFilterLists();
+  const added = paths.filter((path) => !contentBlocking.filterLists.includes(path));
+  if (added.length === 0) return;
+  await changeContentBlocking({
+    ...contentBlocking,
+    filterLists: [...contentBlocking.filterLists, ...added],
+  });
+}
+
+/**
+ * フィルターリストを削除する
+ */
+async function removeFilterList(path: string): Promise<void> {
+  if (!confirm(`${getFileName(path)} を削除しますか？`)) return;
+  await changeContentBlocking({
+    ...contentBlocking,
+    filterLists: contentBlocking.filterLists.filter((p) => p !== path),
+  });
+}
+
+api.onBlockedRequests(handleBlockedRequests);
+
+/**
+ * コンテンツブロックの設定のイベントリスナー
  */
 document.addEventListener('click', (event) => {
   const target = event.target as HTMLElement;
 
-  // 設定ボタンのクリック
-  if (target.closest('.settings-toggle')) {
-    toggleSettingsPanel();
+  if (target.closest('.settings-panel .blocker-add')) {
+    addFilterLists();
     return;
   }
 
-  // ズームボタンのクリック
-  const zoomBtn = target.closest<HTMLElement>('.settings-panel .zoom-btn');
-  if (zoomBtn) {
-    const isZoomIn = zoomBtn.classList.contains('zoom-in');
-    changeGlobalZoom(isZoomIn ? ZOOM_STEP : -ZOOM_STEP);
+  const path = target.closest<HTMLElement>('.settings-panel .filter-item')?.dataset.path;
+  if (path && target.closest('.filter-remove')) {
+    removeFilterList(path);
+  }
+});
+
+document.addEventListener('change', (event) => {
+  const toggle = (event.target as HTMLElement).closest<HTMLInputElement>(
+    '.settings-panel .blocker-toggle'
+  );
+  if (!toggle) return;
+  changeContentBlocking({ ...contentBlocking, enabled: toggle.checked });
+});
+
+// ===== 権限の確認 =====
+
+// 権限の表示名
+const PERMISSION_LABELS: Record<string, string> = {
+  media: 'カメラ・マイク',
+  geolocation: '位置情報',
+  notifications: '通知',
+  'clipboard-read': 'クリップボードの読み取り',
+};
+
+/**
+ * webContents ID から webview を探す
+ * 権限は読み込み中にも要求されるため、dom-ready 前の webview も対象にする
+ */
+function findWebviewByWebContentsId(webContentsId: number): WebviewTag | undefined {
+  return Array.from(document.querySelectorAll<WebviewTag>('.webview')).find((webview) => {
+    try {
+      return webview.getWebContentsId() === webContentsId;
+    } catch {
+      // まだアタッチされていない webview（起動時の読み込み待ちなど）
+      return false;
+    }
+  });
+}
+
+/**
+ * 権限の要求を確認する
+ * 要求した webview のパネルに確認バーを表示する（パネルが見つからない場合は拒否する）
+ */
+function showPermissionPrompt(request: PermissionRequest): void {
+  const label = PERMISSION_LABELS[request.permission] ?? request.permission;
+  const panel = findWebviewByWebContentsId(request.webContentsId)?.closest<HTMLElement>(
+    '[data-sns]'
+  );
+  if (!panel) {
+    respondPermission(request.id, false);
     return;
   }
 
-  // 音量ボタンのクリック
-  const volumeBtn = target.closest<HTMLElement>('.settings-panel .volume-btn');
-  if (volumeBtn) {
-    const isVolumeUp = volumeBtn.classList.contains('volume-up');
-    changeGlobalVolume(isVolumeUp ? VOLUME_STEP : -VOLUME_STEP);
+  // 要求した webview が破棄されると、同じ要求の確認バーが別のパネルに移される
+  removePermissionPrompt(request.id);
+  const bar = document.createElement('div');
+  bar.className = 'panel-permission';
+  bar.dataset.permissionRequestId = String(request.id);
+  const message = document.createElement('span');
+  message.className = 'panel-permission-message';
+  message.textContent = `${request.origin} が${label}の使用を求めています`;
+  message.title = message.textContent;
+
+  const buttons: [string, string][] = [
+    ['permission-allow', '許可'],
+    ['permission-deny', '拒否'],
+  ];
+  const actions = buttons.map(([className, text]) => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = `settings-text-btn ${className}`;
+    button.textContent = text;
+    return button;
+  });
+
+  bar.append(message, ...actions);
+  (panel.querySelector('.panel-toolbar') ?? panel.querySelector('.panel-header'))?.after(bar);
+}
+
+/**
+ * 確認バーを閉じる
+ */
+function removePermissionPrompt(id: number): void {
+  document.querySelector(`.panel-permission[data-permission-request-id="${id}"]`)?.remove();
+}
+
+/**
+ * 権限の要求に回答する（回答はメインプロセスで保存される）
+ */
+async function respondPermission(id: number, granted: boolean): Promise<void> {
+  removePermissionPrompt(id);
+  await api.respondPermission(id, granted);
+  await renderPermissionList();
+}
+
+/**
+ * 保存された権限の回答を取得する
+ * 回答はメインプロセスが保存するため、表示のたびに読み込む
+ */
+async function loadPermissionDecisions(): Promise<PermissionDecisions> {
+  const decisions = await api.getConfig(STORAGE_KEY_PERMISSIONS);
+  return isValidPermissionDecisions(decisions) ? decisions : {};
+}
+
+/**
+ * 権限の回答の一覧を表示
+ */
+async function renderPermissionList(): Promise<void> {
+  const list = document.querySelector<HTMLElement>('.settings-panel .permission-list');
+  if (!list) return;
+
+  const decisions = await loadPermissionDecisions();
+  const entries = Object.entries(decisions).flatMap(([origin, permissions]) =>
+    Object.entries(permissions).map(([permission, decision]) => ({
+      origin,
+      permission,
+      decision,
+    }))
+  );
+  if (entries.length === 0) {
+    const empty = document.createElement('li');
+    empty.className = 'incident-empty';
+    empty.textContent = '記録はありません';
+    list.replaceChildren(empty);
+    return;
+  }
+
+  list.replaceChildren(
+    ...entries.map(({ origin, permission, decision }) => {
+      const item = document.createElement('li');
+      item.className = 'service-item permission-item';
+      item.dataset.origin = origin;
+      item.dataset.permission = permission;
+
+      const label = document.createElement('span');
+      label.className = 'service-item-label permission-item-label';
+      label.textContent = `${decision === 'granted' ? '✓' : '×'} ${PERMISSION_LABELS[permission] ?? permission} - ${new URL(origin).host}`;
+      label.title = `${origin}: ${decision === 'granted' ? '許可' : '拒否'}`;
+
+      const revoke = document.createElement('button');
+      revoke.type = 'button';
+      revoke.className = 'settings-btn service-btn permission-revoke';
+      revoke.textContent = '✕';
+      revoke.title = '取り消す（次回の要求時に改めて確認する）';
+
+      item.append(label, revoke);
+      return item;
+    })
+  );
+}
+
+/**
+ * 権限の回答を取り消す
+ */
+async function revokePermission(origin: string, permission: string): Promise<void> {
+  await api.revokePermission(origin, permission);
+  await renderPermissionList();
+}
+
+api.onPermissionRequest(showPermissionPrompt);
+api.onPermissionCancel(removePermissionPrompt);
+
+/**
+ * 権限の確認バー・設定のイベントリスナー
+ */
+document.addEventListener('click', (event) => {
+  const target = event.target as HTMLElement;
+
+  const bar = target.closest<HTMLElement>('.panel-permission');
+  if (bar) {
+    const id = Number(bar.dataset.permissionRequestId);
+    if (target.closest('.permission-allow')) {
+      respondPermission(id, true);
+    } else if (target.closest('.permission-deny')) {
+      respondPermission(id, false);
+    }
     return;
   }
+
+  const item = target.closest<HTMLElement>('.settings-panel .permission-item');
+  if (item && target.closest('.permission-revoke')) {
+    revokePermission(item.dataset.origin || '', item.dataset.permission || '');
+  }
 });
 
 /**
@@ -754,17 +5674,53 @@ document.addEventListener('click', (event) => {
 function initializeControlDisplays(): void {
   updateGlobalZoomDisplay();
   updateGlobalVolumeDisplay();
+  renderServiceList();
+  renderLayoutTemplateControls();
+  renderLayoutPresets();
+  renderShortcutList();
+  renderHibernationSettings();
+  renderIncidentLog();
+  renderPlaybackSettings();
+  renderRuleList();
+  renderContentBlocking();
+  renderPermissionList();
+  const startupSelect = document.querySelector<HTMLSelectElement>(
+    '.settings-panel .startup-select'
+  );
+  if (startupSelect) {
+    startupSelect.value = startupMode;
+  }
 }
 
 // 初期化
 async function initialize(): Promise<void> {
-  await restoreLayout();
-  await restorePinnedState();
+  await restoreServices();
   await restoreZoomConfig();
   await restoreVolumeConfig();
+  await restoreAudioSettings();
+  await restorePlaybackSettings();
+  await restoreInjectionRules();
+  await restoreContentBlocking();
+  await restoreStartupMode();
+  await restoreLastUrls();
+  await restoreLayout();
+  await restorePinnedState();
+  await restoreLayoutPresets();
+  await applyDefaultLayoutPreset();
+  await restoreShortcuts();
+  await restoreHibernationSettings();
+  await restoreIncidentLog();
+  await restoreNavigationToolbar();
+  // レイアウトが決まったので、メインパネルから順に読み込む
+  isStartingUp = false;
+  loadPanelsInOrder();
   initializeControlDisplays();
-  initializeWebviews();
   setupResizeObserver();
+  startRefreshScheduler();
+  startHibernationMonitor();
+  // 再読み込み前の状態が残らないよう、メインプロセスの表示を初期化
+  updateUnreadTotal();
+  api.setMutedAll(isMutedAll);
 }
 
 initialize();
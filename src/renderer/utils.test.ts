@@ -5,6 +5,8 @@ import {
   isValidLayoutConfig,
   isValidZoomConfig,
   isValidVolumeConfig,
+  isValidZoomSettings,
+  isValidVolumeSettings,
   getPanelTypeByIndex,
   getWebviewClassByPanelType,
   getPanelClassByType,
@@ -13,6 +15,74 @@ import {
   formatZoomPercent,
   formatVolumePercent,
   getVolumeIcon,
+  isValidServiceUrl,
+  normalizeNavigationUrl,
+  isValidServiceDefinition,
+  isValidServiceList,
+  createServiceId,
+  normalizeLayoutSlots,
+  isDesktopMode,
+  DEFAULT_SERVICES,
+  isValidProfileName,
+  getPartitionName,
+  resolveServiceValue,
+  isValidLayoutPreset,
+  isValidLayoutPresetStore,
+  isValidGridDefinition,
+  createUniformGrid,
+  getLayoutTemplate,
+  getGridArea,
+  swapSlots,
+  moveSlot,
+  isValidLayoutSplits,
+  clampSplitRatio,
+  normalizeRatios,
+  resizeAdjacentRatios,
+  SPLIT_MIN_RATIO,
+  SPLIT_MAX_RATIO,
+  isDesktopGridCell,
+  DEFAULT_SHORTCUTS,
+  SHORTCUT_COMMANDS,
+  isShortcutCommand,
+  isValidShortcutBindings,
+  resolveShortcutBindings,
+  assignShortcut,
+  keyEventToAccelerator,
+  normalizeAccelerator,
+  formatAccelerator,
+  parseUnreadCount,
+  isValidRefreshSettings,
+  formatCountdown,
+  isValidHibernationSettings,
+  shouldCompleteHibernation,
+  isValidStartupMode,
+  isValidIncidentLog,
+  appendIncident,
+  getRecoveryDelay,
+  isValidLastUrls,
+  resolveStartUrl,
+  isValidAudioSettings,
+  isPanelAudible,
+  DEFAULT_AUDIO_SETTINGS,
+  isValidPlaybackSettings,
+  shouldPauseInBackground,
+  isValidInjectionRules,
+  matchesUrlPattern,
+  getMatchingRules,
+  isValidContentBlockingSettings,
+  parseDomainList,
+  isValidPermissionDecisions,
+  getPermissionOrigin,
+  setPermissionDecision,
+  removePermissionDecision,
+  isPermissionGranted,
+  isValidLinkPolicy,
+  getUrlSite,
+  resolveLinkAction,
+  getOpenInPanelItems,
+  type InjectionRule,
+  REFRESH_INTERVAL_MAX,
+  formatUnreadCount,
   DESKTOP_VIEWPORT_WIDTH,
   DESKTOP_VIEWPORT_HEIGHT,
   MOBILE_VIEWPORT_WIDTH,
@@ -116,6 +186,24 @@ describe('isValidLayoutConfig', () => {
   it('スロットに文字列以外が含まれる場合を拒否する', () => {
     expect(isValidLayoutConfig({ slots: ['youtube', 123, 'x'] })).toBe(false);
   });
+
+  it('グリッド定義付きのレイアウト設定を受け入れる', () => {
+    expect(isValidLayoutConfig({ slots: ['youtube'], grid: getLayoutTemplate('grid-2x2') })).toBe(
+      true
+    );
+  });
+
+  it('パネルサイズの比率付きのレイアウト設定を受け入れる', () => {
+    expect(isValidLayoutConfig({ slots: ['youtube'], splits: { mainRow: 0.6 } })).toBe(true);
+  });
+
+  it('パネルサイズの比率が不正な場合を拒否する', () => {
+    expect(isValidLayoutConfig({ slots: ['youtube'], splits: { mainRow: 2 } })).toBe(false);
+  });
+
+  it('グリッド定義が不正な場合を拒否する', () => {
+    expect(isValidLayoutConfig({ slots: ['youtube'], grid: { template: 'grid-2x2' } })).toBe(false);
+  });
 });
 
 describe('getPanelTypeByIndex', () => {
@@ -202,6 +290,30 @@ describe('isValidVolumeConfig', () => {
   });
 });
 
+describe('isValidZoomSettings', () => {
+  it('統一ズームとサービス個別のズームを持つ場合は有効', () => {
+    expect(isValidZoomSettings({ global: 1, services: { youtube: 1.2 } })).toBe(true);
+    expect(isValidZoomSettings({ global: 1, services: {} })).toBe(true);
+  });
+
+  it('旧形式（数値のみ）や services がない場合は無効', () => {
+    expect(isValidZoomSettings(1.2)).toBe(false);
+    expect(isValidZoomSettings({ global: 1 })).toBe(false);
+    expect(isValidZoomSettings({ global: '1', services: {} })).toBe(false);
+  });
+});
+
+describe('isValidVolumeSettings', () => {
+  it('統一音量とサービス個別の音量を持つ場合は有効', () => {
+    expect(isValidVolumeSettings({ global: 0.5, services: { tiktok: 0 } })).toBe(true);
+  });
+
+  it('旧形式（数値のみ）や services が不正な場合は無効', () => {
+    expect(isValidVolumeSettings(0.5)).toBe(false);
+    expect(isValidVolumeSettings({ global: 0.5, services: { tiktok: 'mute' } })).toBe(false);
+  });
+});
+
 describe('clampZoom', () => {
   it('範囲内の値はそのまま返す', () => {
     expect(clampZoom(1.0)).toBe(1.0);
@@ -291,3 +403,1166 @@ describe('getVolumeIcon', () => {
     expect(getVolumeIcon(1.0)).toBe('🔊');
   });
 });
+
+describe('isValidServiceUrl', () => {
+  it('http / https の URL を受け入れる', () => {
+    expect(isValidServiceUrl('https://bsky.app/')).toBe(true);
+    expect(isValidServiceUrl('http://localhost:3000/dashboard')).toBe(true);
+  });
+
+  it('http / https 以外のスキームを拒否する', () => {
+    expect(isValidServiceUrl('file:///etc/passwd')).toBe(false);
+    expect(isValidServiceUrl('javascript:alert(1)')).toBe(false);
+  });
+
+  it('URL として解釈できない文字列を拒否する', () => {
+    expect(isValidServiceUrl('bsky.app')).toBe(false);
+    expect(isValidServiceUrl('')).toBe(false);
+  });
+});
+
+describe('normalizeNavigationUrl', () => {
+  it('http / https の URL はそのまま開く', () => {
+    expect(normalizeNavigationUrl('https://x.com/home')).toBe('https://x.com/home');
+    expect(normalizeNavigationUrl('  http://localhost:3000/ ')).toBe('http://localhost:3000/');
+  });
+
+  it('スキームのない入力は https として扱う', () => {
+    expect(normalizeNavigationUrl('x.com/home')).toBe('https://x.com/home');
+    expect(normalizeNavigationUrl('localhost:3000')).toBe('https://localhost:3000/');
+  });
+
+  it('http / https 以外や空の入力は開かない', () => {
+    expect(normalizeNavigationUrl('file:///etc/passwd')).toBeNull();
+    expect(normalizeNavigationUrl('javascript:alert(1)')).toBeNull();
+    expect(normalizeNavigationUrl('   ')).toBeNull();
+  });
+});
+
+describe('isValidServiceDefinition', () => {
+  const service = {
+    id: 'bluesky',
+    name: 'Bluesky',
+    url: 'https://bsky.app/',
+    icon: '🦋',
+    defaultMode: 'auto',
+  };
+
+  it('有効なサービス定義を受け入れる', () => {
+    expect(isValidServiceDefinition(service)).toBe(true);
+  });
+
+  it('アイコンが空文字でも受け入れる', () => {
+    expect(isValidServiceDefinition({ ...service, icon: '' })).toBe(true);
+  });
+
+  it('IDが空の場合を拒否する', () => {
+    expect(isValidServiceDefinition({ ...service, id: '' })).toBe(false);
+  });
+
+  it('URLが不正な場合を拒否する', () => {
+    expect(isValidServiceDefinition({ ...service, url: 'ftp://bsky.app/' })).toBe(false);
+  });
+
+  it('プロファイル付きのサービス定義を受け入れる', () => {
+    expect(isValidServiceDefinition({ ...service, profile: 'work' })).toBe(true);
+  });
+
+  it('不正なプロファイル名を拒否する', () => {
+    expect(isValidServiceDefinition({ ...service, profile: 'work:x' })).toBe(false);
+  });
+
+  it('未知の表示モードを拒否する', () => {
+    expect(isValidServiceDefinition({ ...service, defaultMode: 'tablet' })).toBe(false);
+  });
+
+  it('nullを拒否する', () => {
+    expect(isValidServiceDefinition(null)).toBe(false);
+  });
+});
+
+describe('isValidServiceList', () => {
+  it('デフォルトのサービス一覧を受け入れる', () => {
+    expect(isValidServiceList(DEFAULT_SERVICES)).toBe(true);
+  });
+
+  it('空の配列を拒否する', () => {
+    expect(isValidServiceList([])).toBe(false);
+  });
+
+  it('IDが重複する場合を拒否する', () => {
+    expect(isValidServiceList([DEFAULT_SERVICES[0], DEFAULT_SERVICES[0]])).toBe(false);
+  });
+
+  it('不正なサービス定義を含む場合を拒否する', () => {
+    expect(isValidServiceList([DEFAULT_SERVICES[0], { id: 'x' }])).toBe(false);
+  });
+});
+
+describe('createServiceId', () => {
+  it('サービス名を小文字のIDに変換する', () => {
+    expect(createServiceId('Bluesky', [])).toBe('bluesky');
+  });
+
+  it('英数字以外をハイフンに置き換える', () => {
+    expect(createServiceId('Internal Dashboard!', [])).toBe('internal-dashboard');
+  });
+
+  it('既存IDと重複する場合は連番を付与する', () => {
+    expect(createServiceId('X', ['x'])).toBe('x-2');
+    expect(createServiceId('X', ['x', 'x-2'])).toBe('x-3');
+  });
+
+  it('英数字を含まない名前はserviceをベースにする', () => {
+    expect(createServiceId('ブルースカイ', [])).toBe('service');
+  });
+});
+
+describe('normalizeLayoutSlots', () => {
+  it('保存された順序を維持する', () => {
+    expect(normalizeLayoutSlots(['x', 'youtube'], ['youtube', 'x'])).toEqual(['x', 'youtube']);
+  });
+
+  it('未配置のサービスを登録順に末尾へ追加する', () => {
+    expect(normalizeLayoutSlots(['x'], ['youtube', 'x', 'tiktok'])).toEqual([
+      'x',
+      'youtube',
+      'tiktok',
+    ]);
+  });
+
+  it('削除されたサービスと重複を除外する', () => {
+    expect(normalizeLayoutSlots(['sora', 'x', 'x', 'youtube'], ['youtube', 'x'])).toEqual([
+      'x',
+      'youtube',
+    ]);
+  });
+});
+
+describe('isDesktopMode', () => {
+  it('autoはメインパネルのみデスクトップ表示にする', () => {
+    expect(isDesktopMode('auto', 'main')).toBe(true);
+    expect(isDesktopMode('auto', 'secondary')).toBe(false);
+    expect(isDesktopMode('auto', 'sub')).toBe(false);
+  });
+
+  it('desktop / mobile はパネルタイプに関わらず固定する', () => {
+    expect(isDesktopMode('desktop', 'sub')).toBe(true);
+    expect(isDesktopMode('mobile', 'main')).toBe(false);
+  });
+});
+
+describe('isValidProfileName', () => {
+  it('英数字・ハイフン・アンダースコアを受け入れる', () => {
+    expect(isValidProfileName('sns-viewer')).toBe(true);
+    expect(isValidProfileName('x_work2')).toBe(true);
+  });
+
+  it('空文字や記号を含む名前を拒否する', () => {
+    expect(isValidProfileName('')).toBe(false);
+    expect(isValidProfileName('persist:x')).toBe(false);
+    expect(isValidProfileName('my account')).toBe(false);
+  });
+});
+
+describe('getPartitionName', () => {
+  it('プロファイル名から永続パーティション名を返す', () => {
+    expect(getPartitionName('work')).toBe('persist:work');
+  });
+
+  it('省略時は既定のパーティション名を返す', () => {
+    expect(getPartitionName()).toBe('persist:sns-viewer');
+    expect(getPartitionName('')).toBe('persist:sns-viewer');
+  });
+});
+
+describe('resolveServiceValue', () => {
+  it('個別設定がある場合はその値を返す', () => {
+    expect(resolveServiceValue({ youtube: 1.5 }, 'youtube', 1.0)).toBe(1.5);
+  });
+
+  it('個別設定がない場合は全体設定の値を返す', () => {
+    expect(resolveServiceValue({ youtube: 1.5 }, 'x', 1.0)).toBe(1.0);
+  });
+
+  it('個別設定が0の場合も個別設定を優先する', () => {
+    expect(resolveServiceValue({ tiktok: 0 }, 'tiktok', 0.5)).toBe(0);
+  });
+});
+
+describe('isValidLayoutPreset', () => {
+  const preset = {
+    id: 'morning',
+    name: 'Morning news',
+    layout: { slots: ['x', 'youtube'] },
+    pinned: false,
+    zoom: 1.0,
+    volume: 0.5,
+    zoomOverrides: { x: 1.2 },
+    volumeOverrides: {},
+  };
+
+  it('有効なプリセットを受け入れる', () => {
+    expect(isValidLayoutPreset(preset)).toBe(true);
+  });
+
+  it('名前が空の場合を拒否する', () => {
+    expect(isValidLayoutPreset({ ...preset, name: '' })).toBe(false);
+  });
+
+  it('レイアウトが不正な場合を拒否する', () => {
+    expect(isValidLayoutPreset({ ...preset, layout: { slots: [] } })).toBe(false);
+  });
+
+  it('個別設定が不正な場合を拒否する', () => {
+    expect(isValidLayoutPreset({ ...preset, volumeOverrides: { x: 'muted' } })).toBe(false);
+  });
+
+  it('nullを拒否する', () => {
+    expect(isValidLayoutPreset(null)).toBe(false);
+  });
+});
+
+describe('isValidLayoutPresetStore', () => {
+  const preset = {
+    id: 'morning',
+    name: 'Morning news',
+    layout: { slots: ['x'] },
+    pinned: true,
+    zoom: 1.0,
+    volume: 0.5,
+    zoomOverrides: {},
+    volumeOverrides: {},
+  };
+
+  it('空の一覧を受け入れる', () => {
+    expect(isValidLayoutPresetStore({ presets: [], defaultPresetId: null })).toBe(true);
+  });
+
+  it('起動時プリセットが一覧に存在する場合を受け入れる', () => {
+    expect(isValidLayoutPresetStore({ presets: [preset], defaultPresetId: 'morning' })).toBe(true);
+  });
+
+  it('起動時プリセットが一覧に存在しない場合を拒否する', () => {
+    expect(isValidLayoutPresetStore({ presets: [preset], defaultPresetId: 'video' })).toBe(false);
+  });
+
+  it('IDが重複する場合を拒否する', () => {
+    expect(isValidLayoutPresetStore({ presets: [preset, preset], defaultPresetId: null })).toBe(
+      false
+    );
+  });
+});
+
+describe('isValidGridDefinition', () => {
+  it('すべてのテンプレートのグリッド定義を受け入れる', () => {
+    (['grid-2x2', 'grid-3x2', 'focus-column', 'dual', 'single', 'custom'] as const).forEach(
+      (template) => {
+        expect(isValidGridDefinition(getLayoutTemplate(template))).toBe(true);
+      }
+    );
+  });
+
+  it('classicテンプレートを拒否する', () => {
+    expect(
+      isValidGridDefinition({ ...createUniformGrid('grid-2x2', 2, 2), template: 'classic' })
+    ).toBe(false);
+  });
+
+  it('範囲外にはみ出すセルを拒否する', () => {
+    const grid = createUniformGrid('custom', 2, 2);
+    grid.cells[0] = { ...grid.cells[0], columnSpan: 3 };
+    expect(isValidGridDefinition(grid)).toBe(false);
+  });
+
+  it('最大行数・列数を超える場合を拒否する', () => {
+    expect(isValidGridDefinition(createUniformGrid('custom', 5, 1))).toBe(false);
+  });
+
+  it('セルがない場合を拒否する', () => {
+    expect(isValidGridDefinition({ template: 'custom', columns: 1, rows: 1, cells: [] })).toBe(
+      false
+    );
+  });
+});
+
+describe('createUniformGrid', () => {
+  it('行優先でセルを作成する', () => {
+    const grid = createUniformGrid('grid-2x2', 2, 2);
+    expect(grid.cells.map((cell) => [cell.row, cell.column])).toEqual([
+      [1, 1],
+      [1, 2],
+      [2, 1],
+      [2, 2],
+    ]);
+  });
+
+  it('2列以下はデスクトップ版、3列以上はモバイル版のセルにする', () => {
+    expect(createUniformGrid('dual', 2, 1).cells[0].mode).toBe('desktop');
+    expect(createUniformGrid('grid-3x2', 3, 2).cells[0].mode).toBe('mobile');
+  });
+});
+
+describe('getLayoutTemplate', () => {
+  it('classicはグリッド定義を持たない', () => {
+    expect(getLayoutTemplate('classic')).toBeUndefined();
+  });
+
+  it('focus-columnは大きなセル1つと縦3段のセルを持つ', () => {
+    const grid = getLayoutTemplate('focus-column');
+    expect(grid?.cells).toHaveLength(4);
+    expect(grid?.cells[0]).toMatchObject({ columnSpan: 2, rowSpan: 3, mode: 'desktop' });
+  });
+
+  it('customは行数・列数を範囲内に丸める', () => {
+    const grid = getLayoutTemplate('custom', 10, 0);
+    expect(grid?.columns).toBe(4);
+    expect(grid?.rows).toBe(1);
+    expect(grid?.cells).toHaveLength(4);
+  });
+});
+
+describe('getGridArea', () => {
+  it('セルからgrid-areaを作成する', () => {
+    expect(getGridArea({ column: 1, row: 2, columnSpan: 2, rowSpan: 1, mode: 'desktop' })).toBe(
+      '2 / 1 / span 1 / span 2'
+    );
+  });
+});
+
+describe('swapSlots', () => {
+  it('指定した2つの位置を入れ替える', () => {
+    expect(swapSlots(['a', 'b', 'c'], 0, 2)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('元の配列を変更しない', () => {
+    const slots = ['a', 'b'];
+    swapSlots(slots, 0, 1);
+    expect(slots).toEqual(['a', 'b']);
+  });
+
+  it('範囲外の位置の場合はそのまま返す', () => {
+    expect(swapSlots(['a', 'b'], 0, 5)).toEqual(['a', 'b']);
+  });
+});
+
+describe('isDesktopGridCell', () => {
+  const desktopCell = { column: 1, row: 1, columnSpan: 1, rowSpan: 1, mode: 'desktop' as const };
+  const mobileCell = { ...desktopCell, mode: 'mobile' as const };
+
+  it('autoはセルの表示モードに従う', () => {
+    expect(isDesktopGridCell('auto', desktopCell)).toBe(true);
+    expect(isDesktopGridCell('auto', mobileCell)).toBe(false);
+  });
+
+  it('desktop / mobile はセルに関わらず固定する', () => {
+    expect(isDesktopGridCell('desktop', mobileCell)).toBe(true);
+    expect(isDesktopGridCell('mobile', desktopCell)).toBe(false);
+  });
+});
+
+describe('moveSlot', () => {
+  it('後ろの位置へ移動する', () => {
+    expect(moveSlot(['a', 'b', 'c', 'd'], 0, 3)).toEqual(['b', 'c', 'a', 'd']);
+  });
+
+  it('前の位置へ移動する', () => {
+    expect(moveSlot(['a', 'b', 'c', 'd'], 3, 1)).toEqual(['a', 'd', 'b', 'c']);
+  });
+
+  it('末尾へ移動する', () => {
+    expect(moveSlot(['a', 'b', 'c'], 0, 3)).toEqual(['b', 'c', 'a']);
+  });
+
+  it('同じ位置の場合は変わらない', () => {
+    expect(moveSlot(['a', 'b', 'c'], 1, 1)).toEqual(['a', 'b', 'c']);
+    expect(moveSlot(['a', 'b', 'c'], 1, 2)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('範囲外の位置の場合はそのまま返す', () => {
+    expect(moveSlot(['a', 'b'], 2, 0)).toEqual(['a', 'b']);
+    expect(moveSlot(['a', 'b'], 0, 3)).toEqual(['a', 'b']);
+  });
+});
+
+describe('isValidLayoutSplits', () => {
+  it('すべての項目を持つ比率を受け入れる', () => {
+    expect(
+      isValidLayoutSplits({
+        mainRow: 0.5,
+        mainColumn: 0.7,
+        subColumns: [1, 2, 1],
+        gridColumns: [2, 1],
+        gridRows: [1, 1],
+      })
+    ).toBe(true);
+  });
+
+  it('空のオブジェクトを受け入れる', () => {
+    expect(isValidLayoutSplits({})).toBe(true);
+  });
+
+  it('0〜1の範囲外の割合を拒否する', () => {
+    expect(isValidLayoutSplits({ mainColumn: 0 })).toBe(false);
+    expect(isValidLayoutSplits({ mainRow: 1 })).toBe(false);
+  });
+
+  it('正の数以外を含む比率の配列を拒否する', () => {
+    expect(isValidLayoutSplits({ subColumns: [1, -1] })).toBe(false);
+    expect(isValidLayoutSplits({ gridRows: [1, '2'] })).toBe(false);
+  });
+
+  it('nullを拒否する', () => {
+    expect(isValidLayoutSplits(null)).toBe(false);
+  });
+});
+
+describe('clampSplitRatio', () => {
+  it('範囲内の値はそのまま返す', () => {
+    expect(clampSplitRatio(0.5)).toBe(0.5);
+  });
+
+  it('範囲外の値をクランプする', () => {
+    expect(clampSplitRatio(0.05)).toBe(SPLIT_MIN_RATIO);
+    expect(clampSplitRatio(0.95)).toBe(SPLIT_MAX_RATIO);
+  });
+});
+
+describe('normalizeRatios', () => {
+  it('要素数が一致する場合はそのまま返す', () => {
+    expect(normalizeRatios([2, 1], 2)).toEqual([2, 1]);
+  });
+
+  it('要素数が一致しない場合は均等な比率を返す', () => {
+    expect(normalizeRatios([2, 1], 3)).toEqual([1, 1, 1]);
+  });
+
+  it('未設定の場合は均等な比率を返す', () => {
+    expect(normalizeRatios(undefined, 2)).toEqual([1, 1]);
+  });
+});
+
+describe('resizeAdjacentRatios', () => {
+  it('境界を移動しても2つの合計は変わらない', () => {
+    expect(resizeAdjacentRatios([1, 1, 1], 0, 0.5)).toEqual([1.5, 0.5, 1]);
+  });
+
+  it('合計の15%未満にならないようにクランプする', () => {
+    const [grown, shrunk] = resizeAdjacentRatios([1, 1], 0, 5);
+    expect(grown).toBeCloseTo(1.7);
+    expect(shrunk).toBeCloseTo(0.3);
+    const [min, max] = resizeAdjacentRatios([1, 1], 0, -5);
+    expect(min).toBeCloseTo(0.3);
+    expect(max).toBeCloseTo(1.7);
+  });
+
+  it('範囲外の境界の場合はそのまま返す', () => {
+    expect(resizeAdjacentRatios([1, 1], 1, 0.5)).toEqual([1, 1]);
+  });
+});
+
+describe('isShortcutCommand', () => {
+  it('定義済みのコマンドは true を返す', () => {
+    expect(isShortcutCommand('promote-1')).toBe(true);
+    expect(isShortcutCommand('open-settings')).toBe(true);
+  });
+
+  it('未定義のコマンドは false を返す', () => {
+    expect(isShortcutCommand('promote-10')).toBe(false);
+    expect(isShortcutCommand(1)).toBe(false);
+  });
+
+  it('デフォルトのショートカットは全コマンドを網羅する', () => {
+    expect(Object.keys(DEFAULT_SHORTCUTS).sort()).toEqual(
+      SHORTCUT_COMMANDS.map((entry) => entry.command).sort()
+    );
+  });
+});
+
+describe('isValidShortcutBindings', () => {
+  it('一部のコマンドだけの設定は有効', () => {
+    expect(isValidShortcutBindings({ 'toggle-pin': 'Alt+P', 'zoom-in': '' })).toBe(true);
+  });
+
+  it('未定義のコマンドや文字列以外の値は無効', () => {
+    expect(isValidShortcutBindings({ unknown: 'Alt+P' })).toBe(false);
+    expect(isValidShortcutBindings({ 'toggle-pin': 1 })).toBe(false);
+    expect(isValidShortcutBindings(null)).toBe(false);
+    expect(isValidShortcutBindings([])).toBe(false);
+  });
+});
+
+describe('resolveShortcutBindings', () => {
+  it('保存された設定をデフォルトに上書きする', () => {
+    const bindings = resolveShortcutBindings({ 'toggle-pin': 'Alt+P' });
+    expect(bindings['toggle-pin']).toBe('Alt+P');
+    expect(bindings['zoom-in']).toBe(DEFAULT_SHORTCUTS['zoom-in']);
+  });
+
+  it('無効な設定の場合はデフォルトを返す', () => {
+    expect(resolveShortcutBindings('invalid')).toEqual(DEFAULT_SHORTCUTS);
+  });
+});
+
+describe('assignShortcut', () => {
+  it('コマンドにショートカットを割り当てる', () => {
+    const bindings = assignShortcut(DEFAULT_SHORTCUTS, 'toggle-pin', 'Alt+P');
+    expect(bindings['toggle-pin']).toBe('Alt+P');
+  });
+
+  it('重複するショートカットは他のコマンドから外す', () => {
+    const bindings = assignShortcut(DEFAULT_SHORTCUTS, 'toggle-pin', 'CmdOrCtrl+1');
+    expect(bindings['toggle-pin']).toBe('CmdOrCtrl+1');
+    expect(bindings['promote-1']).toBe('');
+  });
+
+  it('空文字で未割り当てにしても他のコマンドは変わらない', () => {
+    const bindings = assignShortcut({ ...DEFAULT_SHORTCUTS, 'zoom-in': '' }, 'toggle-pin', '');
+    expect(bindings['toggle-pin']).toBe('');
+    expect(bindings['promote-1']).toBe('CmdOrCtrl+1');
+  });
+});
+
+describe('keyEventToAccelerator', () => {
+  const key = (code: string, modifiers: Partial<Record<string, boolean>> = {}) => ({
+    code,
+    ctrlKey: false,
+    metaKey: false,
+    altKey: false,
+    shiftKey: false,
+    ...modifiers,
+  });
+
+  it('Windows/Linux では Ctrl を CmdOrCtrl として扱う', () => {
+    expect(keyEventToAccelerator(key('Digit1', { ctrlKey: true }), false)).toBe('CmdOrCtrl+1');
+    expect(keyEventToAccelerator(key('KeyP', { metaKey: true }), false)).toBe('Super+P');
+  });
+
+  it('macOS では Cmd を CmdOrCtrl として扱う', () => {
+    expect(keyEventToAccelerator(key('KeyP', { metaKey: true }), true)).toBe('CmdOrCtrl+P');
+    expect(keyEventToAccelerator(key('KeyP', { ctrlKey: true }), true)).toBe('Ctrl+P');
+  });
+
+  it('Shift を押しても物理キーの名前を使う', () => {
+    expect(keyEventToAccelerator(key('ArrowUp', { ctrlKey: true, shiftKey: true }), false)).toBe(
+      'CmdOrCtrl+Shift+Up'
+    );
+    expect(keyEventToAccelerator(key('Digit2', { altKey: true, shiftKey: true }), false)).toBe(
+      'Alt+Shift+2'
+    );
+  });
+
+  it('記号とファンクションキーを変換する', () => {
+    expect(keyEventToAccelerator(key('Equal', { ctrlKey: true }), false)).toBe('CmdOrCtrl+=');
+    expect(keyEventToAccelerator(key('F5'), false)).toBe('F5');
+  });
+
+  it('修飾キーのみや未対応のキーは null を返す', () => {
+    expect(keyEventToAccelerator(key('ShiftLeft', { shiftKey: true }), false)).toBeNull();
+    expect(keyEventToAccelerator(key('IntlRo'), false)).toBeNull();
+  });
+});
+
+describe('normalizeAccelerator', () => {
+  it('修飾キーの別名と順序を揃える', () => {
+    expect(normalizeAccelerator('Shift+Ctrl+p', false)).toBe('CmdOrCtrl+Shift+P');
+    expect(normalizeAccelerator('Command+Option+K', true)).toBe('CmdOrCtrl+Alt+K');
+  });
+
+  it('+ キーは Plus として扱う', () => {
+    expect(normalizeAccelerator('CmdOrCtrl++', false)).toBe('CmdOrCtrl+Plus');
+  });
+
+  it('未割り当ては空文字のまま', () => {
+    expect(normalizeAccelerator('', false)).toBe('');
+  });
+});
+
+describe('formatAccelerator', () => {
+  it('プラットフォームに合わせて表示する', () => {
+    expect(formatAccelerator('CmdOrCtrl+Shift+M', false)).toBe('Ctrl+Shift+M');
+    expect(formatAccelerator('CmdOrCtrl+Shift+M', true)).toBe('⌘⇧M');
+  });
+
+  it('未割り当ては — を表示する', () => {
+    expect(formatAccelerator('', false)).toBe('—');
+  });
+});
+
+describe('parseUnreadCount', () => {
+  it('タイトル先頭の件数を取得する', () => {
+    expect(parseUnreadCount('(3) ホーム / X')).toBe(3);
+    expect(parseUnreadCount('[12] Inbox')).toBe(12);
+    expect(parseUnreadCount('(99+) Instagram')).toBe(99);
+  });
+
+  it('件数がない場合は 0 を返す', () => {
+    expect(parseUnreadCount('YouTube')).toBe(0);
+    expect(parseUnreadCount('Video (2024)')).toBe(0);
+    expect(parseUnreadCount('')).toBe(0);
+  });
+});
+
+describe('formatUnreadCount', () => {
+  it('99 件までは件数を表示する', () => {
+    expect(formatUnreadCount(1)).toBe('1');
+    expect(formatUnreadCount(99)).toBe('99');
+  });
+
+  it('100 件以上は 99+ を表示する', () => {
+    expect(formatUnreadCount(100)).toBe('99+');
+  });
+});
+
+describe('isValidRefreshSettings', () => {
+  const refresh = { intervalMinutes: 5, skipWhenFocused: true, skipWhenPlaying: false };
+
+  it('有効な自動更新の設定', () => {
+    expect(isValidRefreshSettings(refresh)).toBe(true);
+    expect(isValidRefreshSettings({ ...refresh, intervalMinutes: REFRESH_INTERVAL_MAX })).toBe(
+      true
+    );
+  });
+
+  it('間隔が範囲外・整数でない場合は無効', () => {
+    expect(isValidRefreshSettings({ ...refresh, intervalMinutes: 0 })).toBe(false);
+    expect(isValidRefreshSettings({ ...refresh, intervalMinutes: 1.5 })).toBe(false);
+    expect(isValidRefreshSettings({ ...refresh, intervalMinutes: REFRESH_INTERVAL_MAX + 1 })).toBe(
+      false
+    );
+  });
+
+  it('条件が真偽値でない場合は無効', () => {
+    expect(isValidRefreshSettings({ ...refresh, skipWhenPlaying: 'yes' })).toBe(false);
+    expect(isValidRefreshSettings(null)).toBe(false);
+  });
+
+  it('サービス定義の自動更新の設定も検証する', () => {
+    const service = { ...DEFAULT_SERVICES[0], refresh };
+    expect(isValidServiceDefinition(service)).toBe(true);
+    expect(isValidServiceDefinition({ ...service, refresh: { intervalMinutes: 5 } })).toBe(false);
+  });
+});
+
+describe('formatCountdown', () => {
+  it('分:秒 の形式で表示する', () => {
+    expect(formatCountdown(5 * 60 * 1000)).toBe('5:00');
+    expect(formatCountdown(65 * 1000)).toBe('1:05');
+  });
+
+  it('端数の秒は切り上げ、負の値は 0:00 にする', () => {
+    expect(formatCountdown(1500)).toBe('0:02');
+    expect(formatCountdown(-1000)).toBe('0:00');
+  });
+});
+
+describe('isValidHibernationSettings', () => {
+  it('0 以上の整数の分数は有効', () => {
+    expect(isValidHibernationSettings({ idleMinutes: 0 })).toBe(true);
+    expect(isValidHibernationSettings({ idleMinutes: 30 })).toBe(true);
+  });
+
+  it('負の値・小数・数値以外は無効', () => {
+    expect(isValidHibernationSettings({ idleMinutes: -1 })).toBe(false);
+    expect(isValidHibernationSettings({ idleMinutes: 2.5 })).toBe(false);
+    expect(isValidHibernationSettings({ idleMinutes: '10' })).toBe(false);
+    expect(isValidHibernationSettings(undefined)).toBe(false);
+  });
+
+  it('サービス定義の neverHibernate は真偽値のみ有効', () => {
+    expect(isValidServiceDefinition({ ...DEFAULT_SERVICES[0], neverHibernate: true })).toBe(true);
+    expect(isValidServiceDefinition({ ...DEFAULT_SERVICES[0], neverHibernate: 'yes' })).toBe(false);
+  });
+});
+
+describe('shouldCompleteHibernation', () => {
+  const state = {
+    serviceId: 'x',
+    mainId: 'youtube',
+    focusedId: null,
+    activityAtCheck: 1000,
+    activityNow: 1000,
+  };
+
+  it('スナップショットの間に何もなければ休止する', () => {
+    expect(shouldCompleteHibernation(state)).toBe(true);
+  });
+
+  it('メインパネルになった・フォーカスされた・操作された場合は休止しない', () => {
+    expect(shouldCompleteHibernation({ ...state, mainId: 'x' })).toBe(false);
+    expect(shouldCompleteHibernation({ ...state, focusedId: 'x' })).toBe(false);
+    expect(shouldCompleteHibernation({ ...state, activityNow: 2000 })).toBe(false);
+  });
+});
+
+describe('isValidStartupMode', () => {
+  it('定義済みの読み込み方法は有効', () => {
+    expect(isValidStartupMode('staggered')).toBe(true);
+    expect(isValidStartupMode('on-demand')).toBe(true);
+  });
+
+  it('それ以外は無効', () => {
+    expect(isValidStartupMode('all')).toBe(false);
+    expect(isValidStartupMode(undefined)).toBe(false);
+  });
+});
+
+describe('isValidIncidentLog', () => {
+  const incident = { type: 'crash', reason: 'oom', url: 'https://x.com/', timestamp: 1 };
+
+  it('サービスごとの障害の記録は有効', () => {
+    expect(isValidIncidentLog({ x: [incident], youtube: [] })).toBe(true);
+    expect(isValidIncidentLog({})).toBe(true);
+  });
+
+  it('種類や項目が不正な記録は無効', () => {
+    expect(isValidIncidentLog({ x: [{ ...incident, type: 'freeze' }] })).toBe(false);
+    expect(isValidIncidentLog({ x: [{ ...incident, timestamp: '1' }] })).toBe(false);
+    expect(isValidIncidentLog({ x: incident })).toBe(false);
+    expect(isValidIncidentLog([])).toBe(false);
+  });
+});
+
+describe('appendIncident', () => {
+  const incident = (timestamp: number) => ({
+    type: 'load-failed' as const,
+    reason: 'ERR_NAME_NOT_RESOLVED',
+    url: 'https://x.com/',
+    timestamp,
+  });
+
+  it('サービスの記録の末尾に追加する', () => {
+    const log = appendIncident({ x: [incident(1)] }, 'x', incident(2));
+    expect(log.x.map((i) => i.timestamp)).toEqual([1, 2]);
+  });
+
+  it('上限を超えた古い記録を削除する', () => {
+    const log = appendIncident({ x: [incident(1), incident(2)] }, 'x', incident(3), 2);
+    expect(log.x.map((i) => i.timestamp)).toEqual([2, 3]);
+  });
+
+  it('他のサービスの記録は変更しない', () => {
+    const log = appendIncident({ youtube: [incident(1)] }, 'x', incident(2));
+    expect(log.youtube).toHaveLength(1);
+    expect(log.x).toHaveLength(1);
+  });
+});
+
+describe('getRecoveryDelay', () => {
+  it('回数ごとに待ち時間を倍にする', () => {
+    expect(getRecoveryDelay(0)).toBe(2000);
+    expect(getRecoveryDelay(1)).toBe(4000);
+    expect(getRecoveryDelay(3)).toBe(16000);
+  });
+
+  it('待ち時間は 60 秒を上限とする', () => {
+    expect(getRecoveryDelay(10)).toBe(60000);
+  });
+});
+
+describe('isValidLastUrls', () => {
+  it('http / https の URL の記録は有効', () => {
+    expect(isValidLastUrls({ x: 'https://x.com/home', youtube: 'https://www.youtube.com/' })).toBe(
+      true
+    );
+    expect(isValidLastUrls({})).toBe(true);
+  });
+
+  it('http / https 以外の URL や文字列以外を含む記録は無効', () => {
+    expect(isValidLastUrls({ x: 'file:///etc/passwd' })).toBe(false);
+    expect(isValidLastUrls({ x: 1 })).toBe(false);
+    expect(isValidLastUrls(['https://x.com/'])).toBe(false);
+    expect(isValidLastUrls(null)).toBe(false);
+  });
+});
+
+describe('resolveStartUrl', () => {
+  const service = DEFAULT_SERVICES[0];
+
+  it('前回の URL があればそれを開く', () => {
+    const lastUrl = 'https://example.com/watch?v=1';
+    expect(resolveStartUrl(service, { [service.id]: lastUrl })).toBe(lastUrl);
+  });
+
+  it('記録がない場合はサービスの URL を開く', () => {
+    expect(resolveStartUrl(service, {})).toBe(service.url);
+    expect(resolveStartUrl(service, { [service.id]: 'javascript:alert(1)' })).toBe(service.url);
+  });
+
+  it('alwaysStartAtHome の場合は前回の URL を使わない', () => {
+    const home = { ...service, alwaysStartAtHome: true };
+    expect(resolveStartUrl(home, { [service.id]: 'https://example.com/' })).toBe(service.url);
+  });
+
+  it('サービス定義の alwaysStartAtHome は真偽値のみ有効', () => {
+    expect(isValidServiceDefinition({ ...service, alwaysStartAtHome: true })).toBe(true);
+    expect(isValidServiceDefinition({ ...service, alwaysStartAtHome: 1 })).toBe(false);
+  });
+});
+
+describe('isValidAudioSettings', () => {
+  it('定義済みの方針とパネルの一覧は有効', () => {
+    expect(isValidAudioSettings(DEFAULT_AUDIO_SETTINGS)).toBe(true);
+    expect(isValidAudioSettings({ policy: 'solo', soloId: 'x', mutedPanels: ['tiktok'] })).toBe(
+      true
+    );
+  });
+
+  it('未定義の方針や不正な値は無効', () => {
+    expect(isValidAudioSettings({ ...DEFAULT_AUDIO_SETTINGS, policy: 'none' })).toBe(false);
+    expect(isValidAudioSettings({ ...DEFAULT_AUDIO_SETTINGS, soloId: 1 })).toBe(false);
+    expect(isValidAudioSettings({ ...DEFAULT_AUDIO_SETTINGS, mutedPanels: [1] })).toBe(false);
+    expect(isValidAudioSettings('all')).toBe(false);
+  });
+});
+
+describe('isPanelAudible', () => {
+  it('all ではミュートしたパネル以外が音声を出す', () => {
+    const settings = { ...DEFAULT_AUDIO_SETTINGS, mutedPanels: ['tiktok'] };
+    expect(isPanelAudible('x', 'youtube', settings)).toBe(true);
+    expect(isPanelAudible('tiktok', 'youtube', settings)).toBe(false);
+  });
+
+  it('main ではメインパネルのみ音声を出す', () => {
+    const settings = { ...DEFAULT_AUDIO_SETTINGS, policy: 'main' as const };
+    expect(isPanelAudible('youtube', 'youtube', settings)).toBe(true);
+    expect(isPanelAudible('x', 'youtube', settings)).toBe(false);
+  });
+
+  it('solo では選択したパネル（未選択ならメインパネル）のみ音声を出す', () => {
+    const settings = { ...DEFAULT_AUDIO_SETTINGS, policy: 'solo' as const, soloId: 'x' };
+    expect(isPanelAudible('x', 'youtube', settings)).toBe(true);
+    expect(isPanelAudible('youtube', 'youtube', settings)).toBe(false);
+    expect(isPanelAudible('youtube', 'youtube', { ...settings, soloId: null })).toBe(true);
+  });
+
+  it('ミュートしたパネルは方針に関係なく音声を出さない', () => {
+    const settings = { policy: 'solo' as const, soloId: 'x', mutedPanels: ['x'] };
+    expect(isPanelAudible('x', 'youtube', settings)).toBe(false);
+  });
+});
+
+describe('isValidPlaybackSettings', () => {
+  it('定義済みの条件の設定は有効', () => {
+    expect(isValidPlaybackSettings({ exclusive: true, pauseInBackground: 'blurred' })).toBe(true);
+    expect(isValidPlaybackSettings({ exclusive: false, pauseInBackground: 'off' })).toBe(true);
+  });
+
+  it('未定義の条件や真偽値以外は無効', () => {
+    expect(isValidPlaybackSettings({ exclusive: true, pauseInBackground: 'always' })).toBe(false);
+    expect(isValidPlaybackSettings({ exclusive: 'yes', pauseInBackground: 'off' })).toBe(false);
+    expect(isValidPlaybackSettings(null)).toBe(false);
+  });
+});
+
+describe('shouldPauseInBackground', () => {
+  it('off の場合は一時停止しない', () => {
+    expect(shouldPauseInBackground('off', 'minimized')).toBe(false);
+    expect(shouldPauseInBackground('off', 'blurred')).toBe(false);
+  });
+
+  it('minimized の場合は最小化したときのみ一時停止する', () => {
+    expect(shouldPauseInBackground('minimized', 'minimized')).toBe(true);
+    expect(shouldPauseInBackground('minimized', 'blurred')).toBe(false);
+  });
+
+  it('blurred の場合はフォーカスを失ったときと最小化したときに一時停止する', () => {
+    expect(shouldPauseInBackground('blurred', 'blurred')).toBe(true);
+    expect(shouldPauseInBackground('blurred', 'minimized')).toBe(true);
+    expect(shouldPauseInBackground('blurred', 'focused')).toBe(false);
+  });
+});
+
+describe('isValidInjectionRules', () => {
+  const rule: InjectionRule = {
+    id: 'hide-shorts',
+    name: 'Shorts を隠す',
+    serviceId: 'youtube',
+    urlPattern: '',
+    css: 'ytd-reel-shelf-renderer { display: none !important; }',
+    js: '',
+    enabled: true,
+  };
+
+  it('ルールの一覧は有効', () => {
+    expect(isValidInjectionRules([rule, { ...rule, id: 'all', serviceId: null }])).toBe(true);
+    expect(isValidInjectionRules([])).toBe(true);
+  });
+
+  it('ID の重複や項目が不正なルールを含む一覧は無効', () => {
+    expect(isValidInjectionRules([rule, rule])).toBe(false);
+    expect(isValidInjectionRules([{ ...rule, id: '' }])).toBe(false);
+    expect(isValidInjectionRules([{ ...rule, enabled: 'true' }])).toBe(false);
+    expect(isValidInjectionRules([{ ...rule, css: undefined }])).toBe(false);
+    expect(isValidInjectionRules(rule)).toBe(false);
+  });
+});
+
+describe('matchesUrlPattern', () => {
+  it('空のパターンはすべての URL に一致する', () => {
+    expect(matchesUrlPattern('', 'https://x.com/home')).toBe(true);
+    expect(matchesUrlPattern('  ', 'https://x.com/home')).toBe(true);
+  });
+
+  it('* は任意の文字列に一致する', () => {
+    expect(matchesUrlPattern('https://x.com/*', 'https://x.com/home')).toBe(true);
+    expect(
+      matchesUrlPattern('*://www.youtube.com/watch*', 'https://www.youtube.com/watch?v=1')
+    ).toBe(true);
+    expect(matchesUrlPattern('https://x.com/*', 'https://www.youtube.com/')).toBe(false);
+  });
+
+  it('* 以外の記号は文字どおりに比較する', () => {
+    expect(matchesUrlPattern('https://x.com/?a=1', 'https://x.com/?a=1')).toBe(true);
+    expect(matchesUrlPattern('https://x.com/?a=1', 'https://x.com/a=1')).toBe(false);
+    expect(matchesUrlPattern('https://x.com/', 'https://x.com/home')).toBe(false);
+  });
+});
+
+describe('getMatchingRules', () => {
+  const base = { urlPattern: '', css: 'a {}', js: '', enabled: true };
+  const rules: InjectionRule[] = [
+    { ...base, id: 'youtube', name: 'YouTube', serviceId: 'youtube' },
+    { ...base, id: 'all', name: 'All', serviceId: null },
+    { ...base, id: 'disabled', name: 'Disabled', serviceId: 'youtube', enabled: false },
+    {
+      ...base,
+      id: 'watch',
+      name: 'Watch',
+      serviceId: 'youtube',
+      urlPattern: 'https://www.youtube.com/watch*',
+    },
+  ];
+
+  it('サービスと URL が一致する有効なルールを返す', () => {
+    const ids = (url: string, serviceId = 'youtube') =>
+      getMatchingRules(rules, serviceId, url).map((rule) => rule.id);
+    expect(ids('https://www.youtube.com/')).toEqual(['youtube', 'all']);
+    expect(ids('https://www.youtube.com/watch?v=1')).toEqual(['youtube', 'all', 'watch']);
+    expect(ids('https://x.com/home', 'x')).toEqual(['all']);
+  });
+});
+
+describe('isValidContentBlockingSettings', () => {
+  it('フィルターリストのパスの一覧を持つ設定は有効', () => {
+    expect(
+      isValidContentBlockingSettings({ enabled: true, filterLists: ['/tmp/easylist.txt'] })
+    ).toBe(true);
+    expect(isValidContentBlockingSettings({ enabled: false, filterLists: [] })).toBe(true);
+  });
+
+  it('空のパスや不正な値は無効', () => {
+    expect(isValidContentBlockingSettings({ enabled: true, filterLists: [''] })).toBe(false);
+    expect(isValidContentBlockingSettings({ enabled: 1, filterLists: [] })).toBe(false);
+    expect(isValidContentBlockingSettings({ enabled: true })).toBe(false);
+  });
+
+  it('サービス定義の blockerAllowlist はドメインの一覧のみ有効', () => {
+    const service = DEFAULT_SERVICES[0];
+    expect(isValidServiceDefinition({ ...service, blockerAllowlist: ['ads.example.com'] })).toBe(
+      true
+    );
+    expect(isValidServiceDefinition({ ...service, blockerAllowlist: ['https://a.com/'] })).toBe(
+      false
+    );
+    expect(isValidServiceDefinition({ ...service, blockerAllowlist: 'a.com' })).toBe(false);
+  });
+});
+
+describe('parseDomainList', () => {
+  it('カンマ・空白区切りのドメインを小文字にして重複を除く', () => {
+    expect(parseDomainList('Ads.com, cdn.example.com\nads.com')).toEqual([
+      'ads.com',
+      'cdn.example.com',
+    ]);
+  });
+
+  it('URL はホスト名に変換し、無効な入力は除く', () => {
+    expect(parseDomainList('https://www.youtube.com/watch?v=1 ??? ')).toEqual(['www.youtube.com']);
+    expect(parseDomainList('')).toEqual([]);
+  });
+});
+
+describe('getPermissionOrigin', () => {
+  it('http / https の URL はオリジンを返す', () => {
+    expect(getPermissionOrigin('https://www.youtube.com/watch?v=1')).toBe(
+      'https://www.youtube.com'
+    );
+    expect(getPermissionOrigin('http://localhost:3000/a')).toBe('http://localhost:3000');
+  });
+
+  it('それ以外の URL は null を返す', () => {
+    expect(getPermissionOrigin('file:///tmp/a.html')).toBeNull();
+    expect(getPermissionOrigin('about:blank')).toBeNull();
+    expect(getPermissionOrigin('not a url')).toBeNull();
+  });
+});
+
+describe('isValidPermissionDecisions', () => {
+  it('オリジンごとの確認する権限の回答は有効', () => {
+    expect(
+      isValidPermissionDecisions({
+        'https://x.com': { notifications: 'granted', media: 'denied' },
+      })
+    ).toBe(true);
+    expect(isValidPermissionDecisions({})).toBe(true);
+  });
+
+  it('オリジン以外のキー・確認しない権限・不正な回答は無効', () => {
+    expect(isValidPermissionDecisions({ 'https://x.com/home': { media: 'granted' } })).toBe(false);
+    expect(isValidPermissionDecisions({ 'https://x.com': { fullscreen: 'granted' } })).toBe(false);
+    expect(isValidPermissionDecisions({ 'https://x.com': { media: true } })).toBe(false);
+    expect(isValidPermissionDecisions([])).toBe(false);
+  });
+});
+
+describe('isPermissionGranted', () => {
+  const decisions = {
+    'https://x.com': { notifications: 'granted' as const, media: 'denied' as const },
+  };
+
+  it('確認する権限は保存された回答が許可の場合のみ許可済みとする', () => {
+    expect(isPermissionGranted(decisions, 'notifications', 'https://x.com')).toBe(true);
+    expect(isPermissionGranted(decisions, 'notifications', 'https://x.com/home')).toBe(true);
+    expect(isPermissionGranted(decisions, 'media', 'https://x.com')).toBe(false);
+    expect(isPermissionGranted(decisions, 'geolocation', 'https://x.com')).toBe(false);
+    expect(isPermissionGranted(decisions, 'notifications', 'https://www.youtube.com')).toBe(false);
+  });
+
+  it('確認せずに許可する権限は常に許可、それ以外の権限は常に拒否', () => {
+    expect(isPermissionGranted({}, 'fullscreen', 'https://x.com')).toBe(true);
+    expect(isPermissionGranted({}, 'midi', 'https://x.com')).toBe(false);
+  });
+});
+
+describe('setPermissionDecision / removePermissionDecision', () => {
+  it('回答を記録し、元のオブジェクトは変更しない', () => {
+    const decisions = { 'https://x.com': { media: 'denied' as const } };
+    const updated = setPermissionDecision(decisions, 'https://x.com', 'notifications', 'granted');
+    expect(updated).toEqual({ 'https://x.com': { media: 'denied', notifications: 'granted' } });
+    expect(decisions).toEqual({ 'https://x.com': { media: 'denied' } });
+  });
+
+  it('取り消すと回答が残っていないオリジンは削除する', () => {
+    const decisions = {
+      'https://x.com': { media: 'denied' as const, notifications: 'granted' as const },
+    };
+    const once = removePermissionDecision(decisions, 'https://x.com', 'media');
+    expect(once).toEqual({ 'https://x.com': { notifications: 'granted' } });
+    expect(removePermissionDecision(once, 'https://x.com', 'notifications')).toEqual({});
+    expect(removePermissionDecision({}, 'https://a.com', 'media')).toEqual({});
+  });
+});
+
+describe('isValidLinkPolicy', () => {
+  it('開き方の組み合わせを検証する', () => {
+    expect(isValidLinkPolicy({ external: 'panel', sameSite: 'window', routeToPanels: false })).toBe(
+      true
+    );
+    expect(isValidLinkPolicy({ external: 'tab', sameSite: 'window', routeToPanels: true })).toBe(
+      false
+    );
+    expect(
+      isValidLinkPolicy({ external: 'browser', sameSite: 'browser', routeToPanels: true })
+    ).toBe(false);
+    expect(isValidLinkPolicy({ external: 'browser', sameSite: 'panel' })).toBe(false);
+  });
+
+  it('サービス定義の linkPolicy も検証する', () => {
+    const service = DEFAULT_SERVICES[0];
+    expect(isValidServiceDefinition({ ...service, linkPolicy: { external: 'x' } })).toBe(false);
+    expect(
+      isValidServiceDefinition({
+        ...service,
+        linkPolicy: { external: 'window', sameSite: 'panel', routeToPanels: true },
+      })
+    ).toBe(true);
+  });
+});
+
+describe('getUrlSite', () => {
+  it('ホスト名の末尾の 2 ラベルをサイトとする', () => {
+    expect(getUrlSite('https://www.youtube.com/watch?v=1')).toBe('youtube.com');
+    expect(getUrlSite('https://m.youtube.com/')).toBe('youtube.com');
+    expect(getUrlSite('http://127.0.0.1:8080/')).toBe('127.0.0.1');
+    expect(getUrlSite('mailto:a@example.com')).toBeNull();
+  });
+});
+
+describe('resolveLinkAction', () => {
+  const x = 'https://x.com/home';
+
+  it('既定では外部のサイトはブラウザ、同じサイトは子ウィンドウで開く', () => {
+    expect(resolveLinkAction('https://example.com/a', x, 'x', DEFAULT_SERVICES, false)).toEqual({
+      type: 'browser',
+    });
+    expect(resolveLinkAction('https://x.com/i/flow', x, 'x', DEFAULT_SERVICES, false)).toEqual({
+      type: 'window',
+    });
+  });
+
+  it('他のサービスのサイトへのリンクはそのサービスのパネルに送る', () => {
+    expect(
+      resolveLinkAction('https://www.youtube.com/watch?v=1', x, 'x', DEFAULT_SERVICES, false)
+    ).toEqual({ type: 'route', serviceId: 'youtube' });
+  });
+
+  it('サービスごとの設定に従う', () => {
+    const services = DEFAULT_SERVICES.map((s) =>
+      s.id === 'x'
+        ? {
+            ...s,
+            linkPolicy: {
+              external: 'panel' as const,
+              sameSite: 'panel' as const,
+              routeToPanels: false,
+            },
+          }
+        : s
+    );
+    expect(resolveLinkAction('https://www.youtube.com/', x, 'x', services, false)).toEqual({
+      type: 'panel',
+    });
+    expect(resolveLinkAction('https://x.com/i/flow', x, 'x', services, false)).toEqual({
+      type: 'panel',
+    });
+  });
+
+  it('ポップアップは子ウィンドウで開き、http 以外の URL は開かない', () => {
+    expect(
+      resolveLinkAction('https://accounts.google.com/o/oauth2', x, 'x', DEFAULT_SERVICES, true)
+    ).toEqual({ type: 'window' });
+    expect(resolveLinkAction('about:blank', x, 'x', DEFAULT_SERVICES, true)).toEqual({
+      type: 'window',
+    });
+    expect(resolveLinkAction('mailto:a@example.com', x, 'x', DEFAULT_SERVICES, false)).toEqual({
+      type: 'browser',
+    });
+    expect(resolveLinkAction('file:///etc/passwd', x, 'x', DEFAULT_SERVICES, false)).toEqual({
+      type: 'deny',
+    });
+  });
+});
+
+describe('getOpenInPanelItems', () => {
+  it('メインパネル以外から開いた場合は先頭にメインパネル、続けて他のサービスを並べる', () => {
+    const items = getOpenInPanelItems(DEFAULT_SERVICES, 'x', 'youtube', true);
+    expect(items[0]).toEqual({ serviceId: null, label: 'リンクをメインパネルで開く' });
+    expect(items.map((item) => item.serviceId)).toEqual([
+      null,
+      'youtube',
+      'sora',
+      'tiktok',
+      'instagram',
+      'threads',
+    ]);
+    expect(items[1].label).toBe('リンクを YouTube で開く');
+  });
+
+  it('メインパネルから開いた場合はメインパネルの項目を含めない', () => {
+    const items = getOpenInPanelItems(DEFAULT_SERVICES, 'youtube', 'youtube', false);
+    expect(items.some((item) => item.serviceId === null)).toBe(false);
+    expect(items.some((item) => item.serviceId === 'youtube')).toBe(false);
+    expect(items[0].label).toBe('このページを Sora で開く');
+  });
+});
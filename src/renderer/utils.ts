@@ -20,6 +20,19 @@ export const STORAGE_KEY_LAYOUT = 'layout';
 export const STORAGE_KEY_PINNED = 'pinned';
 export const STORAGE_KEY_ZOOM = 'zoom';
 export const STORAGE_KEY_VOLUME = 'volume';
+export const STORAGE_KEY_SERVICES = 'services';
+export const STORAGE_KEY_LAYOUT_PRESETS = 'layoutPresets';
+export const STORAGE_KEY_SHORTCUTS = 'shortcuts';
+export const STORAGE_KEY_HIBERNATION = 'hibernation';
+export const STORAGE_KEY_STARTUP_MODE = 'startupMode';
+export const STORAGE_KEY_INCIDENTS = 'incidents';
+export const STORAGE_KEY_NAVIGATION_TOOLBAR = 'navigationToolbar';
+export const STORAGE_KEY_LAST_URLS = 'lastUrls';
+export const STORAGE_KEY_AUDIO = 'audio';
+export const STORAGE_KEY_PLAYBACK = 'playback';
+export const STORAGE_KEY_INJECTION_RULES = 'injectionRules';
+export const STORAGE_KEY_CONTENT_BLOCKING = 'contentBlocking';
+export const STORAGE_KEY_PERMISSIONS = 'permissions';
 
 // ズーム調整の設定
 export const ZOOM_STEP = 0.1; // 10%刻み
@@ -33,12 +46,75 @@ export const VOLUME_MIN = 0.0; // ミュート
 export const VOLUME_MAX = 1.0; // 最大
 export const VOLUME_DEFAULT = 0.5; // デフォルト50%
 
+/**
+ * レイアウトテンプレートの種類
+ * classic: メイン + セカンダリ + サブの横並び（grid を持たない従来のレイアウト）
+ */
+export type LayoutTemplateId =
+  | 'classic'
+  | 'grid-2x2'
+  | 'grid-3x2'
+  | 'focus-column'
+  | 'dual'
+  | 'single'
+  | 'custom';
+
+/**
+ * グリッドのセル定義
+ * column / row は 1 始まり、mode はセルに配置したパネルの表示モード（サービスが auto の場合）
+ */
+export interface GridCell {
+  column: number;
+  row: number;
+  columnSpan: number;
+  rowSpan: number;
+  mode: 'desktop' | 'mobile';
+}
+
+/**
+ * グリッドレイアウトの定義
+ * cells[i] に slots[i] のパネルを配置し、セルより多いパネルは格納パネルとして表示する
+ */
+export interface GridDefinition {
+  template: LayoutTemplateId;
+  columns: number;
+  rows: number;
+  cells: GridCell[];
+}
+
+// カスタムグリッドの最大行数・列数
+export const GRID_MAX_COLUMNS = 4;
+export const GRID_MAX_ROWS = 4;
+
+/**
+ * スプリッターで調整したパネルサイズの比率
+ * 省略した項目は CSS の既定サイズを使う
+ */
+export interface LayoutSplits {
+  // classic: コンテナ高さに対するメインビューの高さ
+  mainRow?: number;
+  // classic: メインビュー幅に対するメインパネルの幅
+  mainColumn?: number;
+  // classic: サブパネルの幅の比率（サブパネルの並び順）
+  subColumns?: number[];
+  // grid: 列・行の比率（fr）
+  gridColumns?: number[];
+  gridRows?: number[];
+}
+
+// スプリッターで調整できる比率の範囲
+export const SPLIT_MIN_RATIO = 0.2;
+export const SPLIT_MAX_RATIO = 0.8;
+
 /**
  * レイアウト設定の型定義
- * slots[0] = メイン, slots[1] = セカンダリ, slots[2..] = サブ
+ * grid がない場合: slots[0] = メイン, slots[1] = セカンダリ, slots[2..] = サブ
+ * grid がある場合: slots[i] を grid.cells[i] に配置
  */
 export interface LayoutConfig {
   slots: string[];
+  grid?: GridDefinition;
+  splits?: LayoutSplits;
 }
 
 /**
@@ -90,9 +166,185 @@ export function isValidLayoutConfig(config: unknown): config is LayoutConfig {
   const c = config as Record<string, unknown>;
   if (!Array.isArray(c.slots)) return false;
   if (c.slots.length === 0) return false;
+  if (c.grid !== undefined && !isValidGridDefinition(c.grid)) return false;
+  if (c.splits !== undefined && !isValidLayoutSplits(c.splits)) return false;
   return c.slots.every((slot) => typeof slot === 'string');
 }
 
+/**
+ * パネルサイズの比率が有効かどうかを検証
+ * @param splits パネルサイズの比率
+ * @returns 有効な場合 true
+ */
+export function isValidLayoutSplits(splits: unknown): splits is LayoutSplits {
+  if (!splits || typeof splits !== 'object') return false;
+  const s = splits as Record<string, unknown>;
+  const isRatio = (value: unknown): boolean => typeof value === 'number' && value > 0 && value < 1;
+  const isRatioList = (value: unknown): boolean =>
+    Array.isArray(value) && value.every((v) => typeof v === 'number' && v > 0);
+  if (s.mainRow !== undefined && !isRatio(s.mainRow)) return false;
+  if (s.mainColumn !== undefined && !isRatio(s.mainColumn)) return false;
+  return [s.subColumns, s.gridColumns, s.gridRows].every(
+    (value) => value === undefined || isRatioList(value)
+  );
+}
+
+/**
+ * スプリッターの比率を範囲内にクランプ
+ * @param ratio 比率
+ * @returns クランプされた比率
+ */
+export function clampSplitRatio(ratio: number): number {
+  return Math.max(SPLIT_MIN_RATIO, Math.min(SPLIT_MAX_RATIO, ratio));
+}
+
+/**
+ * 比率の配列を要素数に合わせる
+ * 要素数が一致しない場合は均等な比率を返す
+ * @param ratios 保存された比率
+ * @param count 必要な要素数
+ * @returns 比率の配列
+ */
+export function normalizeRatios(ratios: number[] | undefined, count: number): number[] {
+  if (ratios && ratios.length === count) return [...ratios];
+  return Array.from({ length: count }, () => 1);
+}
+
+/**
+ * 隣り合う2つの比率の境界を移動する
+ * 2つの合計は変えず、どちらも合計の 15% 未満にならないようにする
+ * @param ratios 比率の配列
+ * @param index 境界の左（上）側の要素の位置
+ * @param delta 左（上）側に加える比率
+ * @returns 変更後の比率の配列
+ */
+export function resizeAdjacentRatios(ratios: number[], index: number, delta: number): number[] {
+  const result = [...ratios];
+  if (index < 0 || index + 1 >= result.length) return result;
+  const total = result[index] + result[index + 1];
+  const min = total * 0.15;
+  const first = Math.max(min, Math.min(total - min, result[index] + delta));
+  result[index] = first;
+  result[index + 1] = total - first;
+  return result;
+}
+
+/**
+ * グリッド定義が有効かどうかを検証
+ * すべてのセルがグリッドの範囲内に収まっていること
+ * @param grid グリッド定義
+ * @returns 有効な場合 true
+ */
+export function isValidGridDefinition(grid: unknown): grid is GridDefinition {
+  if (!grid || typeof grid !== 'object') return false;
+  const g = grid as Record<string, unknown>;
+  if (typeof g.template !== 'string' || g.template === 'classic') return false;
+  if (!Number.isInteger(g.columns) || !Number.isInteger(g.rows)) return false;
+  const columns = g.columns as number;
+  const rows = g.rows as number;
+  if (columns < 1 || columns > GRID_MAX_COLUMNS || rows < 1 || rows > GRID_MAX_ROWS) return false;
+  if (!Array.isArray(g.cells) || g.cells.length === 0) return false;
+  return g.cells.every((cell: unknown) => {
+    if (!cell || typeof cell !== 'object') return false;
+    const c = cell as Record<string, unknown>;
+    const values = [c.column, c.row, c.columnSpan, c.rowSpan];
+    if (!values.every((value) => Number.isInteger(value) && (value as number) >= 1)) return false;
+    if (c.mode !== 'desktop' && c.mode !== 'mobile') return false;
+    const { column, row, columnSpan, rowSpan } = c as unknown as GridCell;
+    return column + columnSpan - 1 <= columns && row + rowSpan - 1 <= rows;
+  });
+}
+
+/**
+ * 行数・列数から均等なグリッドを作成
+ * 2列以下のセルはデスクトップ版、それより細かいセルはモバイル版で表示する
+ * @param template テンプレートの種類
+ * @param columns 列数
+ * @param rows 行数
+ * @returns グリッド定義
+ */
+export function createUniformGrid(
+  template: LayoutTemplateId,
+  columns: number,
+  rows: number
+): GridDefinition {
+  const mode = columns <= 2 ? 'desktop' : 'mobile';
+  const cells: GridCell[] = [];
+  for (let row = 1; row <= rows; row++) {
+    for (let column = 1; column <= columns; column++) {
+      cells.push({ column, row, columnSpan: 1, rowSpan: 1, mode });
+    }
+  }
+  return { template, columns, rows, cells };
+}
+
+/**
+ * テンプレートからグリッド定義を取得
+ * @param template テンプレートの種類
+ * @param columns カスタムグリッドの列数
+ * @param rows カスタムグリッドの行数
+ * @returns グリッド定義（classic の場合は undefined）
+ */
+export function getLayoutTemplate(
+  template: LayoutTemplateId,
+  columns = 2,
+  rows = 2
+): GridDefinition | undefined {
+  switch (template) {
+    case 'grid-2x2':
+      return createUniformGrid(template, 2, 2);
+    case 'grid-3x2':
+      return createUniformGrid(template, 3, 2);
+    case 'dual':
+      return createUniformGrid(template, 2, 1);
+    case 'single':
+      return createUniformGrid(template, 1, 1);
+    case 'focus-column':
+      // 左に大きなパネル 1 つ、右に縦 3 段のパネル
+      return {
+        template,
+        columns: 3,
+        rows: 3,
+        cells: [
+          { column: 1, row: 1, columnSpan: 2, rowSpan: 3, mode: 'desktop' },
+          { column: 3, row: 1, columnSpan: 1, rowSpan: 1, mode: 'mobile' },
+          { column: 3, row: 2, columnSpan: 1, rowSpan: 1, mode: 'mobile' },
+          { column: 3, row: 3, columnSpan: 1, rowSpan: 1, mode: 'mobile' },
+        ],
+      };
+    case 'custom': {
+      const c = Math.max(1, Math.min(GRID_MAX_COLUMNS, Math.round(columns)));
+      const r = Math.max(1, Math.min(GRID_MAX_ROWS, Math.round(rows)));
+      return createUniformGrid(template, c, r);
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * グリッドセルの CSS grid-area を取得
+ * @param cell グリッドのセル
+ * @returns grid-area の値（例: "1 / 1 / span 3 / span 2"）
+ */
+export function getGridArea(cell: GridCell): string {
+  return `${cell.row} / ${cell.column} / span ${cell.rowSpan} / span ${cell.columnSpan}`;
+}
+
+/**
+ * スロットの2つの位置を入れ替える
+ * @param slots スロット
+ * @param a 位置
+ * @param b 位置
+ * @returns 入れ替え後のスロット（範囲外の場合は元のスロットのコピー）
+ */
+export function swapSlots(slots: string[], a: number, b: number): string[] {
+  const result = [...slots];
+  if (a < 0 || b < 0 || a >= result.length || b >= result.length) return result;
+  [result[a], result[b]] = [result[b], result[a]];
+  return result;
+}
+
 /**
  * スロットインデックスからパネルタイプを取得
  * @param index スロットインデックス
@@ -122,6 +374,280 @@ export function getPanelClassByType(panelType: 'main' | 'secondary' | 'sub'): st
   return `${panelType}-panel`;
 }
 
+/**
+ * サービスの表示モード
+ * auto: メインパネルではデスクトップ版、それ以外ではモバイル版
+ * desktop / mobile: 配置に関わらず固定
+ */
+export type ServiceViewMode = 'auto' | 'desktop' | 'mobile';
+
+/**
+ * サービス定義の型定義
+ * パネルとして表示する SNS / Web サービスの情報
+ */
+export interface ServiceDefinition {
+  id: string;
+  name: string;
+  url: string;
+  icon: string;
+  defaultMode: ServiceViewMode;
+  // ログインセッションを分けるプロファイル名（省略時は DEFAULT_PROFILE）
+  profile?: string;
+  // 自動更新の設定（省略時は自動更新しない）
+  refresh?: RefreshSettings;
+  // true の場合は操作がなくても休止しない
+  neverHibernate?: boolean;
+  // true の場合は前回の URL を復元せず、常に url から開く
+  alwaysStartAtHome?: boolean;
+  // コンテンツブロックでブロックしないドメイン
+  blockerAllowlist?: string[];
+  // 新しいウィンドウで開かれるリンクの開き方（省略時は DEFAULT_LINK_POLICY）
+  linkPolicy?: LinkPolicy;
+}
+
+/**
+ * パネルの自動更新の設定
+ * skipWhenFocused / skipWhenPlaying が true の場合、該当するときはその回の更新を見送る
+ */
+export interface RefreshSettings {
+  intervalMinutes: number;
+  skipWhenFocused: boolean;
+  skipWhenPlaying: boolean;
+}
+
+// 自動更新の間隔の選択肢（分）
+export const REFRESH_INTERVAL_OPTIONS = [1, 5, 10, 15, 30, 60];
+
+// 自動更新の間隔の上限（分）
+export const REFRESH_INTERVAL_MAX = 24 * 60;
+
+// 既定のプロファイル名（従来の共有セッション persist:sns-viewer）
+export const DEFAULT_PROFILE = 'sns-viewer';
+
+// 初回起動時のサービス一覧
+export const DEFAULT_SERVICES: ServiceDefinition[] = [
+  {
+    id: 'youtube',
+    name: 'YouTube',
+    url: 'https://www.youtube.com/',
+    icon: '▶️',
+    defaultMode: 'auto',
+  },
+  { id: 'sora', name: 'Sora', url: 'https://sora.com/', icon: '🎬', defaultMode: 'auto' },
+  { id: 'tiktok', name: 'TikTok', url: 'https://www.tiktok.com/', icon: '🎵', defaultMode: 'auto' },
+  { id: 'x', name: 'X', url: 'https://x.com/', icon: '𝕏', defaultMode: 'auto' },
+  {
+    id: 'instagram',
+    name: 'Instagram',
+    url: 'https://www.instagram.com/',
+    icon: '📷',
+    defaultMode: 'auto',
+  },
+  {
+    id: 'threads',
+    name: 'Threads',
+    url: 'https://www.threads.net/',
+    icon: '🧵',
+    defaultMode: 'auto',
+  },
+];
+
+/**
+ * URL がパネルで開ける http(s) URL かどうかを検証
+ * @param url URL 文字列
+ * @returns 有効な場合 true
+ */
+export function isValidServiceUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * ツールバーに入力された URL をパネルで開く URL に変換する
+ * スキームのない入力（"x.com/home" など）は https として扱う
+ * @param input 入力された文字列
+ * @returns 開く URL（http(s) として解釈できない場合は null）
+ */
+export function normalizeNavigationUrl(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+  const url = trimmed.includes('://') ? trimmed : `https://${trimmed}`;
+  return isValidServiceUrl(url) ? new URL(url).href : null;
+}
+
+/**
+ * プロファイル名が有効かどうかを検証
+ * パーティション名に使うため英数字・ハイフン・アンダースコアのみ許可
+ * @param profile プロファイル名
+ * @returns 有効な場合 true
+ */
+export function isValidProfileName(profile: string): boolean {
+  return /^[A-Za-z0-9_-]{1,64}$/.test(profile);
+}
+
+/**
+ * プロファイル名から webview のパーティション名を取得
+ * @param profile プロファイル名（省略時は既定のプロファイル）
+ * @returns パーティション名（例: "persist:sns-viewer"）
+ */
+export function getPartitionName(profile?: string): string {
+  return `persist:${profile || DEFAULT_PROFILE}`;
+}
+
+/**
+ * サービス定義が有効かどうかを検証
+ * @param service サービス定義
+ * @returns 有効な場合 true
+ */
+export function isValidServiceDefinition(service: unknown): service is ServiceDefinition {
+  if (!service || typeof service !== 'object') return false;
+  const s = service as Record<string, unknown>;
+  if (typeof s.id !== 'string' || s.id === '') return false;
+  if (typeof s.name !== 'string' || s.name === '') return false;
+  if (typeof s.url !== 'string' || !isValidServiceUrl(s.url)) return false;
+  if (typeof s.icon !== 'string') return false;
+  if (
+    s.profile !== undefined &&
+    (typeof s.profile !== 'string' || !isValidProfileName(s.profile))
+  ) {
+    return false;
+  }
+  if (s.refresh !== undefined && !isValidRefreshSettings(s.refresh)) return false;
+  if (s.neverHibernate !== undefined && typeof s.neverHibernate !== 'boolean') return false;
+  if (s.alwaysStartAtHome !== undefined && typeof s.alwaysStartAtHome !== 'boolean') return false;
+  if (
+    s.blockerAllowlist !== undefined &&
+    (!Array.isArray(s.blockerAllowlist) || !s.blockerAllowlist.every(isValidDomainName))
+  ) {
+    return false;
+  }
+  if (s.linkPolicy !== undefined && !isValidLinkPolicy(s.linkPolicy)) return false;
+  return s.defaultMode === 'auto' || s.defaultMode === 'desktop' || s.defaultMode === 'mobile';
+}
+
+/**
+ * 自動更新の設定が有効かどうかを検証
+ * @param refresh 自動更新の設定
+ * @returns 有効な場合 true
+ */
+export function isValidRefreshSettings(refresh: unknown): refresh is RefreshSettings {
+  if (!refresh || typeof refresh !== 'object') return false;
+  const r = refresh as Record<string, unknown>;
+  if (typeof r.intervalMinutes !== 'number' || !Number.isInteger(r.intervalMinutes)) return false;
+  if (r.intervalMinutes < 1 || r.intervalMinutes > REFRESH_INTERVAL_MAX) return false;
+  return typeof r.skipWhenFocused === 'boolean' && typeof r.skipWhenPlaying === 'boolean';
+}
+
+/**
+ * 自動更新までの残り時間を表示用の文字列に変換する
+ * @param milliseconds 残り時間（ミリ秒）
+ * @returns "分:秒" 形式の文字列（例: "4:05"）
+ */
+export function formatCountdown(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+/**
+ * サービス一覧が有効かどうかを検証
+ * 1件以上あり、ID が重複していないこと
+ * @param services サービス一覧
+ * @returns 有効な場合 true
+ */
+export function isValidServiceList(services: unknown): services is ServiceDefinition[] {
+  if (!Array.isArray(services)) return false;
+  if (services.length === 0) return false;
+  if (!services.every(isValidServiceDefinition)) return false;
+  const ids = new Set(services.map((service) => service.id));
+  return ids.size === services.length;
+}
+
+/**
+ * サービス名から重複しないサービスIDを生成
+ * @param name サービス名
+ * @param existingIds 既存のサービスID
+ * @returns サービスID（例: "bluesky", "bluesky-2"）
+ */
+export function createServiceId(name: string, existingIds: string[]): string {
+  const base =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'service';
+  let id = base;
+  let suffix = 2;
+  while (existingIds.includes(id)) {
+    id = `${base}-${suffix}`;
+    suffix++;
+  }
+  return id;
+}
+
+/**
+ * 保存されたスロットをサービス一覧に合わせて正規化
+ * 存在しないサービスと重複を除き、未配置のサービスを登録順に末尾へ追加する
+ * @param slots 保存されたスロット
+ * @param serviceIds 登録済みサービスID（登録順）
+ * @returns 正規化されたスロット
+ */
+export function normalizeLayoutSlots(slots: string[], serviceIds: string[]): string[] {
+  const result: string[] = [];
+  slots.forEach((id) => {
+    if (serviceIds.includes(id) && !result.includes(id)) result.push(id);
+  });
+  serviceIds.forEach((id) => {
+    if (!result.includes(id)) result.push(id);
+  });
+  return result;
+}
+
+/**
+ * スロットを別の位置へ移動する
+ * @param slots スロット
+ * @param from 移動元の位置
+ * @param to 挿入先の位置（移動前の配列での位置。to の要素の直前に挿入）
+ * @returns 移動後のスロット（範囲外の場合は元のスロットのコピー）
+ */
+export function moveSlot(slots: string[], from: number, to: number): string[] {
+  const result = [...slots];
+  if (from < 0 || from >= result.length || to < 0 || to > result.length) return result;
+  const [item] = result.splice(from, 1);
+  result.splice(to > from ? to - 1 : to, 0, item);
+  return result;
+}
+
+/**
+ * サービスの表示モードとパネルタイプから、デスクトップ表示にするかを判定
+ * @param mode サービスの表示モード
+ * @param panelType パネルタイプ
+ * @returns デスクトップ表示の場合 true
+ */
+export function isDesktopMode(
+  mode: ServiceViewMode,
+  panelType: 'main' | 'secondary' | 'sub'
+): boolean {
+  if (mode === 'desktop') return true;
+  if (mode === 'mobile') return false;
+  return getWebviewClassByPanelType(panelType) === 'webview-desktop';
+}
+
+/**
+ * サービスの表示モードとグリッドのセルから、デスクトップ表示にするかを判定
+ * @param mode サービスの表示モード
+ * @param cell 配置先のセル
+ * @returns デスクトップ表示の場合 true
+ */
+export function isDesktopGridCell(mode: ServiceViewMode, cell: GridCell): boolean {
+  if (mode === 'auto') return cell.mode === 'desktop';
+  return mode === 'desktop';
+}
+
 /**
  * ズーム設定の型定義
  * SNS名をキーとして個別のズーム倍率を保存
@@ -141,6 +667,26 @@ export function isValidZoomConfig(config: unknown): config is ZoomConfig {
   return Object.values(c).every((value) => typeof value === 'number');
 }
 
+/**
+ * 保存するズーム設定の型定義
+ * global は統一ズーム、services はサービス個別のズーム
+ */
+export interface ZoomSettings {
+  global: number;
+  services: ZoomConfig;
+}
+
+/**
+ * 保存されたズーム設定が有効かどうかを検証
+ * @param settings ズーム設定
+ * @returns 有効な場合 true
+ */
+export function isValidZoomSettings(settings: unknown): settings is ZoomSettings {
+  if (!settings || typeof settings !== 'object') return false;
+  const s = settings as Record<string, unknown>;
+  return typeof s.global === 'number' && isValidZoomConfig(s.services);
+}
+
 /**
  * ズーム値を範囲内にクランプ
  * @param zoom ズーム値
@@ -178,6 +724,26 @@ export function isValidVolumeConfig(config: unknown): config is VolumeConfig {
   return Object.values(c).every((value) => typeof value === 'number');
 }
 
+/**
+ * 保存する音量設定の型定義
+ * global は統一音量、services はサービス個別の音量
+ */
+export interface VolumeSettings {
+  global: number;
+  services: VolumeConfig;
+}
+
+/**
+ * 保存された音量設定が有効かどうかを検証
+ * @param settings 音量設定
+ * @returns 有効な場合 true
+ */
+export function isValidVolumeSettings(settings: unknown): settings is VolumeSettings {
+  if (!settings || typeof settings !== 'object') return false;
+  const s = settings as Record<string, unknown>;
+  return typeof s.global === 'number' && isValidVolumeConfig(s.services);
+}
+
 /**
  * 音量値を範囲内にクランプ
  * @param volume 音量値
@@ -196,6 +762,79 @@ export function formatVolumePercent(volume: number): string {
   return `${Math.round(volume * 100)}%`;
 }
 
+/**
+ * サービス個別の設定値を取得
+ * 個別設定がない場合は全体設定の値にフォールバックする
+ * @param config サービス名をキーとした個別設定（ZoomConfig / VolumeConfig）
+ * @param snsName サービス名
+ * @param globalValue 全体設定の値
+ * @returns 適用する値
+ */
+export function resolveServiceValue(
+  config: ZoomConfig | VolumeConfig,
+  snsName: string,
+  globalValue: number
+): number {
+  const value = config[snsName];
+  return typeof value === 'number' ? value : globalValue;
+}
+
+/**
+ * レイアウトプリセットの型定義
+ * スロット配置・ピン留め・ズーム・音量をまとめて名前付きで保存する
+ */
+export interface LayoutPreset {
+  id: string;
+  name: string;
+  layout: LayoutConfig;
+  pinned: boolean;
+  zoom: number;
+  volume: number;
+  zoomOverrides: ZoomConfig;
+  volumeOverrides: VolumeConfig;
+}
+
+/**
+ * レイアウトプリセット一覧の型定義
+ * defaultPresetId は起動時に適用するプリセット
+ */
+export interface LayoutPresetStore {
+  presets: LayoutPreset[];
+  defaultPresetId: string | null;
+}
+
+/**
+ * レイアウトプリセットが有効かどうかを検証
+ * @param preset レイアウトプリセット
+ * @returns 有効な場合 true
+ */
+export function isValidLayoutPreset(preset: unknown): preset is LayoutPreset {
+  if (!preset || typeof preset !== 'object') return false;
+  const p = preset as Record<string, unknown>;
+  if (typeof p.id !== 'string' || p.id === '') return false;
+  if (typeof p.name !== 'string' || p.name === '') return false;
+  if (!isValidLayoutConfig(p.layout)) return false;
+  if (typeof p.pinned !== 'boolean') return false;
+  if (typeof p.zoom !== 'number' || typeof p.volume !== 'number') return false;
+  return isValidZoomConfig(p.zoomOverrides) && isValidVolumeConfig(p.volumeOverrides);
+}
+
+/**
+ * レイアウトプリセット一覧が有効かどうかを検証
+ * 起動時プリセットは一覧に存在するものだけを許可する
+ * @param store レイアウトプリセット一覧
+ * @returns 有効な場合 true
+ */
+export function isValidLayoutPresetStore(store: unknown): store is LayoutPresetStore {
+  if (!store || typeof store !== 'object') return false;
+  const s = store as Record<string, unknown>;
+  if (!Array.isArray(s.presets) || !s.presets.every(isValidLayoutPreset)) return false;
+  const ids = s.presets.map((preset) => preset.id);
+  if (new Set(ids).size !== ids.length) return false;
+  if (s.defaultPresetId === null) return true;
+  return typeof s.defaultPresetId === 'string' && ids.includes(s.defaultPresetId);
+}
+
 /**
  * 音量値からアイコンを取得
  * @param volume 音量値
@@ -207,3 +846,971 @@ export function getVolumeIcon(volume: number): string {
   if (volume < 0.7) return '🔉';
   return '🔊';
 }
+
+/**
+ * ショートカットで実行できるコマンド
+ * promote-N は N 番目のスロットのパネルをメインにする
+ */
+export type ShortcutCommand =
+  | 'promote-1'
+  | 'promote-2'
+  | 'promote-3'
+  | 'promote-4'
+  | 'promote-5'
+  | 'promote-6'
+  | 'promote-7'
+  | 'promote-8'
+  | 'promote-9'
+  | 'cycle-next'
+  | 'cycle-previous'
+  | 'toggle-pin'
+  | 'zoom-in'
+  | 'zoom-out'
+  | 'zoom-reset'
+  | 'volume-up'
+  | 'volume-down'
+  | 'volume-mute'
+  | 'mute-all'
+  | 'reload-panel'
+  | 'open-settings';
+
+/**
+ * コマンドごとのショートカット（Electron のアクセラレーター形式、空文字は未割り当て）
+ */
+export type ShortcutBindings = Record<ShortcutCommand, string>;
+
+/**
+ * ショートカットコマンドの一覧（メニューとショートカット設定の表示順）
+ */
+export const SHORTCUT_COMMANDS: { command: ShortcutCommand; label: string }[] = [
+  { command: 'promote-1', label: 'パネル 1 をメインに' },
+  { command: 'promote-2', label: 'パネル 2 をメインに' },
+  { command: 'promote-3', label: 'パネル 3 をメインに' },
+  { command: 'promote-4', label: 'パネル 4 をメインに' },
+  { command: 'promote-5', label: 'パネル 5 をメインに' },
+  { command: 'promote-6', label: 'パネル 6 をメインに' },
+  { command: 'promote-7', label: 'パネル 7 をメインに' },
+  { command: 'promote-8', label: 'パネル 8 をメインに' },
+  { command: 'promote-9', label: 'パネル 9 をメインに' },
+  { command: 'cycle-next', label: '次のパネルをメインに' },
+  { command: 'cycle-previous', label: '前のパネルをメインに' },
+  { command: 'toggle-pin', label: 'ピン止めを切り替え' },
+  { command: 'zoom-in', label: '拡大' },
+  { command: 'zoom-out', label: '縮小' },
+  { command: 'zoom-reset', label: 'ズームをリセット' },
+  { command: 'volume-up', label: '音量を上げる' },
+  { command: 'volume-down', label: '音量を下げる' },
+  { command: 'volume-mute', label: 'ミュートを切り替え' },
+  { command: 'mute-all', label: 'すべてのパネルをミュート' },
+  { command: 'reload-panel', label: 'パネルを再読み込み' },
+  { command: 'open-settings', label: '設定を開く' },
+];
+
+/**
+ * デフォルトのショートカット
+ */
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  'promote-1': 'CmdOrCtrl+1',
+  'promote-2': 'CmdOrCtrl+2',
+  'promote-3': 'CmdOrCtrl+3',
+  'promote-4': 'CmdOrCtrl+4',
+  'promote-5': 'CmdOrCtrl+5',
+  'promote-6': 'CmdOrCtrl+6',
+  'promote-7': 'CmdOrCtrl+7',
+  'promote-8': 'CmdOrCtrl+8',
+  'promote-9': 'CmdOrCtrl+9',
+  'cycle-next': 'CmdOrCtrl+]',
+  'cycle-previous': 'CmdOrCtrl+[',
+  'toggle-pin': 'CmdOrCtrl+P',
+  'zoom-in': 'CmdOrCtrl+=',
+  'zoom-out': 'CmdOrCtrl+-',
+  'zoom-reset': 'CmdOrCtrl+0',
+  'volume-up': 'CmdOrCtrl+Shift+Up',
+  'volume-down': 'CmdOrCtrl+Shift+Down',
+  'volume-mute': 'CmdOrCtrl+Shift+M',
+  'mute-all': '',
+  'reload-panel': 'CmdOrCtrl+R',
+  'open-settings': 'CmdOrCtrl+,',
+};
+
+/**
+ * ショートカットコマンドかどうかを判定
+ * @param command コマンド名
+ * @returns ショートカットコマンドの場合 true
+ */
+export function isShortcutCommand(command: unknown): command is ShortcutCommand {
+  return SHORTCUT_COMMANDS.some((entry) => entry.command === command);
+}
+
+/**
+ * 保存されたショートカット設定が有効かどうかを検証
+ * 一部のコマンドだけを含む設定も許可する（残りはデフォルトを使う）
+ * @param bindings ショートカット設定
+ * @returns 有効な場合 true
+ */
+export function isValidShortcutBindings(bindings: unknown): bindings is Partial<ShortcutBindings> {
+  if (!bindings || typeof bindings !== 'object' || Array.isArray(bindings)) return false;
+  return Object.entries(bindings).every(
+    ([command, accelerator]) => isShortcutCommand(command) && typeof accelerator === 'string'
+  );
+}
+
+/**
+ * 保存されたショートカット設定をデフォルトとマージする
+ * @param bindings 保存されたショートカット設定
+ * @returns 全コマンドのショートカット
+ */
+export function resolveShortcutBindings(bindings: unknown): ShortcutBindings {
+  if (!isValidShortcutBindings(bindings)) return { ...DEFAULT_SHORTCUTS };
+  return { ...DEFAULT_SHORTCUTS, ...bindings };
+}
+
+/**
+ * ショートカットを割り当てる
+ * 同じショートカットが他のコマンドに割り当て済みの場合は、そちらを未割り当てにする
+ * @param bindings 現在のショートカット
+ * @param command 割り当てるコマンド
+ * @param accelerator ショートカット（空文字で未割り当て）
+ * @returns 新しいショートカット
+ */
+export function assignShortcut(
+  bindings: ShortcutBindings,
+  command: ShortcutCommand,
+  accelerator: string
+): ShortcutBindings {
+  const result = { ...bindings };
+  if (accelerator !== '') {
+    for (const { command: other } of SHORTCUT_COMMANDS) {
+      if (result[other] === accelerator) result[other] = '';
+    }
+  }
+  result[command] = accelerator;
+  return result;
+}
+
+/**
+ * キーボードイベントの型定義（テスト用に KeyboardEvent の必要な部分だけを定義）
+ */
+export interface ShortcutKeyEvent {
+  code: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+}
+
+// KeyboardEvent.code から Electron のアクセラレーターのキー名への対応
+const ACCELERATOR_KEY_NAMES: Record<string, string> = {
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: "'",
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+  Backquote: '`',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  Space: 'Space',
+  Enter: 'Enter',
+  Tab: 'Tab',
+  Backspace: 'Backspace',
+  Delete: 'Delete',
+  Home: 'Home',
+  End: 'End',
+  PageUp: 'PageUp',
+  PageDown: 'PageDown',
+};
+
+/**
+ * キーボードイベントを Electron のアクセラレーター形式に変換する
+ * 修飾キーだけのイベントや対応していないキーは null を返す
+ * @param event キーボードイベント
+ * @param isMac macOS の場合 true（Cmd を CmdOrCtrl として扱う）
+ * @returns アクセラレーター（例: "CmdOrCtrl+Shift+1"）
+ */
+export function keyEventToAccelerator(event: ShortcutKeyEvent, isMac: boolean): string | null {
+  let key: string | undefined;
+  const match = /^(?:Key([A-Z])|Digit([0-9])|Numpad([0-9])|(F[0-9]{1,2}))$/.exec(event.code);
+  if (match) {
+    key = match[1] ?? match[2] ?? match[3] ?? match[4];
+  } else {
+    key = ACCELERATOR_KEY_NAMES[event.code];
+  }
+  if (!key) return null;
+
+  const modifiers: string[] = [];
+  if (isMac ? event.metaKey : event.ctrlKey) modifiers.push('CmdOrCtrl');
+  if (isMac && event.ctrlKey) modifiers.push('Ctrl');
+  if (!isMac && event.metaKey) modifiers.push('Super');
+  if (event.altKey) modifiers.push('Alt');
+  if (event.shiftKey) modifiers.push('Shift');
+  return [...modifiers, key].join('+');
+}
+
+/**
+ * アクセラレーターの表記を正規化する（修飾キーの別名と順序を揃える）
+ * keyEventToAccelerator の結果と比較するために使う
+ * @param accelerator アクセラレーター
+ * @param isMac macOS の場合 true
+ * @returns 正規化したアクセラレーター
+ */
+export function normalizeAccelerator(accelerator: string, isMac: boolean): string {
+  if (accelerator === '') return '';
+  const parts = accelerator.split('+');
+  // "CmdOrCtrl++" のように + キーを含む場合
+  const key = parts[parts.length - 1] === '' ? 'Plus' : parts[parts.length - 1];
+  const names = new Set(parts.slice(0, -1).map((part) => part.toLowerCase()));
+  const has = (...aliases: string[]): boolean => aliases.some((alias) => names.has(alias));
+
+  const modifiers: string[] = [];
+  const cmdOrCtrl =
+    has('cmdorctrl', 'commandorcontrol') ||
+    (isMac ? has('cmd', 'command', 'super', 'meta') : has('ctrl', 'control'));
+  if (cmdOrCtrl) modifiers.push('CmdOrCtrl');
+  if (isMac && has('ctrl', 'control')) modifiers.push('Ctrl');
+  if (!isMac && has('cmd', 'command', 'super', 'meta')) modifiers.push('Super');
+  if (has('alt', 'option')) modifiers.push('Alt');
+  if (has('shift')) modifiers.push('Shift');
+  return [...modifiers, key.length === 1 ? key.toUpperCase() : key].join('+');
+}
+
+/**
+ * アクセラレーターを表示用の文字列に変換する
+ * @param accelerator アクセラレーター
+ * @param isMac macOS の場合 true
+ * @returns 表示用の文字列（未割り当ての場合は "—"）
+ */
+export function formatAccelerator(accelerator: string, isMac: boolean): string {
+  if (accelerator === '') return '—';
+  return normalizeAccelerator(accelerator, isMac)
+    .split('+')
+    .map((part) => {
+      if (part === 'CmdOrCtrl') return isMac ? '⌘' : 'Ctrl';
+      if (part === 'Ctrl') return '⌃';
+      if (part === 'Alt') return isMac ? '⌥' : 'Alt';
+      if (part === 'Shift') return isMac ? '⇧' : 'Shift';
+      if (part === 'Super') return 'Win';
+      return part;
+    })
+    .join(isMac ? '' : '+');
+}
+
+/**
+ * ページタイトルから未読件数を取得する
+ * "(3) X" や "(99+) Instagram" のように先頭に件数を表示するサイトに対応
+ * @param title ページタイトル
+ * @returns 未読件数（件数がない場合は 0）
+ */
+export function parseUnreadCount(title: string): number {
+  const match = /^\s*[([](\d+)\+?[)\]]/.exec(title);
+  return match ? Number(match[1]) : 0;
+}
+
+/**
+ * 未読件数を表示用の文字列に変換する
+ * @param count 未読件数
+ * @returns 表示用の文字列（100 件以上は "99+"）
+ */
+export function formatUnreadCount(count: number): string {
+  return count > 99 ? '99+' : String(count);
+}
+
+/**
+ * パネル休止の設定
+ * idleMinutes の間操作のないパネルを休止する（0 の場合は休止しない）
+ */
+export interface HibernationSettings {
+  idleMinutes: number;
+}
+
+// 休止までの時間の選択肢（分）
+export const HIBERNATION_IDLE_OPTIONS = [0, 5, 10, 15, 30, 60];
+
+/**
+ * パネル休止の設定が有効かどうかを検証
+ * @param settings パネル休止の設定
+ * @returns 有効な場合 true
+ */
+export function isValidHibernationSettings(settings: unknown): settings is HibernationSettings {
+  if (!settings || typeof settings !== 'object') return false;
+  const s = settings as Record<string, unknown>;
+  return typeof s.idleMinutes === 'number' && Number.isInteger(s.idleMinutes) && s.idleMinutes >= 0;
+}
+
+/**
+ * 休止の対象にしたパネルの、スナップショットを撮り終えた時点の状態
+ */
+export interface HibernationState {
+  serviceId: string;
+  // 現在のメインパネルのサービス ID
+  mainId: string | undefined;
+  // 現在フォーカス中のパネルのサービス ID
+  focusedId: string | null;
+  // 休止の対象にした時点・現在の最後に操作した時刻
+  activityAtCheck: number | undefined;
+  activityNow: number | undefined;
+}
+
+/**
+ * スナップショットを撮っている間の操作を踏まえて、休止を続けてよいかどうかを判定
+ * メインパネルへの切り替え・フォーカス・操作があった場合は休止しない
+ * @param state スナップショットを撮り終えた時点の状態
+ * @returns 休止してよい場合 true
+ */
+export function shouldCompleteHibernation(state: HibernationState): boolean {
+  return (
+    state.serviceId !== state.mainId &&
+    state.serviceId !== state.focusedId &&
+    state.activityNow === state.activityAtCheck
+  );
+}
+
+/**
+ * 起動時の webview の読み込み方法
+ * staggered: メインパネルから順に 1 つずつ読み込む（非表示のパネルは表示されたときに読み込む）
+ * on-demand: メインパネルだけを読み込み、他のパネルはクリック・メインへの切り替え時に読み込む
+ */
+export type StartupMode = 'staggered' | 'on-demand';
+
+/**
+ * 起動時の読み込み方法が有効かどうかを検証
+ * @param mode 読み込み方法
+ * @returns 有効な場合 true
+ */
+export function isValidStartupMode(mode: unknown): mode is StartupMode {
+  return mode === 'staggered' || mode === 'on-demand';
+}
+
+/**
+ * パネルで発生した障害の種類
+ * crash: レンダラープロセスの終了、unresponsive: 応答なし、load-failed: 読み込みの失敗
+ */
+export type IncidentType = 'crash' | 'unresponsive' | 'load-failed';
+
+/**
+ * パネルで発生した障害の記録
+ */
+export interface PanelIncident {
+  type: IncidentType;
+  reason: string;
+  url: string;
+  timestamp: number;
+}
+
+/**
+ * サービスごとの障害の記録（古い順）
+ */
+export interface IncidentLog {
+  [serviceId: string]: PanelIncident[];
+}
+
+// サービスごとに保存する障害の記録の件数
+export const INCIDENT_LOG_LIMIT = 20;
+
+// クラッシュ時に自動で再読み込みする回数の上限
+export const RECOVERY_MAX_ATTEMPTS = 5;
+
+/**
+ * 障害の記録が有効かどうかを検証
+ * @param incident 障害の記録
+ * @returns 有効な場合 true
+ */
+export function isValidPanelIncident(incident: unknown): incident is PanelIncident {
+  if (!incident || typeof incident !== 'object') return false;
+  const i = incident as Record<string, unknown>;
+  if (i.type !== 'crash' && i.type !== 'unresponsive' && i.type !== 'load-failed') return false;
+  return (
+    typeof i.reason === 'string' && typeof i.url === 'string' && typeof i.timestamp === 'number'
+  );
+}
+
+/**
+ * サービスごとの障害の記録が有効かどうかを検証
+ * @param log 障害の記録
+ * @returns 有効な場合 true
+ */
+export function isValidIncidentLog(log: unknown): log is IncidentLog {
+  if (!log || typeof log !== 'object' || Array.isArray(log)) return false;
+  return Object.values(log).every(
+    (incidents) => Array.isArray(incidents) && incidents.every(isValidPanelIncident)
+  );
+}
+
+/**
+ * 障害の記録を追加する（上限を超えた古い記録は削除する）
+ * @param log 障害の記録
+ * @param serviceId サービスID
+ * @param incident 追加する記録
+ * @param limit サービスごとの記録の上限
+ * @returns 新しい障害の記録
+ */
+export function appendIncident(
+  log: IncidentLog,
+  serviceId: string,
+  incident: PanelIncident,
+  limit = INCIDENT_LOG_LIMIT
+): IncidentLog {
+  const incidents = [...(log[serviceId] ?? []), incident];
+  return { ...log, [serviceId]: incidents.slice(Math.max(0, incidents.length - limit)) };
+}
+
+/**
+ * クラッシュ後に自動で再読み込みするまでの時間（指数バックオフ）
+ * @param attempt 何回目の再読み込みか（0 始まり）
+ * @returns 待ち時間（ミリ秒、最大 60 秒）
+ */
+export function getRecoveryDelay(attempt: number): number {
+  return Math.min(60 * 1000, 2000 * 2 ** Math.max(0, attempt));
+}
+
+/**
+ * サービスごとの最後に表示していた URL
+ */
+export interface LastUrls {
+  [serviceId: string]: string;
+}
+
+/**
+ * 最後に表示していた URL の記録が有効かどうかを検証
+ * @param urls URL の記録
+ * @returns 有効な場合 true
+ */
+export function isValidLastUrls(urls: unknown): urls is LastUrls {
+  if (!urls || typeof urls !== 'object' || Array.isArray(urls)) return false;
+  return Object.values(urls).every((url) => typeof url === 'string' && isValidServiceUrl(url));
+}
+
+/**
+ * パネルを開くときに読み込む URL を決める
+ * 前回の URL があればそれを、alwaysStartAtHome の場合や記録がない場合はサービスの URL を使う
+ * @param service サービス定義
+ * @param lastUrls 最後に表示していた URL の記録
+ * @returns 読み込む URL
+ */
+export function resolveStartUrl(service: ServiceDefinition, lastUrls: LastUrls): string {
+  if (service.alwaysStartAtHome) return service.url;
+  const lastUrl = lastUrls[service.id];
+  return lastUrl && isValidServiceUrl(lastUrl) ? lastUrl : service.url;
+}
+
+/**
+ * 音声を出すパネルの方針
+ * all: すべて、main: メインパネルのみ、solo: 選択したパネルのみ
+ */
+export type AudioPolicy = 'all' | 'main' | 'solo';
+
+/**
+ * 音声の出力先の設定
+ * soloId は solo のときに音声を出すパネル（null の場合はメインパネル）
+ * mutedPanels は方針に関係なくミュートするパネル
+ */
+export interface AudioSettings {
+  policy: AudioPolicy;
+  soloId: string | null;
+  mutedPanels: string[];
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  policy: 'all',
+  soloId: null,
+  mutedPanels: [],
+};
+
+/**
+ * 音声を出すパネルの方針が有効かどうかを検証
+ * @param policy 方針
+ * @returns 有効な場合 true
+ */
+export function isValidAudioPolicy(policy: unknown): policy is AudioPolicy {
+  return policy === 'all' || policy === 'main' || policy === 'solo';
+}
+
+/**
+ * 音声の出力先の設定が有効かどうかを検証
+ * @param settings 音声の出力先の設定
+ * @returns 有効な場合 true
+ */
+export function isValidAudioSettings(settings: unknown): settings is AudioSettings {
+  if (!settings || typeof settings !== 'object') return false;
+  const s = settings as Record<string, unknown>;
+  return (
+    isValidAudioPolicy(s.policy) &&
+    (s.soloId === null || typeof s.soloId === 'string') &&
+    Array.isArray(s.mutedPanels) &&
+    s.mutedPanels.every((id) => typeof id === 'string')
+  );
+}
+
+/**
+ * パネルが音声を出すかどうかを判定
+ * @param id パネルのサービスID
+ * @param mainId メインパネルのサービスID
+ * @param settings 音声の出力先の設定
+ * @returns 音声を出す場合 true
+ */
+export function isPanelAudible(
+  id: string,
+  mainId: string | undefined,
+  settings: AudioSettings
+): boolean {
+  if (settings.mutedPanels.includes(id)) return false;
+  if (settings.policy === 'main') return id === mainId;
+  if (settings.policy === 'solo') return id === (settings.soloId ?? mainId);
+  return true;
+}
+
+/**
+ * ウィンドウが背面にあるときに再生を一時停止する条件
+ * off: 停止しない、minimized: 最小化・非表示のとき、blurred: フォーカスを失ったとき（最小化を含む）
+ */
+export type BackgroundPause = 'off' | 'minimized' | 'blurred';
+
+/**
+ * メインウィンドウの状態（メインプロセスから通知する）
+ */
+export type WindowState = 'focused' | 'blurred' | 'minimized';
+
+/**
+ * 再生の設定
+ * exclusive が true の場合、再生を始めたパネル以外の動画・音声を一時停止する
+ */
+export interface PlaybackSettings {
+  exclusive: boolean;
+  pauseInBackground: BackgroundPause;
+}
+
+export const DEFAULT_PLAYBACK_SETTINGS: PlaybackSettings = {
+  exclusive: false,
+  pauseInBackground: 'off',
+};
+
+/**
+ * 一時停止する条件が有効かどうかを検証
+ * @param value 一時停止する条件
+ * @returns 有効な場合 true
+ */
+export function isValidBackgroundPause(value: unknown): value is BackgroundPause {
+  return value === 'off' || value === 'minimized' || value === 'blurred';
+}
+
+/**
+ * 再生の設定が有効かどうかを検証
+ * @param settings 再生の設定
+ * @returns 有効な場合 true
+ */
+export function isValidPlaybackSettings(settings: unknown): settings is PlaybackSettings {
+  if (!settings || typeof settings !== 'object') return false;
+  const s = settings as Record<string, unknown>;
+  return typeof s.exclusive === 'boolean' && isValidBackgroundPause(s.pauseInBackground);
+}
+
+/**
+ * ウィンドウの状態に応じて再生を一時停止するかどうかを判定
+ * @param pauseInBackground 一時停止する条件
+ * @param state ウィンドウの状態
+ * @returns 一時停止する場合 true
+ */
+export function shouldPauseInBackground(
+  pauseInBackground: BackgroundPause,
+  state: WindowState
+): boolean {
+  if (state === 'minimized') return pauseInBackground !== 'off';
+  if (state === 'blurred') return pauseInBackground === 'blurred';
+  return false;
+}
+
+/**
+ * パネルに注入するユーザー CSS / スクリプトのルール
+ */
+export interface InjectionRule {
+  id: string;
+  name: string;
+  // 対象のサービスID（null の場合はすべてのサービス）
+  serviceId: string | null;
+  // 対象のページの URL パターン（* は任意の文字列、空の場合はすべてのページ）
+  urlPattern: string;
+  css: string;
+  js: string;
+  enabled: boolean;
+}
+
+/**
+ * 注入ルールが有効かどうかを検証
+ * @param rule 注入ルール
+ * @returns 有効な場合 true
+ */
+export function isValidInjectionRule(rule: unknown): rule is InjectionRule {
+  if (!rule || typeof rule !== 'object') return false;
+  const r = rule as Record<string, unknown>;
+  return (
+    typeof r.id === 'string' &&
+    r.id !== '' &&
+    typeof r.name === 'string' &&
+    (r.serviceId === null || typeof r.serviceId === 'string') &&
+    typeof r.urlPattern === 'string' &&
+    typeof r.css === 'string' &&
+    typeof r.js === 'string' &&
+    typeof r.enabled === 'boolean'
+  );
+}
+
+/**
+ * 注入ルールの一覧が有効かどうかを検証（ID が重複していないこと）
+ * @param rules 注入ルールの一覧
+ * @returns 有効な場合 true
+ */
+export function isValidInjectionRules(rules: unknown): rules is InjectionRule[] {
+  if (!Array.isArray(rules) || !rules.every(isValidInjectionRule)) return false;
+  return new Set(rules.map((rule) => rule.id)).size === rules.length;
+}
+
+/**
+ * URL がパターンに一致するかどうかを判定
+ * @param pattern URL パターン（* は任意の文字列、空の場合はすべての URL に一致）
+ * @param url 判定する URL
+ * @returns 一致する場合 true
+ */
+export function matchesUrlPattern(pattern: string, url: string): boolean {
+  const trimmed = pattern.trim();
+  if (!trimmed) return true;
+  const source = trimmed
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`).test(url);
+}
+
+/**
+ * パネルのページに適用する注入ルールを取得
+ * @param rules 注入ルールの一覧
+ * @param serviceId パネルのサービスID
+ * @param url パネルで表示中の URL
+ * @returns 適用するルール（一覧の順）
+ */
+export function getMatchingRules(
+  rules: InjectionRule[],
+  serviceId: string,
+  url: string
+): InjectionRule[] {
+  return rules.filter(
+    (rule) =>
+      rule.enabled &&
+      (rule.serviceId === null || rule.serviceId === serviceId) &&
+      matchesUrlPattern(rule.urlPattern, url)
+  );
+}
+
+/**
+ * コンテンツブロックの設定
+ * filterLists は Adblock 形式のフィルターリストのファイルパス
+ */
+export interface ContentBlockingSettings {
+  enabled: boolean;
+  filterLists: string[];
+}
+
+export const DEFAULT_CONTENT_BLOCKING_SETTINGS: ContentBlockingSettings = {
+  enabled: false,
+  filterLists: [],
+};
+
+/**
+ * コンテンツブロックの設定が有効かどうかを検証
+ * @param settings コンテンツブロックの設定
+ * @returns 有効な場合 true
+ */
+export function isValidContentBlockingSettings(
+  settings: unknown
+): settings is ContentBlockingSettings {
+  if (!settings || typeof settings !== 'object') return false;
+  const s = settings as Record<string, unknown>;
+  return (
+    typeof s.enabled === 'boolean' &&
+    Array.isArray(s.filterLists) &&
+    s.filterLists.every((path) => typeof path === 'string' && path !== '')
+  );
+}
+
+/**
+ * ドメイン名として有効かどうかを検証
+ * @param domain ドメイン名
+ * @returns 有効な場合 true
+ */
+export function isValidDomainName(domain: unknown): domain is string {
+  return typeof domain === 'string' && /^[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(domain);
+}
+
+/**
+ * 入力されたドメインの一覧（カンマ・空白区切り）を解析する
+ * URL が入力された場合はホスト名を使い、ドメインとして無効なものは除く
+ * @param input 入力された文字列
+ * @returns ドメインの一覧（小文字、重複なし）
+ */
+export function parseDomainList(input: string): string[] {
+  const domains = input
+    .split(/[\s,]+/)
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .map((entry) => {
+      try {
+        return entry.includes('://') ? new URL(entry).hostname : entry;
+      } catch {
+        return '';
+      }
+    })
+    .filter(isValidDomainName);
+  return Array.from(new Set(domains));
+}
+
+/**
+ * 確認せずに許可する権限（ページの表示に必要で、個人情報に関わらないもの）
+ */
+export const AUTO_GRANTED_PERMISSIONS = ['fullscreen', 'pointerLock', 'clipboard-sanitized-write'];
+
+/**
+ * 初回の要求時にユーザーに確認する権限（これ以外の権限は拒否する）
+ */
+export const PROMPTED_PERMISSIONS = ['media', 'geolocation', 'notifications', 'clipboard-read'];
+
+/**
+ * 権限の要求に対する回答
+ */
+export type PermissionDecision = 'granted' | 'denied';
+
+/**
+ * オリジンごと・権限ごとの回答
+ */
+export interface PermissionDecisions {
+  [origin: string]: { [permission: string]: PermissionDecision };
+}
+
+/**
+ * 保存された権限の回答が有効かどうかを検証
+ * @param decisions オリジンごとの回答
+ * @returns 有効な場合 true
+ */
+export function isValidPermissionDecisions(decisions: unknown): decisions is PermissionDecisions {
+  if (!decisions || typeof decisions !== 'object' || Array.isArray(decisions)) return false;
+  return Object.entries(decisions as Record<string, unknown>).every(
+    ([origin, permissions]) =>
+      getPermissionOrigin(origin) === origin &&
+      !!permissions &&
+      typeof permissions === 'object' &&
+      !Array.isArray(permissions) &&
+      Object.entries(permissions as Record<string, unknown>).every(
+        ([permission, decision]) =>
+          PROMPTED_PERMISSIONS.includes(permission) &&
+          (decision === 'granted' || decision === 'denied')
+      )
+  );
+}
+
+/**
+ * 権限の回答を記録するオリジンを取得
+ * @param url 権限を要求したページ（フレーム）の URL
+ * @returns オリジン（http / https 以外の場合は null）
+ */
+export function getPermissionOrigin(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return null;
+    return parsed.origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 権限の確認（Notification.permission・navigator.permissions.query など）に答える
+ * 確認する権限は、保存された回答が許可の場合のみ許可済みとする
+ * @param decisions オリジンごとの回答
+ * @param permission 権限
+ * @param url 確認したページの URL またはオリジン
+ * @returns 許可済みの場合 true
+ */
+export function isPermissionGranted(
+  decisions: PermissionDecisions,
+  permission: string,
+  url: string
+): boolean {
+  if (AUTO_GRANTED_PERMISSIONS.includes(permission)) return true;
+  const origin = getPermissionOrigin(url);
+  if (!origin || !PROMPTED_PERMISSIONS.includes(permission)) return false;
+  return decisions[origin]?.[permission] === 'granted';
+}
+
+/**
+ * 権限の回答を記録する
+ * @param decisions オリジンごとの回答
+ * @param origin オリジン
+ * @param permission 権限
+ * @param decision 回答
+ * @returns 記録後の回答（元のオブジェクトは変更しない）
+ */
+export function setPermissionDecision(
+  decisions: PermissionDecisions,
+  origin: string,
+  permission: string,
+  decision: PermissionDecision
+): PermissionDecisions {
+  return { ...decisions, [origin]: { ...decisions[origin], [permission]: decision } };
+}
+
+/**
+ * 権限の回答を取り消す（次回の要求時に再び確認する）
+ * 回答が残っていないオリジンは削除する
+ * @param decisions オリジンごとの回答
+ * @param origin オリジン
+ * @param permission 権限
+ * @returns 取り消し後の回答（元のオブジェクトは変更しない）
+ */
+export function removePermissionDecision(
+  decisions: PermissionDecisions,
+  origin: string,
+  permission: string
+): PermissionDecisions {
+  const { [permission]: _removed, ...rest } = decisions[origin] ?? {};
+  const { [origin]: _origin, ...others } = decisions;
+  return Object.keys(rest).length > 0 ? { ...others, [origin]: rest } : others;
+}
+
+/**
+ * 別のサイトへのリンクの開き方
+ * browser: システムのブラウザ、window: 子ウィンドウ、panel: 同じパネル
+ */
+export type ExternalLinkTarget = 'browser' | 'window' | 'panel';
+
+/**
+ * 同じサイトへのリンクの開き方
+ */
+export type SameSiteLinkTarget = 'window' | 'panel';
+
+/**
+ * 新しいウィンドウで開かれるリンク（target="_blank"・window.open）の開き方
+ * routeToPanels が true の場合、他のサービスのサイトへのリンクはそのサービスのパネルで開く
+ */
+export interface LinkPolicy {
+  external: ExternalLinkTarget;
+  sameSite: SameSiteLinkTarget;
+  routeToPanels: boolean;
+}
+
+export const DEFAULT_LINK_POLICY: LinkPolicy = {
+  external: 'browser',
+  sameSite: 'window',
+  routeToPanels: true,
+};
+
+/**
+ * リンクを開く方法
+ * route は serviceId のパネルで開く、deny は開かない
+ */
+export type LinkAction =
+  | { type: 'browser' | 'window' | 'panel' | 'deny' }
+  | { type: 'route'; serviceId: string };
+
+/**
+ * リンクの開き方の設定が有効かどうかを検証
+ * @param policy リンクの開き方
+ * @returns 有効な場合 true
+ */
+export function isValidLinkPolicy(policy: unknown): policy is LinkPolicy {
+  if (!policy || typeof policy !== 'object') return false;
+  const p = policy as Record<string, unknown>;
+  return (
+    (p.external === 'browser' || p.external === 'window' || p.external === 'panel') &&
+    (p.sameSite === 'window' || p.sameSite === 'panel') &&
+    typeof p.routeToPanels === 'boolean'
+  );
+}
+
+/**
+ * URL のサイト（同じサイトかどうかの判定に使うドメイン）を取得
+ * Public Suffix List は使わず、ホスト名の末尾の 2 ラベルで近似する
+ * @param url URL 文字列
+ * @returns サイトのドメイン（http / https 以外の場合は null）
+ */
+export function getUrlSite(url: string): string | null {
+  if (!isValidServiceUrl(url)) return null;
+  const host = new URL(url).hostname.toLowerCase();
+  if (/^[\d.]+$/.test(host) || host.includes(':')) return host;
+  return host.split('.').slice(-2).join('.');
+}
+
+/**
+ * 新しいウィンドウで開かれるリンクの開き方を決める
+ * スクリプトから開かれたポップアップ（OAuth・パスキーの認証など）は呼び出し元との
+ * やり取りが必要なため、サイトに関係なく子ウィンドウで開く
+ * @param url 開くリンクの URL
+ * @param sourceUrl リンクを開いたページの URL
+ * @param serviceId リンクを開いたパネルのサービス ID
+ * @param services サービスの一覧
+ * @param isPopup window.open でウィンドウとして開かれた場合 true
+ * @returns リンクを開く方法
+ */
+export function resolveLinkAction(
+  url: string,
+  sourceUrl: string,
+  serviceId: string,
+  services: ServiceDefinition[],
+  isPopup: boolean
+): LinkAction {
+  // 認証のポップアップは about:blank を開いてから移動することがある
+  if (url === 'about:blank') return { type: 'window' };
+  if (/^(mailto|tel):/i.test(url)) return { type: 'browser' };
+  const site = getUrlSite(url);
+  if (!site) return { type: 'deny' };
+  if (isPopup) return { type: 'window' };
+
+  const service = services.find((s) => s.id === serviceId);
+  const policy = service?.linkPolicy ?? DEFAULT_LINK_POLICY;
+  if (site === getUrlSite(sourceUrl) || (service && site === getUrlSite(service.url))) {
+    return { type: policy.sameSite };
+  }
+
+  if (policy.routeToPanels) {
+    const target = services.find((s) => s.id !== serviceId && getUrlSite(s.url) === site);
+    if (target) return { type: 'route', serviceId: target.id };
+  }
+  return { type: policy.external };
+}
+
+/**
+ * 他のパネルで開くメニューの項目
+ * serviceId が null の項目はメインパネルで開く
+ */
+export interface OpenInPanelItem {
+  serviceId: string | null;
+  label: string;
+}
+
+/**
+ * リンク・表示中のページを他のパネルで開くメニューの項目を作成する
+ * メニューを開いたパネル自身は含めず、メインパネル以外から開いた場合は先頭にメインパネルを置く
+ * @param services サービスの一覧
+ * @param sourceId メニューを開いたパネルのサービス ID
+ * @param mainId メインパネルのサービス ID
+ * @param isLink リンクの場合 true（表示中のページの場合 false）
+ * @returns メニューの項目
+ */
+export function getOpenInPanelItems(
+  services: ServiceDefinition[],
+  sourceId: string | undefined,
+  mainId: string | undefined,
+  isLink: boolean
+): OpenInPanelItem[] {
+  const subject = isLink ? 'リンク' : 'このページ';
+  const items: OpenInPanelItem[] = services
+    .filter((service) => service.id !== sourceId)
+    .map((service) => ({ serviceId: service.id, label: `${subject}を ${service.name} で開く` }));
+  if (mainId && mainId !== sourceId) {
+    items.unshift({ serviceId: null, label: `${subject}をメインパネルで開く` });
+  }
+  return items;
+}